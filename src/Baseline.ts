@@ -0,0 +1,253 @@
+/**
+ * Baseline
+ *
+ * Records the duplicates that already exist in a project, so later scans can report only
+ * what is new. Occurrences are keyed by their content hash and relative file path rather
+ * than by line number, so unrelated edits that move code around do not make known
+ * duplicates look new.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DetectionMode, getFunctionHash } from './ConvertToHash';
+import { DuplicateBlock } from './BlockCloneFinder';
+import { DuplicateFunction } from './ReportModel';
+import { ScanResult } from './DuplicateScanner';
+import { TOOL_NAME, getToolVersion } from './ToolInfo';
+
+// Version of the baseline file format
+const BASELINE_VERSION = 1;
+
+/**
+ * A recorded occurrence of a duplicate
+ */
+interface BaselineOccurrence {
+  filePath: string;
+  hash: string;
+}
+
+/**
+ * A recorded duplicate group or block
+ */
+interface BaselineGroup {
+  name: string;
+  occurrences: BaselineOccurrence[];
+}
+
+/**
+ * Contents of a baseline file
+ */
+export interface BaselineFile {
+  version: number;
+  tool: string;
+  toolVersion: string;
+  createdAt: string;
+  mode: DetectionMode;
+  // Whether the hashes were type-aware; missing in baselines that predate the option
+  typeAware?: boolean;
+  groups: BaselineGroup[];
+  blocks: BaselineGroup[];
+}
+
+/**
+ * Duplicates that are not covered by a baseline
+ */
+export interface BaselineComparison {
+  // Groups that are new, or known groups that gained new occurrences
+  duplicates: DuplicateFunction[];
+  // Blocks that are new
+  blocks: DuplicateBlock[];
+  newGroups: number;
+  newOccurrences: number;
+}
+
+/**
+ * Gets the key of an occurrence within a baseline
+ * @param occurrence - The occurrence
+ * @returns The key combining content hash and relative path
+ */
+function getOccurrenceKey(occurrence: BaselineOccurrence): string {
+  return `${occurrence.hash}|${occurrence.filePath}`;
+}
+
+/**
+ * Converts a file path to the relative, forward-slash form stored in baselines
+ * @param projectRoot - The root directory of the project
+ * @param filePath - The absolute file path
+ * @returns The relative file path
+ */
+function toBaselinePath(projectRoot: string, filePath: string): string {
+  return path.relative(projectRoot, filePath).replace(/\\/g, '/');
+}
+
+/**
+ * Gets the baseline occurrences of a duplicate group
+ * @param duplicate - The duplicate group
+ * @param projectRoot - The root directory of the project
+ * @param mode - The detection mode the group was found with
+ * @returns Array of baseline occurrences, in the same order as the group's occurrences
+ */
+function toBaselineOccurrences(duplicate: DuplicateFunction, projectRoot: string, mode: DetectionMode): BaselineOccurrence[] {
+  return duplicate.occurrences.map(occurrence => ({
+    filePath: toBaselinePath(projectRoot, occurrence.filePath),
+    hash: getFunctionHash(occurrence.content ?? '', mode)
+  }));
+}
+
+/**
+ * Gets the baseline occurrences of a duplicated block
+ * @param block - The duplicated block
+ * @param projectRoot - The root directory of the project
+ * @returns Array of baseline occurrences, one for each side of the block
+ */
+function toBaselineBlockOccurrences(block: DuplicateBlock, projectRoot: string): BaselineOccurrence[] {
+  return block.occurrences.map(location => ({
+    filePath: toBaselinePath(projectRoot, location.filePath),
+    hash: getFunctionHash(location.content ?? '', 'exact')
+  }));
+}
+
+/**
+ * Creates a baseline from the result of a scan
+ * @param result - The scan result
+ * @returns The baseline
+ */
+export function createBaseline(result: ScanResult): BaselineFile {
+  return {
+    version: BASELINE_VERSION,
+    tool: TOOL_NAME,
+    toolVersion: getToolVersion(),
+    createdAt: new Date().toISOString(),
+    mode: result.mode,
+    typeAware: result.typeAware,
+    groups: result.duplicates.map(duplicate => ({
+      name: duplicate.name,
+      occurrences: toBaselineOccurrences(duplicate, result.projectRoot, result.mode)
+    })),
+    blocks: result.blocks.map(block => ({
+      name: `${block.statementCount} statements`,
+      occurrences: toBaselineBlockOccurrences(block, result.projectRoot)
+    }))
+  };
+}
+
+/**
+ * Writes a baseline to a file
+ * @param filePath - Path of the baseline file
+ * @param baseline - The baseline
+ */
+export function writeBaseline(filePath: string, baseline: BaselineFile): void {
+  fs.writeFileSync(filePath, JSON.stringify(baseline, null, 2) + '\n');
+}
+
+/**
+ * Reads a baseline from a file
+ * @param filePath - Path of the baseline file
+ * @returns The baseline
+ */
+export function readBaseline(filePath: string): BaselineFile {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Baseline file "${filePath}" does not exist.`);
+  }
+
+  let baseline: BaselineFile;
+  try {
+    baseline = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Baseline file "${filePath}" is not valid JSON: ${error}`);
+  }
+
+  if (baseline.version !== BASELINE_VERSION || !Array.isArray(baseline.groups)) {
+    throw new Error(`Baseline file "${filePath}" is not a version ${BASELINE_VERSION} baseline.`);
+  }
+
+  return { ...baseline, blocks: baseline.blocks ?? [] };
+}
+
+/**
+ * Counts how often each occurrence key appears in a list of baseline groups
+ * @param groups - The baseline groups
+ * @returns Map of occurrence key to count
+ */
+function countOccurrenceKeys(groups: BaselineGroup[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  groups.forEach(group => group.occurrences.forEach(occurrence => {
+    const key = getOccurrenceKey(occurrence);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }));
+  return counts;
+}
+
+/**
+ * Takes one known occurrence from the remaining baseline counts
+ * @param counts - Remaining count of each occurrence key
+ * @param key - The occurrence key
+ * @returns true if the occurrence was known to the baseline
+ */
+function takeKnownOccurrence(counts: Map<string, number>, key: string): boolean {
+  const remaining = counts.get(key) || 0;
+  if (remaining === 0) {
+    return false;
+  }
+  counts.set(key, remaining - 1);
+  return true;
+}
+
+/**
+ * Compares the result of a scan with a baseline, keeping only new groups and known
+ * groups with new occurrences. Occurrences of a known group are all kept for context,
+ * with the new ones marked.
+ * @param result - The scan result
+ * @param baseline - The baseline
+ * @returns The duplicates not covered by the baseline
+ */
+export function compareWithBaseline(result: ScanResult, baseline: BaselineFile): BaselineComparison {
+  if (baseline.mode !== result.mode) {
+    throw new Error(`Baseline was recorded in ${baseline.mode} mode, but this scan uses ${result.mode} mode.`);
+  }
+  if ((baseline.typeAware ?? false) !== result.typeAware) {
+    throw new Error(result.typeAware
+      ? 'Baseline was recorded without type-aware matching, but this scan uses --type-aware.'
+      : 'Baseline was recorded with type-aware matching, but this scan does not use --type-aware.');
+  }
+
+  const knownGroups = countOccurrenceKeys(baseline.groups);
+  const knownBlocks = countOccurrenceKeys(baseline.blocks);
+  const comparison: BaselineComparison = { duplicates: [], blocks: [], newGroups: 0, newOccurrences: 0 };
+
+  result.duplicates.forEach(duplicate => {
+    const keys = toBaselineOccurrences(duplicate, result.projectRoot, result.mode).map(getOccurrenceKey);
+    const known = keys.map(key => takeKnownOccurrence(knownGroups, key));
+    const knownCount = known.filter(Boolean).length;
+
+    if (knownCount === keys.length) {
+      return;
+    }
+
+    // A group with fewer than two known occurrences was not a duplicate before
+    const isNewGroup = knownCount < 2;
+    if (isNewGroup) {
+      comparison.newGroups++;
+    } else {
+      comparison.newOccurrences += keys.length - knownCount;
+    }
+
+    comparison.duplicates.push({
+      ...duplicate,
+      baselineStatus: isNewGroup ? 'new-group' : 'new-occurrences',
+      occurrences: duplicate.occurrences.map((occurrence, index) => ({ ...occurrence, isNew: !known[index] }))
+    });
+  });
+
+  result.blocks.forEach(block => {
+    const keys = toBaselineBlockOccurrences(block, result.projectRoot).map(getOccurrenceKey);
+    const known = keys.map(key => takeKnownOccurrence(knownBlocks, key));
+
+    if (known.some(isKnown => !isKnown)) {
+      comparison.blocks.push(block);
+      comparison.newGroups++;
+    }
+  });
+
+  return comparison;
+}
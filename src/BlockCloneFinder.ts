@@ -0,0 +1,303 @@
+/**
+ * BlockCloneFinder
+ *
+ * Finds runs of identical statements that appear in more than one place, even when the
+ * functions around them are otherwise different. Every statement list (function bodies,
+ * blocks, case clauses and top-level code) is cut into windows of consecutive statements,
+ * matching windows are indexed by hash and paired with the first copy, and adjacent
+ * matches are merged into the longest run shared by both sides. The statements are
+ * collected while files are parsed for their functions, so files are parsed once.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import * as ts from 'typescript';
+import { forEachToken } from './StructuralNormalizer';
+
+// Defaults for the minimum size of a reported block
+export const DEFAULT_MIN_BLOCK_STATEMENTS = 5;
+export const DEFAULT_MIN_BLOCK_LINES = 5;
+
+/**
+ * Location of one side of a duplicated block
+ */
+export interface BlockLocation {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  // Number of tokens in the block's statements
+  tokenCount: number;
+  // Source text of the block, when available
+  content?: string;
+}
+
+/**
+ * A block of statements duplicated in two places
+ */
+export interface DuplicateBlock {
+  statementCount: number;
+  occurrences: [BlockLocation, BlockLocation];
+}
+
+/**
+ * Options for block clone detection
+ */
+export interface BlockCloneOptions {
+  minStatements: number;
+  minLines: number;
+}
+
+/**
+ * A list of consecutive statements in a file
+ */
+export interface StatementSequence {
+  filePath: string;
+  // Hash of each statement's tokens
+  hashes: string[];
+  startLines: number[];
+  endLines: number[];
+  tokenCounts: number[];
+}
+
+/**
+ * A window of statements at a position within a sequence
+ */
+interface WindowPosition {
+  sequence: number;
+  index: number;
+}
+
+/**
+ * Hashes a string with SHA-256
+ * @param text - The text to hash
+ * @returns The hash as a hex string
+ */
+function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Collects every statement list in a parsed file that is long enough to hold a block
+ * @param filePath - Path to the file, recorded in the sequences
+ * @param sourceFile - The parsed file (of the scripts alone, for components)
+ * @param minStatements - Minimum number of statements in a block
+ * @returns Array of statement sequences
+ */
+export function extractStatementSequences(filePath: string, sourceFile: ts.SourceFile, minStatements: number): StatementSequence[] {
+  const sequences: StatementSequence[] = [];
+
+  const getLine = (pos: number): number => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+
+  const addSequence = (statements: ts.NodeArray<ts.Statement>) => {
+    if (statements.length < minStatements) {
+      return;
+    }
+
+    const sequence: StatementSequence = { filePath, hashes: [], startLines: [], endLines: [], tokenCounts: [] };
+
+    statements.forEach(statement => {
+      const tokens: string[] = [];
+      forEachToken(statement, sourceFile, (_, text) => tokens.push(text));
+
+      sequence.hashes.push(hashText(tokens.join(' ')));
+      sequence.startLines.push(getLine(statement.getStart(sourceFile)));
+      sequence.endLines.push(getLine(statement.getEnd()));
+      sequence.tokenCounts.push(tokens.length);
+    });
+
+    sequences.push(sequence);
+  };
+
+  function visit(node: ts.Node) {
+    if (ts.isSourceFile(node) || ts.isBlock(node) || ts.isModuleBlock(node) || ts.isCaseClause(node) || ts.isDefaultClause(node)) {
+      addSequence(node.statements);
+    }
+
+    ts.forEachChild(node, visit);
+  }
+
+  visit(sourceFile);
+
+  return sequences;
+}
+
+/**
+ * Checks if the second range of lines lies within the first
+ * @param outer - The enclosing location
+ * @param inner - The location that may be enclosed
+ * @returns true if inner is inside outer
+ */
+function containsLocation(outer: BlockLocation, inner: BlockLocation): boolean {
+  return outer.filePath === inner.filePath && outer.startLine <= inner.startLine && outer.endLine >= inner.endLine;
+}
+
+/**
+ * Checks if both sides of a block lie within the sides of another
+ * @param outer - The enclosing block
+ * @param inner - The block that may be enclosed
+ * @returns true if inner is inside outer
+ */
+function containsBlock(outer: DuplicateBlock, inner: DuplicateBlock): boolean {
+  return containsLocation(outer.occurrences[0], inner.occurrences[0]) && containsLocation(outer.occurrences[1], inner.occurrences[1]);
+}
+
+/**
+ * Drops blocks found inside larger blocks, such as the body of a duplicated if statement.
+ * Blocks are swept in the order of their first side within each pair of files, so each is
+ * only compared with the blocks whose first side overlaps it.
+ * @param blocks - The blocks
+ * @returns The blocks that are not inside another, in their original order; of two blocks
+ * covering the same lines, the first is kept
+ */
+function removeContainedBlocks(blocks: DuplicateBlock[]): DuplicateBlock[] {
+  const dropped = new Set<number>();
+
+  const byFiles = new Map<string, number[]>();
+  blocks.forEach((block, index) => {
+    const key = `${block.occurrences[0].filePath}\0${block.occurrences[1].filePath}`;
+    if (!byFiles.has(key)) {
+      byFiles.set(key, []);
+    }
+    byFiles.get(key)!.push(index);
+  });
+
+  byFiles.forEach(indexes => {
+    const first = (index: number) => blocks[index].occurrences[0];
+    indexes.sort((a, b) => first(a).startLine - first(b).startLine || first(b).endLine - first(a).endLine || a - b);
+
+    // Blocks whose first side has not ended before the current one starts
+    let active: number[] = [];
+    indexes.forEach(index => {
+      const block = blocks[index];
+      active = active.filter(other => first(other).endLine >= first(index).startLine);
+
+      active.forEach(other => {
+        if (containsBlock(blocks[other], block) && (other < index || !containsBlock(block, blocks[other]))) {
+          dropped.add(index);
+        } else if (containsBlock(block, blocks[other])) {
+          dropped.add(other);
+        }
+      });
+      active.push(index);
+    });
+  });
+
+  return blocks.filter((_, index) => !dropped.has(index));
+}
+
+/**
+ * Finds duplicated statement blocks across files. Every later copy of a run of statements
+ * is paired with the first copy, so a block pasted in three places is reported twice.
+ * @param sequences - The statement lists of every file, in file order, as collected by
+ * extractStatementSequences with at most the minimum number of statements
+ * @param options - Minimum size of a reported block
+ * @returns Array of duplicated blocks, largest first
+ */
+export function findDuplicateBlocks(sequences: StatementSequence[], options: BlockCloneOptions): DuplicateBlock[] {
+  const windowSize = Math.max(1, options.minStatements);
+
+  // Index every window of consecutive statements by the hash of its statements
+  const windows = new Map<string, WindowPosition[]>();
+  sequences.forEach((sequence, sequenceIndex) => {
+    for (let index = 0; index <= sequence.hashes.length - windowSize; index++) {
+      const key = hashText(sequence.hashes.slice(index, index + windowSize).join(':'));
+
+      if (!windows.has(key)) {
+        windows.set(key, []);
+      }
+      windows.get(key)!.push({ sequence: sequenceIndex, index });
+    }
+  });
+
+  // Pair every window with the first copy of its statements. Pairs that share both
+  // sequences and the same offset between them belong to the same run, so they are
+  // collected together for merging.
+  const runs = new Map<string, { first: number; second: number; offset: number; indexes: number[] }>();
+  windows.forEach(positions => {
+    for (let j = 1; j < positions.length; j++) {
+      const second = positions[j];
+
+      // Skip overlapping windows within the same statement list
+      let first: WindowPosition | undefined;
+      for (let i = 0; i < j && !first; i++) {
+        if (positions[i].sequence !== second.sequence || second.index - positions[i].index >= windowSize) {
+          first = positions[i];
+        }
+      }
+      if (!first) {
+        continue;
+      }
+
+      const offset = second.index - first.index;
+      const key = `${first.sequence}:${second.sequence}:${offset}`;
+      if (!runs.has(key)) {
+        runs.set(key, { first: first.sequence, second: second.sequence, offset, indexes: [] });
+      }
+      runs.get(key)!.indexes.push(first.index);
+    }
+  });
+
+  const blocks: DuplicateBlock[] = [];
+
+  const addBlock = (first: number, second: number, offset: number, start: number, end: number) => {
+    const firstSequence = sequences[first];
+    const secondSequence = sequences[second];
+    const lastIndex = end + windowSize - 1;
+    // Both sides have the same statements, so the same tokens
+    const tokenCount = firstSequence.tokenCounts.slice(start, lastIndex + 1).reduce((total, count) => total + count, 0);
+
+    const occurrences: [BlockLocation, BlockLocation] = [
+      {
+        filePath: firstSequence.filePath,
+        startLine: firstSequence.startLines[start],
+        endLine: firstSequence.endLines[lastIndex],
+        tokenCount
+      },
+      {
+        filePath: secondSequence.filePath,
+        startLine: secondSequence.startLines[start + offset],
+        endLine: secondSequence.endLines[lastIndex + offset],
+        tokenCount
+      }
+    ];
+
+    const lineCount = Math.min(...occurrences.map(location => location.endLine - location.startLine + 1));
+    if (lineCount >= options.minLines) {
+      blocks.push({ statementCount: lastIndex - start + 1, occurrences });
+    }
+  };
+
+  // Merge consecutive matching windows into the longest shared run of statements
+  runs.forEach(({ first, second, offset, indexes }) => {
+    indexes.sort((a, b) => a - b);
+
+    let start = indexes[0];
+    let previous = indexes[0];
+    for (let i = 1; i < indexes.length; i++) {
+      if (indexes[i] !== previous + 1) {
+        addBlock(first, second, offset, start, previous);
+        start = indexes[i];
+      }
+      previous = indexes[i];
+    }
+    addBlock(first, second, offset, start, previous);
+  });
+
+  const reported = removeContainedBlocks(blocks);
+
+  // Sort blocks by size (largest first)
+  reported.sort((a, b) => b.statementCount - a.statementCount);
+
+  // Attach the source lines of each reported block
+  const fileLines = new Map<string, string[]>();
+  reported.forEach(block => {
+    block.occurrences.forEach(location => {
+      if (!fileLines.has(location.filePath)) {
+        fileLines.set(location.filePath, fs.readFileSync(location.filePath, 'utf-8').split(/\r?\n/));
+      }
+      location.content = fileLines.get(location.filePath)!.slice(location.startLine - 1, location.endLine).join('\n');
+    });
+  });
+
+  return reported;
+}
@@ -0,0 +1,254 @@
+/**
+ * ChangedFiles
+ *
+ * Reads the local git diff against a ref, so scans can report only the duplicates that
+ * touch code changed in a branch or pull request.
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { DuplicateBlock } from './BlockCloneFinder';
+import { DuplicateFunction } from './ReportModel';
+import { ScanResult } from './DuplicateScanner';
+
+const execFileAsync = promisify(execFile);
+
+// Largest git output read into memory
+const MAX_GIT_OUTPUT = 256 * 1024 * 1024;
+
+/**
+ * A range of changed lines (inclusive, 1-based)
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Changed lines per absolute file path. A file with an empty list of ranges was changed
+ * without adding lines (for example only deletions), while untracked files are marked
+ * as changed throughout.
+ */
+export type ChangedLines = Map<string, LineRange[] | 'all'>;
+
+/**
+ * Whether duplicates must touch changed lines, or just a changed file
+ */
+export type ChangedScope = 'lines' | 'files';
+
+/**
+ * Duplicates that touch changed code
+ */
+export interface ChangedCodeFilter {
+  // Groups with at least one occurrence in changed code
+  duplicates: DuplicateFunction[];
+  // Blocks with at least one side in changed code
+  blocks: DuplicateBlock[];
+  // Number of changed files known to git
+  changedFileCount: number;
+}
+
+// Escapes git uses in quoted paths, other than octal bytes
+const PATH_ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+
+/**
+ * Runs a git command in a directory. Non-ASCII paths are printed as they are rather than
+ * as quoted octal escapes.
+ * @param cwd - The working directory
+ * @param args - The git arguments
+ * @returns The standard output of the command
+ */
+async function runGit(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-c', 'core.quotePath=false', ...args], { cwd, maxBuffer: MAX_GIT_OUTPUT });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed: ${stderr || (error as Error).message}`);
+  }
+}
+
+/**
+ * Reads a path from a diff header, which git quotes like a C string when the path has
+ * control characters, quotes or backslashes in it
+ * @param text - The path as printed by git
+ * @returns The path
+ */
+function unquotePath(text: string): string {
+  if (!text.startsWith('"') || !text.endsWith('"')) {
+    return text;
+  }
+
+  // Octal escapes are bytes of the UTF-8 encoding, so the path is decoded as bytes
+  const bytes: number[] = [];
+  const body = text.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== '\\') {
+      bytes.push(...Buffer.from(body[i]));
+    } else if (/^[0-7]{3}$/.test(body.slice(i + 1, i + 4))) {
+      bytes.push(parseInt(body.slice(i + 1, i + 4), 8));
+      i += 3;
+    } else {
+      i++;
+      bytes.push(PATH_ESCAPES[body[i]] ?? body.charCodeAt(i));
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8');
+}
+
+/**
+ * Parses the output of `git diff --unified=0` into the lines added on the new side
+ * @param diff - The diff output
+ * @param toFilePath - Converts a path relative to the repository root to the absolute
+ * path the scan uses
+ * @param changedLines - Map to add the changed lines to
+ */
+function parseUnifiedDiff(diff: string, toFilePath: (gitPath: string) => string, changedLines: ChangedLines): void {
+  let currentRanges: LineRange[] | undefined;
+
+  diff.split('\n').forEach(line => {
+    if (line.startsWith('+++ ')) {
+      // Git ends the header with a tab when the path has spaces in it
+      const target = unquotePath(line.slice(4).replace(/\t$/, ''));
+
+      // Deleted files have no new side
+      if (target === '/dev/null') {
+        currentRanges = undefined;
+        return;
+      }
+
+      const filePath = toFilePath(target.replace(/^b\//, ''));
+      currentRanges = [];
+      changedLines.set(filePath, currentRanges);
+      return;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && currentRanges) {
+      const start = Number(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      if (count > 0) {
+        currentRanges.push({ start, end: start + count - 1 });
+      }
+    }
+  });
+}
+
+/**
+ * Gets the lines changed in the working tree since a git ref, including uncommitted and
+ * untracked files
+ * @param projectRoot - A directory inside the git repository
+ * @param ref - The git ref to compare against, such as "origin/main"
+ * @returns The changed lines per absolute file path
+ */
+export async function getChangedLines(projectRoot: string, ref: string): Promise<ChangedLines> {
+  const repositoryRoot = (await runGit(projectRoot, ['rev-parse', '--show-toplevel'])).trim();
+  const changedLines: ChangedLines = new Map();
+
+  // Git prints the real path of the repository, while the scan uses the project root as
+  // given, which may be reached through a symbolic link
+  const realRepositoryRoot = fs.realpathSync(repositoryRoot);
+  const realProjectRoot = fs.realpathSync(projectRoot);
+  const toFilePath = (gitPath: string): string =>
+    path.join(path.resolve(projectRoot), path.relative(realProjectRoot, path.join(realRepositoryRoot, gitPath)));
+
+  // Make sure the ref exists, so a typo is reported instead of silently matching nothing
+  try {
+    await runGit(repositoryRoot, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+  } catch {
+    throw new Error(`Git ref "${ref}" does not exist in ${repositoryRoot}.`);
+  }
+
+  const diff = await runGit(repositoryRoot, ['diff', '--unified=0', '--no-color', '--no-ext-diff', '--no-renames', ref, '--']);
+  parseUnifiedDiff(diff, toFilePath, changedLines);
+
+  const untracked = await runGit(repositoryRoot, ['ls-files', '-z', '--others', '--exclude-standard']);
+  untracked.split('\0').filter(Boolean).forEach(file => {
+    changedLines.set(toFilePath(file), 'all');
+  });
+
+  return changedLines;
+}
+
+/**
+ * Checks if a range of lines in a file touches the changes
+ * @param changedLines - The changed lines per file
+ * @param scope - Whether any change to the file counts, or only changed lines
+ * @param filePath - Absolute path of the file
+ * @param startLine - First line of the range
+ * @param endLine - Last line of the range
+ * @returns true if the range is in changed code
+ */
+export function isInChangedCode(
+  changedLines: ChangedLines,
+  scope: ChangedScope,
+  filePath: string,
+  startLine: number,
+  endLine: number
+): boolean {
+  const ranges = changedLines.get(path.resolve(filePath));
+
+  if (ranges === undefined) {
+    return false;
+  }
+  if (ranges === 'all' || scope === 'files') {
+    return true;
+  }
+
+  return ranges.some(range => range.start <= endLine && range.end >= startLine);
+}
+
+/**
+ * Gets the last line of a function occurrence from its source text, for occurrences that
+ * do not record their span
+ * @param lineNumber - First line of the occurrence
+ * @param content - Source text of the occurrence, when available
+ * @returns The last line of the occurrence
+ */
+function getEndLine(lineNumber: number, content?: string): number {
+  return content === undefined ? lineNumber : lineNumber + content.split('\n').length - 1;
+}
+
+/**
+ * Keeps only the duplicates that touch changed code. Every occurrence of a kept group is
+ * reported for context, with the ones in changed code marked as new, so reviewers can see
+ * which existing code a change copied.
+ * @param result - The scan result
+ * @param changedLines - The changed lines per file
+ * @param scope - Whether any change to a file counts, or only changed lines
+ * @returns The duplicates that touch changed code
+ */
+export function filterToChangedCode(result: ScanResult, changedLines: ChangedLines, scope: ChangedScope): ChangedCodeFilter {
+  const filter: ChangedCodeFilter = { duplicates: [], blocks: [], changedFileCount: changedLines.size };
+
+  result.duplicates.forEach(duplicate => {
+    const changed = duplicate.occurrences.map(occurrence => isInChangedCode(
+      changedLines,
+      scope,
+      occurrence.filePath,
+      occurrence.lineNumber,
+      occurrence.endLine ?? getEndLine(occurrence.lineNumber, occurrence.content)
+    ));
+
+    if (!changed.some(Boolean)) {
+      return;
+    }
+
+    filter.duplicates.push({
+      ...duplicate,
+      // Occurrences already known to a baseline stay known
+      occurrences: duplicate.occurrences.map((occurrence, index) => ({
+        ...occurrence,
+        isNew: changed[index] && occurrence.isNew !== false
+      }))
+    });
+  });
+
+  filter.blocks = result.blocks.filter(block => block.occurrences.some(location =>
+    isInChangedCode(changedLines, scope, location.filePath, location.startLine, location.endLine)
+  ));
+
+  return filter;
+}
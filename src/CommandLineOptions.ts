@@ -0,0 +1,379 @@
+/**
+ * CommandLineOptions
+ *
+ * Parses the command line arguments accepted by the Duplicate Detector.
+ */
+
+import { DetectionMode, DETECTION_MODES } from './ConvertToHash';
+import { DEFAULT_SIMILARITY_THRESHOLD } from './NearDuplicateFinder';
+import { DEFAULT_MIN_BLOCK_LINES, DEFAULT_MIN_BLOCK_STATEMENTS } from './BlockCloneFinder';
+import { ReportFormat, REPORT_FORMATS } from './ReportFormatter';
+import { ChangedScope } from './ChangedFiles';
+import { CollisionKey, COLLISION_KEYS } from './NameCollisionFinder';
+import { getDefaultJobCount } from './ParallelParser';
+import { FunctionKind, FUNCTION_KINDS, DEFAULT_EXTENSIONS } from './FunctionFinder';
+import { FunctionFilter } from './FunctionFilter';
+
+// Accepted values of --changed-scope
+const CHANGED_SCOPES: ChangedScope[] = ['lines', 'files'];
+
+/**
+ * Options parsed from the command line
+ */
+export interface CommandLineOptions {
+  projectRoot: string;
+  // tsconfig.json whose files are scanned instead of walking the directory
+  project?: string;
+  // Extensions of the files scanned when walking the directory
+  extensions?: string[];
+  // Reference library directories; only project functions that reimplement their
+  // functions are reported
+  references: string[];
+  mode: DetectionMode;
+  // Resolve identifiers to their declarations when matching functions
+  typeAware: boolean;
+  similarity: number;
+  blocks: boolean;
+  minBlockStatements: number;
+  minBlockLines: number;
+  // Also report same-named functions with different implementations
+  nameCollisions: boolean;
+  collisionKey: CollisionKey;
+  // Functions and groups left out of the results
+  filter: FunctionFilter;
+  formats: ReportFormat[];
+  // Include the source text of functions in JSON reports
+  includeSource: boolean;
+  // Baseline file to compare against, reporting only new duplicates
+  baseline?: string;
+  // Baseline file to record the current duplicates in
+  writeBaseline?: string;
+  // Git ref to compare against, reporting only duplicates that touch changed code
+  changedSince?: string;
+  changedScope: ChangedScope;
+  // Report only the duplicates copied between workspace packages
+  crossPackage: boolean;
+  // Count references to duplicates and recommend the copy to keep
+  usage: boolean;
+  // Also honor .gitignore files
+  gitignore: boolean;
+  // Reuse the functions of unchanged files from the cache
+  cache: boolean;
+  clearCache: boolean;
+  // Largest number of worker threads used to parse files
+  jobs: number;
+  // Keep watching the project after the initial scan
+  watch: boolean;
+  // 1-based id of the duplicate group to consolidate
+  fix?: number;
+  // 1-based position of the occurrence to keep when consolidating
+  keep?: number;
+  // Print the consolidation as a diff instead of writing it
+  dryRun: boolean;
+  createIgnore: boolean;
+  help: boolean;
+}
+
+/**
+ * Reads the value that follows an option, failing if it is missing
+ * @param args - The command line arguments
+ * @param index - Index of the option in the arguments
+ * @returns The value of the option
+ */
+function readOptionValue(args: string[], index: number): string {
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('-')) {
+    throw new Error(`Option ${args[index]} requires a value`);
+  }
+  return value;
+}
+
+/**
+ * Reads the value that follows an option as a positive integer
+ * @param args - The command line arguments
+ * @param index - Index of the option in the arguments
+ * @returns The integer value of the option
+ */
+function readIntegerOption(args: string[], index: number): number {
+  const value = readOptionValue(args, index);
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`Option ${args[index]} expects a positive integer, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Parses the command line arguments
+ * @param args - The command line arguments (without the node executable and script path)
+ * @returns The parsed options
+ */
+export function parseCommandLineArgs(args: string[]): CommandLineOptions {
+  const options: CommandLineOptions = {
+    projectRoot: '',
+    mode: 'exact',
+    typeAware: false,
+    similarity: DEFAULT_SIMILARITY_THRESHOLD,
+    blocks: false,
+    minBlockStatements: DEFAULT_MIN_BLOCK_STATEMENTS,
+    minBlockLines: DEFAULT_MIN_BLOCK_LINES,
+    nameCollisions: false,
+    collisionKey: 'name',
+    references: [],
+    filter: {},
+    formats: [],
+    includeSource: false,
+    changedScope: 'lines',
+    crossPackage: false,
+    usage: false,
+    gitignore: false,
+    cache: true,
+    clearCache: false,
+    jobs: getDefaultJobCount(),
+    watch: false,
+    dryRun: false,
+    createIgnore: false,
+    help: false
+  };
+
+  let modeGiven = false;
+  let similarityGiven = false;
+  let changedScopeGiven = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--create-ignore':
+      case '-ci':
+        options.createIgnore = true;
+        break;
+      case '--gitignore':
+        options.gitignore = true;
+        break;
+      case '--project':
+      case '-p':
+        options.project = readOptionValue(args, i++);
+        break;
+      case '--extensions':
+        readOptionValue(args, i++).split(',').forEach(value => {
+          const extension = (value.startsWith('.') ? value : `.${value}`).toLowerCase();
+          if (!DEFAULT_EXTENSIONS.includes(extension)) {
+            throw new Error(`Unsupported extension "${value}". Expected some of: ${DEFAULT_EXTENSIONS.join(', ')}`);
+          }
+          if (!options.extensions?.includes(extension)) {
+            options.extensions = [...(options.extensions ?? []), extension];
+          }
+        });
+        break;
+      case '--clear-cache':
+        options.clearCache = true;
+        break;
+      case '--no-cache':
+        options.cache = false;
+        break;
+      case '--usage':
+        options.usage = true;
+        break;
+      case '--watch':
+      case '-w':
+        options.watch = true;
+        break;
+      case '--jobs':
+      case '-j':
+        options.jobs = readIntegerOption(args, i++);
+        break;
+      case '--fix':
+        options.fix = readIntegerOption(args, i++);
+        break;
+      case '--keep':
+        options.keep = readIntegerOption(args, i++);
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      case '--mode':
+      case '-m': {
+        const mode = readOptionValue(args, i++);
+        if (!DETECTION_MODES.includes(mode as DetectionMode)) {
+          throw new Error(`Unknown mode "${mode}". Expected one of: ${DETECTION_MODES.join(', ')}`);
+        }
+        options.mode = mode as DetectionMode;
+        modeGiven = true;
+        break;
+      }
+      case '--type-aware':
+        options.typeAware = true;
+        break;
+      case '--similarity':
+      case '-s': {
+        const value = readOptionValue(args, i++);
+        const similarity = Number(value);
+        if (Number.isNaN(similarity) || similarity <= 0 || similarity > 1) {
+          throw new Error(`Invalid similarity "${value}". Expected a number between 0 and 1, e.g. 0.85`);
+        }
+        options.similarity = similarity;
+        similarityGiven = true;
+        break;
+      }
+      case '--blocks':
+      case '-b':
+        options.blocks = true;
+        break;
+      case '--min-block-statements':
+        options.minBlockStatements = readIntegerOption(args, i++);
+        options.blocks = true;
+        break;
+      case '--min-block-lines':
+        options.minBlockLines = readIntegerOption(args, i++);
+        options.blocks = true;
+        break;
+      case '--name-collisions':
+        options.nameCollisions = true;
+        break;
+      case '--collision-key': {
+        const key = readOptionValue(args, i++);
+        if (!COLLISION_KEYS.includes(key as CollisionKey)) {
+          throw new Error(`Unknown collision key "${key}". Expected one of: ${COLLISION_KEYS.join(', ')}`);
+        }
+        options.collisionKey = key as CollisionKey;
+        options.nameCollisions = true;
+        break;
+      }
+      case '--min-lines':
+        options.filter.minLines = readIntegerOption(args, i++);
+        break;
+      case '--min-tokens':
+        options.filter.minTokens = readIntegerOption(args, i++);
+        break;
+      case '--min-statements':
+        options.filter.minStatements = readIntegerOption(args, i++);
+        break;
+      case '--min-occurrences':
+        options.filter.minOccurrences = readIntegerOption(args, i++);
+        break;
+      case '--exclude-kind':
+        readOptionValue(args, i++).split(',').forEach(kind => {
+          if (!FUNCTION_KINDS.includes(kind as FunctionKind)) {
+            throw new Error(`Unknown function kind "${kind}". Expected one of: ${FUNCTION_KINDS.join(', ')}`);
+          }
+          options.filter.excludeKinds = [...(options.filter.excludeKinds ?? []), kind as FunctionKind];
+        });
+        break;
+      case '--baseline':
+        options.baseline = readOptionValue(args, i++);
+        break;
+      case '--write-baseline':
+        options.writeBaseline = readOptionValue(args, i++);
+        break;
+      case '--changed-since':
+        options.changedSince = readOptionValue(args, i++);
+        break;
+      case '--changed-scope': {
+        const scope = readOptionValue(args, i++);
+        if (!CHANGED_SCOPES.includes(scope as ChangedScope)) {
+          throw new Error(`Unknown changed scope "${scope}". Expected one of: ${CHANGED_SCOPES.join(', ')}`);
+        }
+        options.changedScope = scope as ChangedScope;
+        changedScopeGiven = true;
+        break;
+      }
+      case '--reference':
+      case '-r':
+        options.references.push(readOptionValue(args, i++));
+        break;
+      case '--cross-package':
+        options.crossPackage = true;
+        break;
+      case '--format':
+      case '-f':
+        readOptionValue(args, i++).split(',').forEach(format => {
+          if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+            throw new Error(`Unknown format "${format}". Expected one of: ${REPORT_FORMATS.join(', ')}`);
+          }
+          if (!options.formats.includes(format as ReportFormat)) {
+            options.formats.push(format as ReportFormat);
+          }
+        });
+        break;
+      case '--include-source':
+        options.includeSource = true;
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new Error(`Unknown option "${arg}"`);
+        }
+        // "consolidate <group-id>" is the same as --fix <group-id>
+        if (arg === 'consolidate' && !options.projectRoot && options.fix === undefined) {
+          options.fix = readIntegerOption(args, i++);
+          break;
+        }
+        // The first positional argument is the project directory
+        if (!options.projectRoot) {
+          options.projectRoot = arg;
+        }
+    }
+  }
+
+  if (!options.projectRoot) {
+    options.projectRoot = process.cwd();
+  }
+
+  if (options.formats.length === 0) {
+    options.formats.push('markdown');
+  }
+
+  // A similarity threshold only makes sense for near-duplicate detection
+  if (similarityGiven) {
+    if (!modeGiven) {
+      options.mode = 'near';
+    } else if (options.mode !== 'near') {
+      throw new Error('Option --similarity can only be used with --mode near');
+    }
+  }
+
+  // Near mode compares token streams, not what their identifiers refer to
+  if (options.typeAware && options.mode === 'near') {
+    throw new Error('Option --type-aware can only be used with --mode exact or structural');
+  }
+
+  if (options.includeSource && !options.formats.includes('json')) {
+    throw new Error('Option --include-source can only be used with --format json');
+  }
+
+  if (changedScopeGiven && !options.changedSince) {
+    throw new Error('Option --changed-scope can only be used with --changed-since');
+  }
+
+  // A TypeScript project lists its own files, whatever their extensions
+  if (options.project && options.extensions) {
+    throw new Error('Option --extensions cannot be used with --project');
+  }
+
+  if ((options.keep !== undefined || options.dryRun) && options.fix === undefined) {
+    throw new Error('Options --keep and --dry-run can only be used with --fix');
+  }
+  if (options.fix !== undefined && options.watch) {
+    throw new Error('Option --fix cannot be used with --watch');
+  }
+  if (options.typeAware && options.watch) {
+    throw new Error('Option --type-aware cannot be used with --watch');
+  }
+  // Reference libraries are not part of the project's program
+  if (options.typeAware && options.references.length > 0) {
+    throw new Error('Option --type-aware cannot be used with --reference');
+  }
+  if (options.references.length > 0 && (options.fix !== undefined || options.watch)) {
+    throw new Error('Option --reference cannot be used with --fix or --watch');
+  }
+  // Baselines record project duplicates, which reference matches replace in the report
+  if (options.references.length > 0 && (options.baseline || options.writeBaseline)) {
+    throw new Error('Options --baseline and --write-baseline cannot be used with --reference');
+  }
+
+  return options;
+}
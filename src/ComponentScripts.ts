@@ -0,0 +1,146 @@
+/**
+ * ComponentScripts
+ *
+ * Reads the scripts of single-file components: the <script> blocks of Vue and Svelte
+ * components (including <script setup> and <script context="module">), and the frontmatter
+ * and <script> blocks of Astro components. Everything else in the file is blanked out with
+ * spaces, keeping every line break, so the scripts parse as one module whose line and
+ * column numbers are those of the component file.
+ */
+
+import path from 'path';
+import * as ts from 'typescript';
+
+// Extensions of the single-file components whose scripts are scanned
+export const COMPONENT_EXTENSIONS = ['.vue', '.svelte', '.astro'];
+
+// Script types that hold code rather than data or templates
+const SCRIPT_TYPES = new Set(['', 'module', 'text/javascript', 'application/javascript', 'text/typescript', 'application/typescript']);
+
+/**
+ * A script found in a component
+ */
+interface ScriptBlock {
+  // Positions of the first character of the code and just past the last
+  start: number;
+  end: number;
+  // Language of the script: js, ts, jsx or tsx
+  lang: string;
+}
+
+/**
+ * Checks if a file is a single-file component
+ * @param filePath - Path to the file
+ * @returns true if the file is a Vue, Svelte or Astro component
+ */
+export function isComponentFile(filePath: string): boolean {
+  return COMPONENT_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Reads the value of an attribute from the attributes of a tag
+ * @param attributes - The source text of the attributes
+ * @param name - The name of the attribute
+ * @returns The value, an empty string for an attribute without one, or undefined if the
+ * attribute is missing
+ */
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}(?:\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+)))?(?=\\s|$)`, 'i'));
+  if (!match) {
+    return undefined;
+  }
+  return match[1] ?? match[2] ?? match[3] ?? '';
+}
+
+/**
+ * Finds the scripts of a component
+ * @param filePath - Path to the component
+ * @param content - Source text of the component
+ * @returns The scripts, in file order
+ */
+function findScriptBlocks(filePath: string, content: string): ScriptBlock[] {
+  const blocks: ScriptBlock[] = [];
+  const isAstro = path.extname(filePath).toLowerCase() === '.astro';
+
+  // Astro frontmatter is TypeScript between --- fences at the top of the file
+  if (isAstro) {
+    const frontmatter = content.match(/^(\s*---[^\S\r\n]*\r?\n)([\s\S]*?)\r?\n---/);
+    if (frontmatter) {
+      const start = frontmatter[1].length;
+      blocks.push({ start, end: start + frontmatter[2].length, lang: 'ts' });
+    }
+  }
+
+  // Client scripts of Astro components follow the frontmatter
+  const scriptPattern = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+  scriptPattern.lastIndex = blocks.length > 0 ? blocks[0].end : 0;
+  let match: RegExpExecArray | null;
+  while ((match = scriptPattern.exec(content)) !== null) {
+    const attributes = match[1];
+    const type = (getAttribute(attributes, 'type') ?? '').toLowerCase();
+
+    // External scripts have no code here, and other types hold data or templates
+    if (getAttribute(attributes, 'src') !== undefined || !SCRIPT_TYPES.has(type)) {
+      continue;
+    }
+
+    const start = match.index + match[0].indexOf('>') + 1;
+    const lang = (getAttribute(attributes, 'lang') ?? (isAstro || type.endsWith('typescript') ? 'ts' : 'js')).toLowerCase();
+    blocks.push({ start, end: start + match[2].length, lang });
+  }
+
+  return blocks;
+}
+
+/**
+ * Gets the script kind a component's scripts are parsed as
+ * @param blocks - The scripts of the component
+ * @returns TSX or JSX if any script uses JSX, otherwise TS or JS
+ */
+function getScriptKind(blocks: ScriptBlock[]): ts.ScriptKind {
+  const langs = new Set(blocks.map(block => block.lang));
+  if (langs.has('tsx') || (langs.has('jsx') && langs.has('ts'))) {
+    return ts.ScriptKind.TSX;
+  }
+  if (langs.has('jsx')) {
+    return ts.ScriptKind.JSX;
+  }
+  return langs.has('ts') ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+}
+
+/**
+ * Gets the scripts of a component as one module, with everything else blanked out
+ * @param filePath - Path to the component
+ * @param content - Source text of the component
+ * @returns The script text, as long as the content and with the same line breaks, and the
+ * kind of script to parse it as
+ */
+export function getComponentScripts(filePath: string, content: string): { text: string; scriptKind: ts.ScriptKind } {
+  const blocks = findScriptBlocks(filePath, content);
+  const blank = (text: string) => text.replace(/[^\r\n]/g, ' ');
+
+  let text = '';
+  let position = 0;
+  blocks.forEach(block => {
+    text += blank(content.slice(position, block.start)) + content.slice(block.start, block.end);
+    position = block.end;
+  });
+  text += blank(content.slice(position));
+
+  return { text, scriptKind: getScriptKind(blocks) };
+}
+
+/**
+ * Parses a TypeScript or JavaScript file, or the scripts of a component
+ * @param filePath - Path to the file
+ * @param content - Source text of the file
+ * @returns The parsed file, with parent pointers set
+ */
+export function createScriptSourceFile(filePath: string, content: string): ts.SourceFile {
+  if (!isComponentFile(filePath)) {
+    return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+  }
+
+  const { text, scriptKind } = getComponentScripts(filePath, content);
+  return ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true, scriptKind);
+}
@@ -1,5 +1,16 @@
 import crypto from 'crypto';
-import { FunctionInfo } from './FunctionFinder';
+import { FunctionDetails, FunctionInfo, getFunctionDetails } from './FunctionFinder';
+import { normalizeFunctionStructure } from './StructuralNormalizer';
+
+/**
+ * How functions are compared:
+ * - exact: identical text once comments and whitespace are removed
+ * - structural: identical AST once parameters and locals are renamed consistently
+ * - near: similar token streams above a threshold (see NearDuplicateFinder)
+ */
+export type DetectionMode = 'exact' | 'structural' | 'near';
+
+export const DETECTION_MODES: DetectionMode[] = ['exact', 'structural', 'near'];
 
 /**
  * Normalizes a function signature by removing formatting and comments
@@ -35,6 +46,9 @@ export const hashGroups = new Map<string, Array<{
   lineNumber: number;
   name: string;
   path: string;
+  mode: DetectionMode;
+  content: string;
+  details: FunctionDetails;
 }>>();
 
 /**
@@ -43,27 +57,77 @@ export const hashGroups = new Map<string, Array<{
  * @param lineNumber - The line number where the function appears
  * @param name - The name of the function
  * @param path - The file path where the function is located
+ * @param mode - The detection mode used to compute the hash
+ * @param content - The source text of the function
+ * @param details - The qualified name, span and kind of the function
  */
-function addFunctionToHashGroup(functionHash: string, lineNumber: number, name: string, path: string): void {
+function addFunctionToHashGroup(
+  functionHash: string,
+  lineNumber: number,
+  name: string,
+  path: string,
+  mode: DetectionMode,
+  content: string,
+  details: FunctionDetails
+): void {
   if (!hashGroups.has(functionHash)) {
     hashGroups.set(functionHash, []);
   }
-  hashGroups.get(functionHash)!.push({ lineNumber, name, path });
+  hashGroups.get(functionHash)!.push({ lineNumber, name, path, mode, content, details });
 }
 
 /**
- * Processes a function and adds it to the appropriate hash group
- * @param func - The function information extracted by FunctionFinder
+ * Computes the hash of a function's content as used for grouping
+ * @param content - The source text of the function
+ * @param mode - The detection mode (structural hashes the structural form, other modes the normalized text)
+ * @returns The SHA-256 hash of the normalized function
  */
-export function processFunctionForHashing(func: FunctionInfo): void {
+export function getFunctionHash(content: string, mode: DetectionMode = 'exact'): string {
   // Normalize the function content
-  const normalizedSignature = normalizeFunctionSignature(func.content);
+  const normalizedSignature = mode === 'structural'
+    ? normalizeFunctionStructure(content)
+    : normalizeFunctionSignature(content);
 
   // Convert to hash
-  const functionHash = convertSignatureToHash(normalizedSignature);
+  return convertSignatureToHash(normalizedSignature);
+}
 
+/**
+ * Processes a function and adds it to the appropriate hash group
+ * @param func - The function information extracted by FunctionFinder
+ * @param mode - The detection mode (defaults to exact)
+ * @param functionHash - The hash of the function, when already known (computed otherwise)
+ */
+export function processFunctionForHashing(
+  func: FunctionInfo,
+  mode: DetectionMode = 'exact',
+  functionHash: string = getFunctionHash(func.content, mode)
+): void {
   // Add to hash group
-  addFunctionToHashGroup(functionHash, func.lineNumber, func.name, func.filePath);
+  addFunctionToHashGroup(
+    functionHash,
+    func.lineNumber,
+    func.name,
+    func.filePath,
+    mode,
+    func.content,
+    getFunctionDetails(func)
+  );
+}
+
+/**
+ * Removes every function of a file from the hash groups, dropping groups that become empty
+ * @param filePath - The file path the functions were hashed with
+ */
+export function removeFileFromHashGroups(filePath: string): void {
+  hashGroups.forEach((functions, functionHash) => {
+    const remaining = functions.filter(func => func.path !== filePath);
+    if (remaining.length === 0) {
+      hashGroups.delete(functionHash);
+    } else if (remaining.length !== functions.length) {
+      hashGroups.set(functionHash, remaining);
+    }
+  });
 }
 
 /**
@@ -79,27 +143,37 @@ export function clearHashGroups(): void {
  */
 export function getDuplicateHashGroups(): Array<{
   name: string;
-  occurrences: Array<{
+  mode: DetectionMode;
+  hash: string;
+  occurrences: Array<FunctionDetails & {
     filePath: string;
     lineNumber: number;
+    content: string;
   }>;
 }> {
   const duplicates: Array<{
     name: string;
-    occurrences: Array<{
+    mode: DetectionMode;
+    hash: string;
+    occurrences: Array<FunctionDetails & {
       filePath: string;
       lineNumber: number;
+      content: string;
     }>;
   }> = [];
 
-  hashGroups.forEach((functions) => {
+  hashGroups.forEach((functions, functionHash) => {
     if (functions.length > 1) {
       // Use the name from the first occurrence
       duplicates.push({
         name: functions[0].name,
+        mode: functions[0].mode,
+        hash: functionHash,
         occurrences: functions.map((func) => ({
           filePath: func.path,
-          lineNumber: func.lineNumber
+          lineNumber: func.lineNumber,
+          content: func.content,
+          ...func.details
         }))
       });
     }
@@ -0,0 +1,638 @@
+/**
+ * DuplicateConsolidator
+ *
+ * Removes the copies of a duplicate group using the TypeScript compiler API. One copy is
+ * kept where it is (and exported if it was not), the other copies are deleted, and every
+ * file that lost a copy imports the kept one instead. A group is only consolidated when
+ * that is safe: every copy must be a top-level function, the copies that are removed must
+ * not depend on local closures or on symbols of their own module, which the kept copy
+ * would not see, and they must use the same property names as the kept copy.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as ts from 'typescript';
+import { DuplicateFunction, DuplicateOccurrence } from './ReportModel';
+import { isPropertyName, isShorthandKey } from './StructuralNormalizer';
+import { diffLines, formatUnifiedDiff } from './TextDiff';
+import { isComponentFile } from './ComponentScripts';
+
+/**
+ * A change to the content of one file
+ */
+export interface FileChange {
+  filePath: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * The changes that consolidate a duplicate group
+ */
+export interface ConsolidationPlan {
+  group: DuplicateFunction;
+  // The copy that is kept
+  canonical: DuplicateOccurrence;
+  // The copies that are removed
+  removed: DuplicateOccurrence[];
+  changes: FileChange[];
+}
+
+/**
+ * A text replacement within a file
+ */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A copy of the group located in its parsed file
+ */
+interface LocatedCopy {
+  occurrence: DuplicateOccurrence;
+  sourceFile: ts.SourceFile;
+  // The top-level statement declaring the function, if it is declared at the top level
+  statement?: ts.FunctionDeclaration | ts.VariableStatement;
+  // The function-like node, or the declaration holding it
+  node: ts.Node;
+  name: string;
+}
+
+/**
+ * Describes the location of an occurrence for messages
+ * @param occurrence - The occurrence
+ * @param projectRoot - The root directory of the project
+ * @returns Location such as "src/a.ts:10"
+ */
+function describeOccurrence(occurrence: DuplicateOccurrence, projectRoot: string): string {
+  return `${path.relative(projectRoot, occurrence.filePath)}:${occurrence.lineNumber}`;
+}
+
+/**
+ * Gets the 1-based line a node starts on
+ * @param node - The node
+ * @param sourceFile - The source file containing the node
+ * @returns The line number
+ */
+function getStartLine(node: ts.Node, sourceFile: ts.SourceFile): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
+
+/**
+ * Checks if a node declares a function that FunctionFinder reports
+ * @param node - The node to check
+ * @returns true if the node is a function, method, accessor, constructor or a declaration
+ * whose value is a function
+ */
+function isFunctionDeclarationNode(node: ts.Node): boolean {
+  if (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) {
+    return true;
+  }
+
+  const value = ts.isVariableDeclaration(node) || ts.isPropertyDeclaration(node) || ts.isPropertyAssignment(node)
+    ? node.initializer
+    : undefined;
+  return !!value && (ts.isArrowFunction(value) || ts.isFunctionExpression(value));
+}
+
+/**
+ * Finds the copy of a group in its parsed file
+ * @param occurrence - The occurrence of the group
+ * @param sourceFile - The parsed file of the occurrence
+ * @returns The located copy, or undefined if no function starts on the occurrence's line
+ */
+function locateCopy(occurrence: DuplicateOccurrence, sourceFile: ts.SourceFile): LocatedCopy | undefined {
+  for (const statement of sourceFile.statements) {
+    if (getStartLine(statement, sourceFile) !== occurrence.lineNumber) {
+      continue;
+    }
+
+    if (ts.isFunctionDeclaration(statement) && statement.body) {
+      return { occurrence, sourceFile, statement, node: statement, name: statement.name?.text ?? 'default' };
+    }
+
+    if (ts.isVariableStatement(statement) && statement.declarationList.declarations.length === 1) {
+      const declaration = statement.declarationList.declarations[0];
+      if (ts.isIdentifier(declaration.name) && isFunctionDeclarationNode(declaration)) {
+        return { occurrence, sourceFile, statement, node: declaration, name: declaration.name.text };
+      }
+    }
+  }
+
+  // Functions that are not top-level statements are found so their dependencies can be reported
+  let found: ts.Node | undefined;
+  const visit = (node: ts.Node): void => {
+    if (found) {
+      return;
+    }
+    if (isFunctionDeclarationNode(node) && getStartLine(node, sourceFile) === occurrence.lineNumber) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  if (!found) {
+    return undefined;
+  }
+
+  const name = (found as ts.NamedDeclaration).name;
+  return { occurrence, sourceFile, node: found, name: name ? name.getText(sourceFile) : 'constructor' };
+}
+
+/**
+ * Checks if a node lies within another node
+ * @param node - The inner node
+ * @param container - The outer node
+ * @returns true if the node is the container or inside it
+ */
+function isWithin(node: ts.Node, container: ts.Node): boolean {
+  return node.getSourceFile() === container.getSourceFile() &&
+    node.pos >= container.pos && node.end <= container.end;
+}
+
+/**
+ * Checks if a declaration belongs to a function or class scope rather than a module
+ * @param declaration - The declaration
+ * @returns true if the declaration is local to a function, method or class
+ */
+function isLocalDeclaration(declaration: ts.Declaration): boolean {
+  for (let node = declaration.parent; node && !ts.isSourceFile(node); node = node.parent) {
+    if (ts.isFunctionLike(node) || ts.isClassLike(node)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks if a module-level declaration is exported from its module
+ * @param declaration - The declaration
+ * @returns true if the declaration has the export modifier or is named in an export list
+ */
+function isExportedDeclaration(declaration: ts.Declaration): boolean {
+  if ((ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Export) !== 0) {
+    return true;
+  }
+
+  const name = ts.getNameOfDeclaration(declaration);
+  if (!name || !ts.isIdentifier(name)) {
+    return false;
+  }
+
+  return declaration.getSourceFile().statements.some(statement =>
+    ts.isExportDeclaration(statement) && !statement.moduleSpecifier &&
+    !!statement.exportClause && ts.isNamedExports(statement.exportClause) &&
+    statement.exportClause.elements.some(element => (element.propertyName ?? element.name).getText() === name.text));
+}
+
+/**
+ * Collects the symbols a copy refers to that are declared outside of it, resolving imports
+ * to the symbols they import
+ * @param copy - The located copy
+ * @param checker - The type checker
+ * @returns Map of each referenced name to its resolved symbol and original declaration symbol
+ */
+function collectOuterReferences(
+  copy: LocatedCopy,
+  checker: ts.TypeChecker
+): Map<string, { resolved: ts.Symbol; symbol: ts.Symbol }> {
+  const references = new Map<string, { resolved: ts.Symbol; symbol: ts.Symbol }>();
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isIdentifier(node) && !isPropertyName(node)) {
+      const symbol = ts.isShorthandPropertyAssignment(node.parent) && node.parent.name === node
+        ? checker.getShorthandAssignmentValueSymbol(node.parent)
+        : checker.getSymbolAtLocation(node);
+      const declarations = symbol?.declarations ?? [];
+
+      if (symbol && declarations.length > 0 && !declarations.some(declaration => isWithin(declaration, copy.node))) {
+        const resolved = symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+        references.set(node.text, { resolved, symbol });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(copy.node);
+
+  return references;
+}
+
+/**
+ * Explains why a copy cannot be replaced by the kept copy, if it cannot
+ * @param copy - The copy to remove
+ * @param references - The outer references of the copy
+ * @param canonicalReferences - The outer references of the kept copy
+ * @param projectRoot - The root directory of the project
+ * @returns The problems found
+ */
+function findDependencyProblems(
+  copy: LocatedCopy,
+  references: Map<string, { resolved: ts.Symbol; symbol: ts.Symbol }>,
+  canonicalReferences: Map<string, { resolved: ts.Symbol; symbol: ts.Symbol }> | undefined,
+  projectRoot: string
+): string[] {
+  const problems: string[] = [];
+  const location = describeOccurrence(copy.occurrence, projectRoot);
+
+  references.forEach(({ resolved, symbol }, name) => {
+    const declaration = symbol.declarations![0];
+
+    if (isLocalDeclaration(declaration)) {
+      problems.push(`${copy.name} at ${location} depends on the local closure variable '${name}'`);
+    } else if (canonicalReferences && canonicalReferences.get(name)?.resolved !== resolved) {
+      const isImport = (symbol.flags & ts.SymbolFlags.Alias) !== 0;
+      problems.push(!isImport && !isExportedDeclaration(declaration)
+        ? `${copy.name} at ${location} depends on the non-exported symbol '${name}'`
+        : `${copy.name} at ${location} uses a different '${name}' than the copy being kept`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Collects the property names a copy uses, such as the keys of the objects it builds and
+ * reads. Structural matching ignores the names of locals, and a shorthand property names a
+ * key after a local, so copies that match can still differ in their keys.
+ * @param copy - The located copy
+ * @returns The property names in source order, leaving out the copy's own name
+ */
+function collectPropertyNames(copy: LocatedCopy): string[] {
+  const ownName = (copy.node as ts.NamedDeclaration).name;
+  const names: string[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isIdentifier(node) && node !== ownName && (isPropertyName(node) || isShorthandKey(node))) {
+      names.push(node.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(copy.node);
+
+  return names;
+}
+
+/**
+ * Explains why a copy uses other property names than the kept copy, if it does
+ * @param copy - The copy to remove
+ * @param canonical - The kept copy
+ * @param projectRoot - The root directory of the project
+ * @returns The problem found, or undefined if the property names match
+ */
+function findPropertyNameProblem(copy: LocatedCopy, canonical: LocatedCopy, projectRoot: string): string | undefined {
+  const names = collectPropertyNames(copy);
+  const canonicalNames = collectPropertyNames(canonical);
+  const index = names.findIndex((name, position) => name !== canonicalNames[position]);
+
+  if (index === -1 && names.length === canonicalNames.length) {
+    return undefined;
+  }
+
+  const location = describeOccurrence(copy.occurrence, projectRoot);
+  if (index === -1 || index >= canonicalNames.length) {
+    return `${copy.name} at ${location} uses other property names than the copy being kept`;
+  }
+  return `${copy.name} at ${location} uses the property '${names[index]}' where the copy being kept uses '${canonicalNames[index]}'`;
+}
+
+/**
+ * Checks if a file is a CommonJS module, which `export` and `import` cannot be added to
+ * @param sourceFile - The parsed file
+ * @returns true if the file uses require or module.exports and no ES module syntax
+ */
+function isCommonJsFile(sourceFile: ts.SourceFile): boolean {
+  const hasModuleSyntax = sourceFile.statements.some(statement =>
+    ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement) || ts.isExportAssignment(statement) ||
+    (ts.canHaveModifiers(statement) && !!ts.getModifiers(statement)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)));
+  return !hasModuleSyntax && /\brequire\s*\(|\bmodule\.exports\b|\bexports\.\w/.test(sourceFile.text);
+}
+
+/**
+ * Gets the module specifier that imports one file from another
+ * @param fromFile - The importing file
+ * @param toFile - The imported file
+ * @param sourceFile - The parsed importing file, whose existing imports decide whether an
+ * extension is written
+ * @returns The relative module specifier
+ */
+function getModuleSpecifier(fromFile: string, toFile: string, sourceFile: ts.SourceFile): string {
+  let specifier = path.relative(path.dirname(fromFile), toFile).replace(/\\/g, '/');
+  specifier = specifier.replace(/\.(tsx?|jsx?)$/, '');
+
+  // Projects that write extensions in relative imports (as Node's ES modules require) get one too
+  const usesExtensions = sourceFile.statements.some(statement =>
+    ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier) &&
+    /^\.\.?\/.*\.[cm]?js$/.test(statement.moduleSpecifier.text));
+  if (usesExtensions) {
+    specifier += '.js';
+  }
+
+  return specifier.startsWith('.') ? specifier : `./${specifier}`;
+}
+
+/**
+ * Gets the range of a statement including the comments directly above it and the rest of
+ * its last line, plus one of the blank lines around it when it sits between two
+ * @param statement - The statement
+ * @param sourceFile - The parsed file
+ * @returns The start and end positions
+ */
+function getStatementRange(statement: ts.Statement, sourceFile: ts.SourceFile): { start: number; end: number } {
+  const text = sourceFile.text;
+  let start = statement.getStart(sourceFile);
+
+  // Comments separated from the statement by a blank line belong to the code above
+  const comments = ts.getLeadingCommentRanges(text, statement.getFullStart()) ?? [];
+  for (let index = comments.length - 1; index >= 0; index--) {
+    if (/\n\s*\n/.test(text.slice(comments[index].end, start))) {
+      break;
+    }
+    start = comments[index].pos;
+  }
+  start = text.lastIndexOf('\n', start - 1) + 1;
+
+  let end = statement.getEnd();
+  const lineEnd = text.indexOf('\n', end);
+  end = lineEnd === -1 ? text.length : lineEnd + 1;
+
+  if (text.slice(Math.max(0, start - 2), start) === '\n\n' && text[end] === '\n') {
+    end++;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Checks if a statement is a prologue directive such as 'use strict'
+ * @param statement - The statement
+ * @returns true if the statement is a string literal expression
+ */
+function isDirective(statement: ts.Statement): boolean {
+  return ts.isExpressionStatement(statement) && ts.isStringLiteral(statement.expression);
+}
+
+/**
+ * Builds the import that replaces removed copies in a file
+ * @param specifiers - Import specifiers, such as "name" or "name as alias"
+ * @param moduleSpecifier - The module to import from
+ * @returns The import statement
+ */
+function buildImport(specifiers: string[], moduleSpecifier: string): string {
+  const single = specifiers.length === 1 ? specifiers[0].match(/^default as (\w+)$/) : null;
+  if (single) {
+    return `import ${single[1]} from '${moduleSpecifier}';`;
+  }
+  return `import { ${specifiers.join(', ')} } from '${moduleSpecifier}';`;
+}
+
+/**
+ * Gets the edit that adds an import to a file, extending an existing import of the same
+ * module when there is one
+ * @param sourceFile - The parsed file
+ * @param specifiers - Import specifiers, such as "name" or "name as alias"
+ * @param moduleSpecifier - The module to import from
+ * @returns The text edit
+ */
+function getImportEdit(sourceFile: ts.SourceFile, specifiers: string[], moduleSpecifier: string): TextEdit {
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+
+  const existing = imports.find(statement =>
+    ts.isStringLiteral(statement.moduleSpecifier) && statement.moduleSpecifier.text === moduleSpecifier &&
+    !statement.importClause?.isTypeOnly &&
+    statement.importClause?.namedBindings && ts.isNamedImports(statement.importClause.namedBindings) &&
+    statement.importClause.namedBindings.elements.length > 0);
+  if (existing) {
+    const elements = (existing.importClause!.namedBindings as ts.NamedImports).elements;
+    const position = elements[elements.length - 1].getEnd();
+    return { start: position, end: position, text: `, ${specifiers.join(', ')}` };
+  }
+
+  const statement = buildImport(specifiers, moduleSpecifier);
+
+  if (imports.length > 0) {
+    const position = imports[imports.length - 1].getEnd();
+    return { start: position, end: position, text: `\n${statement}` };
+  }
+
+  // Keep prologue directives such as 'use strict' first
+  let directiveCount = 0;
+  while (directiveCount < sourceFile.statements.length && isDirective(sourceFile.statements[directiveCount])) {
+    directiveCount++;
+  }
+  if (directiveCount > 0) {
+    const position = sourceFile.statements[directiveCount - 1].getEnd();
+    return { start: position, end: position, text: `\n${statement}` };
+  }
+
+  const first = sourceFile.statements[0];
+  const position = first ? first.getStart(sourceFile, true) : sourceFile.text.length;
+  return { start: position, end: position, text: `${statement}\n\n` };
+}
+
+/**
+ * Applies text edits to a text
+ * @param text - The original text
+ * @param edits - Non-overlapping edits
+ * @returns The edited text
+ */
+function applyEdits(text: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start || b.end - a.end)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), text);
+}
+
+/**
+ * Plans the consolidation of a duplicate group, without changing any file
+ * @param group - The duplicate group, with absolute file paths
+ * @param projectRoot - The root directory of the project, used in messages
+ * @param keep - Index of the occurrence to keep (defaults to the recommended one, or
+ * without a recommendation to the first exported one, or the first one)
+ * @returns The plan
+ * @throws Error explaining why the group cannot be consolidated
+ */
+export function planConsolidation(group: DuplicateFunction, projectRoot: string, keep?: number): ConsolidationPlan {
+  if (group.mode === 'near') {
+    throw new Error('Near-duplicate groups cannot be consolidated, since their copies are not equivalent. ' +
+      'Use --mode exact or --mode structural.');
+  }
+
+  if (keep !== undefined && (keep < 0 || keep >= group.occurrences.length)) {
+    throw new Error(`Group ${group.name} has ${group.occurrences.length} occurrences; cannot keep occurrence ${keep + 1}.`);
+  }
+
+  const canonicalIndex = keep ?? (group.recommended
+    ? group.recommended.occurrence - 1
+    : Math.max(0, group.occurrences.findIndex(occurrence => occurrence.exported)));
+  const filePaths = Array.from(new Set(group.occurrences.map(occurrence => occurrence.filePath)));
+
+  // The compiler cannot read or edit the scripts of components
+  const components = filePaths.filter(isComponentFile);
+  if (components.length > 0) {
+    throw new Error(`Cannot consolidate ${group.name}: ` +
+      `${components.map(filePath => path.relative(projectRoot, filePath)).join(', ')} ${components.length === 1 ? 'is a component' : 'are components'}, ` +
+      'whose copies must be replaced by hand.');
+  }
+
+  const program = ts.createProgram(filePaths, {
+    allowJs: true,
+    noEmit: true,
+    target: ts.ScriptTarget.Latest,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    types: []
+  });
+  const checker = program.getTypeChecker();
+
+  const problems: string[] = [];
+  const copies: LocatedCopy[] = [];
+
+  group.occurrences.forEach(occurrence => {
+    const sourceFile = program.getSourceFile(occurrence.filePath);
+    const copy = sourceFile && locateCopy(occurrence, sourceFile);
+    if (!copy) {
+      problems.push(`No function found at ${describeOccurrence(occurrence, projectRoot)}; the file may have changed since the scan`);
+      return;
+    }
+    copies.push(copy);
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Cannot consolidate ${group.name}:\n  ${problems.join('\n  ')}`);
+  }
+
+  const canonical = copies[canonicalIndex];
+  const canonicalReferences = collectOuterReferences(canonical, checker);
+
+  copies.forEach((copy, index) => {
+    const location = describeOccurrence(copy.occurrence, projectRoot);
+    const references = collectOuterReferences(copy, checker);
+    problems.push(...findDependencyProblems(copy, references, index === canonicalIndex ? undefined : canonicalReferences, projectRoot));
+
+    const propertyNameProblem = index === canonicalIndex ? undefined : findPropertyNameProblem(copy, canonical, projectRoot);
+    if (propertyNameProblem) {
+      problems.push(propertyNameProblem);
+    }
+
+    if (!copy.statement) {
+      problems.push(`${copy.name} at ${location} is not declared at the top level of its module`);
+    } else if (copy.name === 'default') {
+      problems.push(`The anonymous default export at ${location} has no name to import it by`);
+    }
+    if (isCommonJsFile(copy.sourceFile)) {
+      problems.push(`${path.relative(projectRoot, copy.occurrence.filePath)} is a CommonJS module, which imports cannot be added to`);
+    }
+    if (index !== canonicalIndex && copy.sourceFile === canonical.sourceFile && copy.name !== canonical.name) {
+      problems.push(`${copy.name} at ${location} is in the same file as the kept copy but has a different name`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Cannot consolidate ${group.name}:\n  ${Array.from(new Set(problems)).join('\n  ')}`);
+  }
+
+  // Every edit to a file, keyed by file path
+  const edits = new Map<string, TextEdit[]>();
+  const addEdit = (filePath: string, edit: TextEdit) => {
+    if (!edits.has(filePath)) {
+      edits.set(filePath, []);
+    }
+    edits.get(filePath)!.push(edit);
+  };
+
+  // Export the kept copy so the other files can import it
+  const canonicalStatement = canonical.statement!;
+  const canonicalFlags = ts.getCombinedModifierFlags(canonical.node as ts.Declaration);
+  const canonicalIsDefault = (canonicalFlags & ts.ModifierFlags.Default) !== 0;
+  if (!isExportedDeclaration(canonical.node as ts.Declaration)) {
+    const position = canonicalStatement.getStart(canonical.sourceFile);
+    addEdit(canonical.occurrence.filePath, { start: position, end: position, text: 'export ' });
+  }
+
+  // Import specifiers needed by each file that loses a copy
+  const importsByFile = new Map<string, { sourceFile: ts.SourceFile; specifiers: string[] }>();
+
+  copies.forEach((copy, index) => {
+    if (index === canonicalIndex) {
+      return;
+    }
+
+    const filePath = copy.occurrence.filePath;
+    const statement = copy.statement!;
+    const flags = ts.getCombinedModifierFlags(copy.node as ts.Declaration);
+    const range = getStatementRange(statement, copy.sourceFile);
+
+    // An exported copy is re-exported, so modules importing it keep working
+    let replacement = '';
+    if (flags & ts.ModifierFlags.Default) {
+      replacement = `export default ${copy.name};\n`;
+    } else if (flags & ts.ModifierFlags.Export) {
+      replacement = `export { ${copy.name} };\n`;
+    }
+    addEdit(filePath, { ...range, text: replacement });
+
+    if (copy.sourceFile === canonical.sourceFile) {
+      return;
+    }
+
+    const importedName = canonicalIsDefault ? 'default' : canonical.name;
+    const specifier = importedName === copy.name ? copy.name : `${importedName} as ${copy.name}`;
+    if (!importsByFile.has(filePath)) {
+      importsByFile.set(filePath, { sourceFile: copy.sourceFile, specifiers: [] });
+    }
+    importsByFile.get(filePath)!.specifiers.push(specifier);
+  });
+
+  importsByFile.forEach(({ sourceFile, specifiers }, filePath) => {
+    const moduleSpecifier = getModuleSpecifier(filePath, canonical.occurrence.filePath, sourceFile);
+    addEdit(filePath, getImportEdit(sourceFile, specifiers, moduleSpecifier));
+  });
+
+  const changes: FileChange[] = [];
+  edits.forEach((fileEdits, filePath) => {
+    const before = program.getSourceFile(filePath)!.text;
+    changes.push({ filePath, before, after: applyEdits(before, fileEdits) });
+  });
+  changes.sort((a, b) => a.filePath.localeCompare(b.filePath));
+
+  return {
+    group,
+    canonical: canonical.occurrence,
+    removed: copies.filter((_, index) => index !== canonicalIndex).map(copy => copy.occurrence),
+    changes
+  };
+}
+
+/**
+ * Formats the changes of a plan as a unified diff
+ * @param plan - The consolidation plan
+ * @param projectRoot - The root directory of the project, which paths are relative to
+ * @returns The unified diff
+ */
+export function formatConsolidationDiff(plan: ConsolidationPlan, projectRoot: string): string {
+  return plan.changes.map(change => {
+    const relativePath = path.relative(projectRoot, change.filePath).replace(/\\/g, '/');
+    // The newline that ends a file does not start another line
+    const diff = diffLines(change.before.replace(/\n$/, ''), change.after.replace(/\n$/, ''));
+    return formatUnifiedDiff(diff, `a/${relativePath}`, `b/${relativePath}`);
+  }).join('');
+}
+
+/**
+ * Writes the changes of a plan to disk
+ * @param plan - The consolidation plan
+ * @throws Error if a file changed since the plan was made
+ */
+export function applyConsolidation(plan: ConsolidationPlan): void {
+  plan.changes.forEach(change => {
+    if (fs.readFileSync(change.filePath, 'utf-8') !== change.before) {
+      throw new Error(`${change.filePath} changed since the consolidation was planned.`);
+    }
+  });
+
+  plan.changes.forEach(change => fs.writeFileSync(change.filePath, change.after));
+}
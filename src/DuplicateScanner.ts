@@ -0,0 +1,545 @@
+/**
+ * DuplicateScanner
+ *
+ * Runs a complete duplicate scan of a project directory and returns the results as data.
+ * Nothing is printed and no files are written (apart from the cache, when enabled), so the
+ * scanner can be embedded in other tools; the command line interface is a thin wrapper
+ * around it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { performance } from 'perf_hooks';
+import { FunctionInfo, isTsJsFile, DEFAULT_EXTENSIONS } from './FunctionFinder';
+import { processFunctionForHashing, getDuplicateHashGroups, clearHashGroups, DetectionMode } from './ConvertToHash';
+import { IgnoreHandler } from './IgnoreHandler';
+import { findNearDuplicates, DEFAULT_SIMILARITY_THRESHOLD } from './NearDuplicateFinder';
+import {
+  findDuplicateBlocks,
+  extractStatementSequences,
+  DuplicateBlock,
+  DEFAULT_MIN_BLOCK_LINES,
+  DEFAULT_MIN_BLOCK_STATEMENTS
+} from './BlockCloneFinder';
+import { findNameCollisions, NameCollision, CollisionKey } from './NameCollisionFinder';
+import { DuplicateFunction, SuppressedOccurrence } from './ReportModel';
+import { removeSuppressedOccurrences } from './SuppressionComments';
+import { computeDuplicationMetrics, DuplicationMetrics } from './DuplicationMetrics';
+import { FunctionFilter, FilterStats, isCandidate, filterGroups } from './FunctionFilter';
+import { FunctionCache, CacheStats, TOOL_DIRECTORY } from './FunctionCache';
+import { parseFiles, getDefaultJobCount, ParseTask, ParsedFile } from './ParallelParser';
+import { createScriptSourceFile } from './ComponentScripts';
+import { getProjectFiles, ProjectFiles } from './ProjectFiles';
+import { findWorkspacePackages, getPackageName, tagPackages, WorkspacePackage } from './Workspaces';
+import { findReferenceMatches } from './ReferenceLibrary';
+import { getTypeAwareHashes } from './TypeAwareHashing';
+import { analyzeUsage } from './UsageAnalysis';
+
+/**
+ * Options for a duplicate scan
+ */
+export interface ScanOptions {
+  // Directory to scan
+  projectRoot: string;
+  // tsconfig.json (or directory containing one) whose files are scanned instead of every
+  // file in the directory; files outside the directory are left out
+  project?: string;
+  // Extensions of the files scanned when walking the directory (defaults to every
+  // supported extension); cannot be used with project, which lists its own files
+  extensions?: string[];
+  // Directories of reference libraries; project functions that match one of their
+  // functions are reported as reference matches
+  references?: string[];
+  // Detection mode (defaults to exact)
+  mode?: DetectionMode;
+  // Resolve the identifiers of functions to their declarations with the type checker, so
+  // only functions that use the same declarations match; exact and structural mode only
+  // (defaults to false)
+  typeAware?: boolean;
+  // Minimum similarity for near mode, between 0 and 1 (defaults to 0.85)
+  similarity?: number;
+  // Also look for duplicated statement blocks (defaults to false)
+  blocks?: boolean;
+  minBlockStatements?: number;
+  minBlockLines?: number;
+  // Also look for same-named functions with different implementations (defaults to false)
+  nameCollisions?: boolean;
+  // Whether name collisions are found by name or qualified name (defaults to name)
+  collisionKey?: CollisionKey;
+  // Size thresholds and excluded kinds of the functions compared, and the fewest
+  // occurrences of a reported group (defaults to every function and group)
+  filter?: FunctionFilter;
+  // Count the references to every duplicate occurrence and recommend the copy of each
+  // group to keep, which builds a program of the whole project (defaults to false)
+  usage?: boolean;
+  // Also honor .gitignore files (defaults to false)
+  gitignore?: boolean;
+  // Reuse the functions of unchanged files from the cache in the project root (defaults to false)
+  cache?: boolean;
+  // Largest number of worker threads used to parse files (defaults to the number of CPUs)
+  jobs?: number;
+}
+
+/**
+ * Statistics about the paths skipped by ignore patterns
+ */
+export interface IgnoreStats {
+  usingDefaults: boolean;
+  // Whether .gitignore files were honored
+  gitignore: boolean;
+  patternCount: number;
+  // Error that prevented the .ignore file from being read, if any
+  loadError?: string;
+  // Number of ignored files and directories (a directory counts once, not its contents)
+  ignoredPaths: number;
+  // Number of ignored paths per matching pattern
+  byPattern: Record<string, number>;
+}
+
+/**
+ * A file that could not be parsed
+ */
+export interface ParseError {
+  filePath: string;
+  message: string;
+}
+
+/**
+ * How long each stage of the scan took, in milliseconds
+ */
+export interface ScanTimings {
+  discovery: number;
+  parsing: number;
+  grouping: number;
+  blocks: number;
+  total: number;
+}
+
+/**
+ * The result of a duplicate scan. File paths are absolute.
+ */
+export interface ScanResult {
+  // Absolute path of the scanned directory
+  projectRoot: string;
+  // The config files and files of the TypeScript project, only set when one was given
+  project?: ProjectFiles;
+  // Extensions of the files scanned when walking the directory
+  extensions: string[];
+  // Packages of the monorepo workspace, only set when the scanned directory has a
+  // pnpm-workspace.yaml or a package.json with workspaces
+  workspacePackages?: WorkspacePackage[];
+  mode: DetectionMode;
+  // Whether functions were matched with their identifiers resolved
+  typeAware: boolean;
+  // Similarity threshold, only set in near mode
+  similarity?: number;
+  duplicates: DuplicateFunction[];
+  blocks: DuplicateBlock[];
+  // Occurrences taken out of their groups by suppression comments
+  suppressed: SuppressedOccurrence[];
+  // Only found when requested
+  nameCollisions: NameCollision[];
+  // Absolute paths of the reference directories, and the project functions that
+  // reimplement their functions, grouped by reference function; only set with references
+  references?: string[];
+  referenceMatches?: DuplicateFunction[];
+  // How much of the project, and of each package, directory and file, is duplicated
+  metrics: DuplicationMetrics;
+  filter: FunctionFilter;
+  // Number of functions and groups left out by the filter
+  filtered: FilterStats;
+  // Number of files found after applying ignore patterns
+  fileCount: number;
+  // Number of TypeScript/JavaScript files among them
+  sourceFileCount: number;
+  functionCount: number;
+  // Every function found, in file order, including those left out by the filter
+  functions: FunctionInfo[];
+  ignored: IgnoreStats;
+  parseErrors: ParseError[];
+  // Only set when the cache is enabled
+  cache?: CacheStats;
+  timings: ScanTimings;
+}
+
+/**
+ * Reads all files from a directory recursively, respecting ignore patterns
+ * @param dirPath - Path to the directory (project root)
+ * @param ignoreHandler - Handler for ignore patterns
+ * @param ignored - Statistics updated with every ignored path
+ * @param fileList - List to store file paths
+ * @returns Array of file paths
+ */
+function readFilesRecursively(
+  dirPath: string,
+  ignoreHandler: IgnoreHandler,
+  ignored: IgnoreStats,
+  fileList: string[] = []
+): string[] {
+  const files = fs.readdirSync(dirPath);
+
+  files.forEach(file => {
+    const filePath = path.join(dirPath, file);
+
+    // The tool's own state is never part of the scan
+    if (file === TOOL_DIRECTORY) {
+      return;
+    }
+
+    // Skip entries that disappeared while scanning (or are broken links)
+    const stat = fs.statSync(filePath, { throwIfNoEntry: false });
+    if (!stat) {
+      return;
+    }
+
+    // Check if this path should be ignored
+    const pattern = ignoreHandler.getMatchingPattern(filePath, stat.isDirectory());
+    if (pattern !== undefined) {
+      ignored.ignoredPaths++;
+      ignored.byPattern[pattern] = (ignored.byPattern[pattern] || 0) + 1;
+      return; // Skip this file/directory
+    }
+
+    if (stat.isDirectory()) {
+      readFilesRecursively(filePath, ignoreHandler, ignored, fileList);
+    } else {
+      fileList.push(filePath);
+    }
+  });
+
+  return fileList;
+}
+
+/**
+ * Applies ignore patterns to the files of a TypeScript project, leaving out files outside
+ * the project root
+ * @param filePaths - Absolute paths of the project's files
+ * @param projectRoot - Absolute path of the project root
+ * @param ignoreHandler - Handler for ignore patterns
+ * @param ignored - Statistics updated with every ignored file
+ * @returns The files in the project root that are not ignored
+ */
+function filterProjectFiles(
+  filePaths: string[],
+  projectRoot: string,
+  ignoreHandler: IgnoreHandler,
+  ignored: IgnoreStats
+): string[] {
+  return filePaths.filter(filePath => {
+    if (!filePath.startsWith(projectRoot + path.sep) || filePath.includes(path.sep + TOOL_DIRECTORY + path.sep)) {
+      return false;
+    }
+
+    const pattern = ignoreHandler.getMatchingPattern(filePath, false);
+    if (pattern !== undefined) {
+      ignored.ignoredPaths++;
+      ignored.byPattern[pattern] = (ignored.byPattern[pattern] || 0) + 1;
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Filters for TypeScript and JavaScript files and single-file components
+ * @param filePaths - Array of file paths
+ * @param extensions - The extensions of the files to keep
+ * @returns Array of TypeScript and JavaScript file paths
+ */
+function filterTsJsFiles(filePaths: string[], extensions: string[]): string[] {
+  return filePaths.filter(filePath => isTsJsFile(filePath, extensions));
+}
+
+/**
+ * Parses all TypeScript/JavaScript files and hashes their functions, on worker threads
+ * when there are enough files
+ * @param filePaths - Array of file paths
+ * @param mode - The detection mode used to hash functions
+ * @param jobs - The largest number of worker threads to use
+ * @param parseErrors - List to store files that could not be parsed
+ * @param cache - Cache of the functions of unchanged files, if enabled
+ * @param minBlockStatements - Minimum number of statements in a block, when blocks are looked for
+ * @returns The files that could be parsed, in the same order as the file paths
+ */
+async function parseAllFiles(
+  filePaths: string[],
+  mode: DetectionMode,
+  jobs: number,
+  parseErrors: ParseError[],
+  cache?: FunctionCache,
+  minBlockStatements?: number
+): Promise<ParsedFile[]> {
+  const parsedFiles: Array<ParsedFile | undefined> = [];
+  const tasks: ParseTask[] = [];
+
+  // Take unchanged files from the cache, and collect the rest for parsing
+  filePaths.forEach((filePath, index) => {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      parsedFiles[index] = { functions: [], error: String(error) };
+      return;
+    }
+
+    const functions = cache?.getFunctions(filePath, content);
+    if (functions) {
+      let sequences = minBlockStatements === undefined ? undefined : cache!.getStatementSequences(filePath, minBlockStatements);
+      // Files cached before blocks were looked for, or for larger blocks, are parsed for their statements
+      if (minBlockStatements !== undefined && !sequences) {
+        sequences = extractStatementSequences(filePath, createScriptSourceFile(filePath, content), minBlockStatements);
+        cache!.setStatementSequences(filePath, minBlockStatements, sequences);
+      }
+
+      parsedFiles[index] = {
+        functions,
+        hashes: mode === 'near' ? undefined : functions.map((_, position) => cache!.getFunctionHash(filePath, position, mode)),
+        sequences
+      };
+    } else {
+      tasks.push({ filePath, content });
+    }
+  });
+
+  const results = await parseFiles(tasks, mode, jobs, minBlockStatements);
+  let nextResult = 0;
+
+  return filePaths.flatMap((filePath, index) => {
+    let parsed = parsedFiles[index];
+    if (!parsed) {
+      const task = tasks[nextResult];
+      parsed = results[nextResult++];
+      if (!parsed.error) {
+        cache?.setFunctions(filePath, task.content, parsed.functions, mode, parsed.hashes);
+        if (parsed.sequences) {
+          cache?.setStatementSequences(filePath, minBlockStatements!, parsed.sequences);
+        }
+      }
+    }
+
+    if (parsed.error) {
+      parseErrors.push({ filePath, message: parsed.error });
+      return [];
+    }
+    return [parsed];
+  });
+}
+
+/**
+ * Reads and parses the files of reference libraries, respecting the ignore patterns of each
+ * @param directories - Absolute paths of the reference directories
+ * @param jobs - The largest number of worker threads to use
+ * @param parseErrors - List to store files that could not be parsed
+ * @param gitignore - Whether .gitignore files are honored
+ * @returns The functions of the reference libraries, in file order
+ */
+async function parseReferenceFiles(
+  directories: string[],
+  jobs: number,
+  parseErrors: ParseError[],
+  gitignore?: boolean
+): Promise<FunctionInfo[]> {
+  const filePaths = directories.flatMap(directory => {
+    const ignoreHandler = new IgnoreHandler(directory, { gitignore });
+    const ignored: IgnoreStats = {
+      usingDefaults: ignoreHandler.isUsingDefaults(),
+      gitignore: gitignore ?? false,
+      patternCount: ignoreHandler.getIgnorePatterns().length,
+      ignoredPaths: 0,
+      byPattern: {}
+    };
+    return filterTsJsFiles(readFilesRecursively(directory, ignoreHandler, ignored), DEFAULT_EXTENSIONS);
+  });
+
+  // Reference functions are hashed when they are compared, so they are parsed as in near
+  // mode, without hashes
+  const parsedFiles = await parseAllFiles(filePaths, 'near', jobs, parseErrors);
+  return parsedFiles.flatMap(parsed => parsed.functions);
+}
+
+/**
+ * Processes the functions of parsed files that pass the filter for hash grouping, in file order
+ * @param parsedFiles - The parsed files
+ * @param mode - The detection mode the functions were hashed with
+ * @param filter - The filter that decides which functions are compared
+ * @returns Arrays of all functions and of the functions processed, and the hash each
+ * processed function was grouped by
+ */
+function hashFunctions(
+  parsedFiles: ParsedFile[],
+  mode: DetectionMode,
+  filter: FunctionFilter
+): { allFunctions: FunctionInfo[]; candidates: FunctionInfo[]; hashes: Map<FunctionInfo, string> } {
+  const allFunctions: FunctionInfo[] = [];
+  const candidates: FunctionInfo[] = [];
+  const hashes = new Map<FunctionInfo, string>();
+
+  parsedFiles.forEach(parsed => {
+    // Process each function for hash grouping (near mode compares token streams instead)
+    parsed.functions.forEach((func, index) => {
+      allFunctions.push(func);
+      if (!isCandidate(func, filter)) {
+        return;
+      }
+      if (parsed.hashes) {
+        processFunctionForHashing(func, mode, parsed.hashes[index]);
+        hashes.set(func, parsed.hashes[index]);
+      }
+      candidates.push(func);
+    });
+  });
+
+  return { allFunctions, candidates, hashes };
+}
+
+/**
+ * Scans a project directory for duplicate functions. The hash groups built by the scan
+ * are left in place, so DuplicateWatcher can keep them up to date afterwards.
+ * @param options - The scan options
+ * @returns The scan result
+ */
+export async function findDuplicates(options: ScanOptions): Promise<ScanResult> {
+  const start = performance.now();
+  const projectRoot = path.resolve(options.projectRoot);
+  const mode = options.mode ?? 'exact';
+  const similarity = options.similarity ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const filter = options.filter ?? {};
+  const extensions = options.extensions ?? DEFAULT_EXTENSIONS;
+  const typeAware = options.typeAware ?? false;
+
+  // Ensure the provided path exists and is a directory
+  if (!fs.existsSync(projectRoot)) {
+    throw new Error(`Directory "${options.projectRoot}" does not exist.`);
+  }
+  if (!fs.statSync(projectRoot).isDirectory()) {
+    throw new Error(`"${options.projectRoot}" is not a directory.`);
+  }
+  if (options.project && options.extensions) {
+    throw new Error('Extensions cannot be given with a TypeScript project, which lists its own files.');
+  }
+  if (typeAware && mode === 'near') {
+    throw new Error('Type-aware matching is not available in near mode.');
+  }
+  if (typeAware && options.references && options.references.length > 0) {
+    throw new Error('Type-aware matching is not available with reference libraries, which are not part of the project\'s program.');
+  }
+
+  // Reference directories are checked up front, so a typo fails before the project is parsed
+  const references = options.references?.map(directory => {
+    const referencePath = path.resolve(directory);
+    if (!fs.existsSync(referencePath) || !fs.statSync(referencePath).isDirectory()) {
+      throw new Error(`Reference directory "${directory}" does not exist.`);
+    }
+    return referencePath;
+  });
+
+  const workspacePackages = findWorkspacePackages(projectRoot);
+  const ignoreHandler = new IgnoreHandler(projectRoot, { gitignore: options.gitignore });
+  const ignored: IgnoreStats = {
+    usingDefaults: ignoreHandler.isUsingDefaults(),
+    gitignore: options.gitignore ?? false,
+    patternCount: ignoreHandler.getIgnorePatterns().length,
+    loadError: ignoreHandler.getLoadError(),
+    ignoredPaths: 0,
+    byPattern: {}
+  };
+  const parseErrors: ParseError[] = [];
+
+  // Take the files of the TypeScript project, or scan all files in the directory, and
+  // locate TypeScript/JavaScript files
+  const project = options.project ? getProjectFiles(options.project) : undefined;
+  const allFiles = project
+    ? filterProjectFiles(project.files, projectRoot, ignoreHandler, ignored)
+    : readFilesRecursively(projectRoot, ignoreHandler, ignored);
+  const tsJsFiles = filterTsJsFiles(allFiles, extensions);
+  const discovered = performance.now();
+
+  // Parse each file to locate functions and hash them
+  const cache = options.cache ? new FunctionCache(projectRoot) : undefined;
+  const jobs = options.jobs ?? getDefaultJobCount();
+  const minBlockStatements = options.blocks ? options.minBlockStatements ?? DEFAULT_MIN_BLOCK_STATEMENTS : undefined;
+  const parsedFiles = await parseAllFiles(tsJsFiles, mode, jobs, parseErrors, cache, minBlockStatements);
+  const cacheStats = cache?.save();
+
+  // Type-aware hashes depend on other files, so they are computed after the cache
+  const hashedFiles = typeAware ? getTypeAwareHashes(parsedFiles, mode, projectRoot, options.project) : parsedFiles;
+  const referenceFunctions = references
+    ? (await parseReferenceFiles(references, jobs, parseErrors, options.gitignore)).filter(func => isCandidate(func, filter))
+    : undefined;
+  const parsed = performance.now();
+
+  // Clear any existing hash groups from previous runs, then group functions by hash (or by
+  // similarity in near mode). This runs without awaiting, since the hash groups are shared
+  // between concurrent scans.
+  clearHashGroups();
+  const { allFunctions, candidates, hashes } = hashFunctions(hashedFiles, mode, filter);
+  const groups: DuplicateFunction[] = mode === 'near'
+    ? findNearDuplicates(candidates, similarity)
+    : getDuplicateHashGroups();
+  // Variants are told apart by the hashes the functions were grouped by, and functions
+  // marked as intentional duplicates are left out of them as they are out of the groups
+  const nameCollisions = options.nameCollisions
+    ? findNameCollisions(candidates.filter(func => !func.suppression), options.collisionKey, mode, hashes)
+    : [];
+  const referenceMatches = references && referenceFunctions
+    ? findReferenceMatches(candidates, referenceFunctions, references, mode, similarity)
+    : undefined;
+  const grouped = performance.now();
+
+  // Look for duplicated statement blocks inside otherwise different functions
+  const blockClones = minBlockStatements !== undefined
+    ? findDuplicateBlocks(parsedFiles.flatMap(parsed => parsed.sequences ?? []), {
+      minStatements: minBlockStatements,
+      minLines: options.minBlockLines ?? DEFAULT_MIN_BLOCK_LINES
+    })
+    : [];
+
+  // Take the occurrences marked as intentional by suppression comments out of the results,
+  // and tag the rest with their workspace packages
+  const unsuppressed = removeSuppressedOccurrences(groups, blockClones, allFunctions);
+  const { blocks } = unsuppressed;
+  const packages = workspacePackages ?? [];
+  const reported = tagPackages(filterGroups(unsuppressed.duplicates, filter), packages);
+  const duplicates = options.usage ? analyzeUsage(reported, tsJsFiles, projectRoot, options.project) : reported;
+  const suppressed = packages.length > 0
+    ? unsuppressed.suppressed.map(occurrence => ({ ...occurrence, package: getPackageName(occurrence.filePath, packages) }))
+    : unsuppressed.suppressed;
+  const metrics = computeDuplicationMetrics(projectRoot, allFunctions, duplicates, blocks);
+  const finished = performance.now();
+
+  return {
+    projectRoot,
+    project,
+    extensions,
+    workspacePackages,
+    mode,
+    typeAware,
+    similarity: mode === 'near' ? similarity : undefined,
+    duplicates,
+    blocks,
+    suppressed,
+    nameCollisions,
+    references,
+    referenceMatches: referenceMatches && tagPackages(referenceMatches, packages),
+    metrics,
+    filter,
+    filtered: {
+      functions: allFunctions.length - candidates.length,
+      groups: unsuppressed.duplicates.length - duplicates.length
+    },
+    fileCount: allFiles.length,
+    sourceFileCount: tsJsFiles.length,
+    functionCount: allFunctions.length,
+    functions: allFunctions,
+    ignored,
+    parseErrors,
+    cache: cacheStats,
+    timings: {
+      discovery: discovered - start,
+      parsing: parsed - discovered,
+      grouping: grouped - parsed,
+      blocks: finished - grouped,
+      total: finished - start
+    }
+  };
+}
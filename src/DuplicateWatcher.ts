@@ -0,0 +1,282 @@
+/**
+ * DuplicateWatcher
+ *
+ * Keeps the duplicate index of a scan up to date while files change. Only the functions
+ * of files that were added, changed or deleted are re-parsed and re-hashed, and each
+ * update reports which duplicate groups appeared, were resolved or changed size.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { FunctionInfo, extractFunctionsFromContent, isTsJsFile } from './FunctionFinder';
+import {
+  processFunctionForHashing,
+  removeFileFromHashGroups,
+  getDuplicateHashGroups,
+  DetectionMode
+} from './ConvertToHash';
+import { findNearDuplicates, DEFAULT_SIMILARITY_THRESHOLD } from './NearDuplicateFinder';
+import { IgnoreHandler } from './IgnoreHandler';
+import { TOOL_DIRECTORY } from './FunctionCache';
+import { DuplicateFunction } from './ReportModel';
+import { removeSuppressedOccurrences } from './SuppressionComments';
+import { isCandidate, filterGroups } from './FunctionFilter';
+import { tagPackages } from './Workspaces';
+import { ScanResult, ParseError } from './DuplicateScanner';
+
+// How long to wait for more file events before updating, in milliseconds
+const DEBOUNCE_DELAY = 100;
+
+/**
+ * A duplicate group whose number of occurrences changed
+ */
+export interface ChangedGroup {
+  group: DuplicateFunction;
+  previousCount: number;
+}
+
+/**
+ * The changes caused by one batch of file events
+ */
+export interface WatchUpdate {
+  // Absolute paths of the TypeScript/JavaScript files that were re-read or removed
+  changedFiles: string[];
+  newGroups: DuplicateFunction[];
+  resolvedGroups: DuplicateFunction[];
+  changedGroups: ChangedGroup[];
+  // All duplicate groups after the update
+  duplicates: DuplicateFunction[];
+  parseErrors: ParseError[];
+}
+
+/**
+ * A running watcher
+ */
+export interface DuplicateWatcher {
+  // Stops watching and releases all file system watchers
+  close(): void;
+}
+
+/**
+ * Gets the occurrences of a duplicate group as file and qualified name pairs, which,
+ * unlike line numbers and hashes, survive edits to the functions and the code around them
+ * @param group - The duplicate group
+ * @returns Set of occurrence identities
+ */
+function getGroupMembers(group: DuplicateFunction): Set<string> {
+  return new Set(group.occurrences.map(occurrence => `${occurrence.filePath}\0${occurrence.qualifiedName ?? group.name}`));
+}
+
+/**
+ * Compares the duplicate groups before and after an update, matching groups by the
+ * occurrences they share
+ * @param previous - The groups before the update
+ * @param current - The groups after the update
+ * @returns The new, resolved and changed groups
+ */
+function compareGroups(
+  previous: DuplicateFunction[],
+  current: DuplicateFunction[]
+): Pick<WatchUpdate, 'newGroups' | 'resolvedGroups' | 'changedGroups'> {
+  const previousMembers = previous.map(getGroupMembers);
+  const matchedPrevious = new Set<number>();
+  const newGroups: DuplicateFunction[] = [];
+  const changedGroups: ChangedGroup[] = [];
+
+  current.forEach(group => {
+    const members = getGroupMembers(group);
+    const match = previousMembers.findIndex(candidates => [...members].some(member => candidates.has(member)));
+
+    if (match === -1) {
+      newGroups.push(group);
+      return;
+    }
+
+    matchedPrevious.add(match);
+    const previousCount = previous[match].occurrences.length;
+    if (previousCount !== group.occurrences.length) {
+      changedGroups.push({ group, previousCount });
+    }
+  });
+
+  const resolvedGroups = previous.filter((_, index) => !matchedPrevious.has(index));
+
+  return { newGroups, resolvedGroups, changedGroups };
+}
+
+/**
+ * Watches a scanned project and updates its duplicate index as files change. Must be
+ * started right after findDuplicates, whose hash groups it keeps up to date; other scans
+ * in the same process would replace them. Duplicated blocks, name collisions and
+ * duplication metrics are not updated. When the scan used a TypeScript project, only the
+ * files the project had at the time are watched.
+ * @param result - The result of the initial scan
+ * @param onUpdate - Called after each batch of file events
+ * @param similarity - Minimum similarity for near mode (defaults to 0.85)
+ * @returns The running watcher
+ */
+export function watchDuplicates(
+  result: ScanResult,
+  onUpdate: (update: WatchUpdate) => void,
+  similarity: number = result.similarity ?? DEFAULT_SIMILARITY_THRESHOLD
+): DuplicateWatcher {
+  const { projectRoot, filter, extensions } = result;
+  const projectFiles = result.project ? new Set(result.project.files) : undefined;
+  const mode: DetectionMode = result.mode;
+  const ignoreHandler = new IgnoreHandler(projectRoot, { gitignore: result.ignored.gitignore });
+  const watchers = new Map<string, fs.FSWatcher>();
+  const functionsByFile = new Map<string, FunctionInfo[]>();
+  const pendingPaths = new Set<string>();
+  let duplicates = result.duplicates;
+  let timer: NodeJS.Timeout | undefined;
+
+  result.functions.forEach(func => {
+    if (!functionsByFile.has(func.filePath)) {
+      functionsByFile.set(func.filePath, []);
+    }
+    functionsByFile.get(func.filePath)!.push(func);
+  });
+
+  const isIgnored = (filePath: string): boolean =>
+    path.basename(filePath) === TOOL_DIRECTORY || ignoreHandler.shouldIgnore(filePath);
+
+  const isSourceFile = (filePath: string): boolean =>
+    projectFiles ? projectFiles.has(filePath) : isTsJsFile(filePath, extensions);
+
+  const schedule = (filePath: string): void => {
+    pendingPaths.add(filePath);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(flush, DEBOUNCE_DELAY);
+  };
+
+  // Watches a directory and the directories below it, skipping ignored paths
+  const watchDirectory = (dirPath: string, changedFiles: Set<string>): void => {
+    if (watchers.has(dirPath) || isIgnored(dirPath)) {
+      return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dirPath, { withFileTypes: true });
+      const watcher = fs.watch(dirPath, (_, filename) => {
+        schedule(filename ? path.join(dirPath, filename.toString()) : dirPath);
+      });
+      watcher.on('error', () => unwatchDirectory(dirPath));
+      watchers.set(dirPath, watcher);
+    } catch {
+      return;
+    }
+
+    entries.forEach(entry => {
+      const entryPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        watchDirectory(entryPath, changedFiles);
+      } else if (!functionsByFile.has(entryPath) && isSourceFile(entryPath) && !isIgnored(entryPath)) {
+        // Files in a directory created after the initial scan
+        changedFiles.add(entryPath);
+      }
+    });
+  };
+
+  // Stops watching a directory that was removed, along with everything below it
+  const unwatchDirectory = (dirPath: string): void => {
+    const prefix = dirPath + path.sep;
+    watchers.forEach((watcher, watchedPath) => {
+      if (watchedPath === dirPath || watchedPath.startsWith(prefix)) {
+        watcher.close();
+        watchers.delete(watchedPath);
+      }
+    });
+  };
+
+  // Re-reads or removes the functions of one file
+  const updateFile = (filePath: string, parseErrors: ParseError[]): void => {
+    removeFileFromHashGroups(filePath);
+    functionsByFile.delete(filePath);
+
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    let functions: FunctionInfo[];
+    try {
+      functions = extractFunctionsFromContent(filePath, fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      parseErrors.push({ filePath, message: String(error) });
+      return;
+    }
+
+    functionsByFile.set(filePath, functions);
+    if (mode !== 'near') {
+      functions
+        .filter(func => isCandidate(func, filter))
+        .forEach(func => processFunctionForHashing(func, mode));
+    }
+  };
+
+  function flush(): void {
+    timer = undefined;
+    const changedFiles = new Set<string>();
+
+    pendingPaths.forEach(changedPath => {
+      const exists = fs.existsSync(changedPath);
+
+      if (exists && fs.statSync(changedPath).isDirectory()) {
+        watchDirectory(changedPath, changedFiles);
+        return;
+      }
+
+      if (!exists && watchers.has(changedPath)) {
+        unwatchDirectory(changedPath);
+        const prefix = changedPath + path.sep;
+        functionsByFile.forEach((_, filePath) => {
+          if (filePath.startsWith(prefix)) {
+            changedFiles.add(filePath);
+          }
+        });
+        return;
+      }
+
+      if (isSourceFile(changedPath) && !isIgnored(changedPath) && (exists || functionsByFile.has(changedPath))) {
+        changedFiles.add(changedPath);
+      }
+    });
+    pendingPaths.clear();
+
+    if (changedFiles.size === 0) {
+      return;
+    }
+
+    const parseErrors: ParseError[] = [];
+    changedFiles.forEach(filePath => updateFile(filePath, parseErrors));
+
+    const previous = duplicates;
+    const functions = [...functionsByFile.values()].flat();
+    const groups = mode === 'near'
+      ? findNearDuplicates(functions.filter(func => isCandidate(func, filter)), similarity)
+      : getDuplicateHashGroups();
+    const unsuppressed = removeSuppressedOccurrences(groups, [], functions).duplicates;
+    duplicates = tagPackages(filterGroups(unsuppressed, filter), result.workspacePackages ?? []);
+
+    onUpdate({
+      changedFiles: [...changedFiles],
+      ...compareGroups(previous, duplicates),
+      duplicates,
+      parseErrors
+    });
+  }
+
+  watchDirectory(projectRoot, new Set());
+
+  return {
+    close(): void {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      watchers.forEach(watcher => watcher.close());
+      watchers.clear();
+    }
+  };
+}
@@ -0,0 +1,323 @@
+/**
+ * DuplicationMetrics
+ *
+ * Measures how much of a project is duplicated: duplicated lines and tokens, the share of
+ * the code they make up and the number of duplicate groups, for the whole project and for
+ * each package, directory and file. Code is measured by the functions found in it, counting
+ * functions nested in other functions once; duplicated code is the code of the duplicate
+ * occurrences and of the duplicated blocks inside functions.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { FunctionInfo } from './FunctionFinder';
+import { DuplicateBlock } from './BlockCloneFinder';
+import type { DuplicateFunction, DuplicateOccurrence } from './ReportModel';
+
+// Number of packages, directories and files listed on the console and in markdown reports
+export const TOP_SCOPE_COUNT = 10;
+
+/**
+ * How much of some code is duplicated
+ */
+export interface DuplicationStats {
+  // Lines of function code, and how many of them are duplicated
+  lines: number;
+  duplicatedLines: number;
+  // Tokens of function code, and how many of them are duplicated
+  tokens: number;
+  duplicatedTokens: number;
+  // Share of the lines that are duplicated, as a percentage rounded to one decimal
+  percentage: number;
+  // Number of duplicate groups and blocks with an occurrence in the code
+  groups: number;
+}
+
+/**
+ * How much of a package, directory or file is duplicated
+ */
+export interface ScopeMetrics extends DuplicationStats {
+  path: string;
+}
+
+/**
+ * How much of a project is duplicated. Scopes are sorted by duplicated lines, most first.
+ */
+export interface DuplicationMetrics {
+  project: DuplicationStats;
+  // Directories with a package.json; code outside of every package is left out
+  packages: ScopeMetrics[];
+  // Every directory below the project root with functions in it, including the code of
+  // the directories below it
+  directories: ScopeMetrics[];
+  // Only the files with duplicated code
+  files: ScopeMetrics[];
+}
+
+/**
+ * The part of a file a function covers
+ */
+interface Span {
+  // 1-based line and column of the first and last character
+  start: [number, number];
+  end: [number, number];
+  tokens: number;
+}
+
+/**
+ * The code of one file, and which parts of it are duplicated
+ */
+interface FileCode {
+  spans: Span[];
+  duplicatedSpans: Span[];
+  // Duplicated blocks are known by their lines only, so their spans cover whole lines
+  duplicatedBlocks: Array<Span & { group: string }>;
+  groups: Set<string>;
+}
+
+/**
+ * Running totals of a scope
+ */
+interface Totals {
+  lines: number;
+  duplicatedLines: number;
+  tokens: number;
+  duplicatedTokens: number;
+  groups: Set<string>;
+}
+
+/**
+ * Describes how much of some code is duplicated
+ * @param stats - The statistics of the code
+ * @returns Description such as "5.2% duplicated: 120 of 2310 lines, 950 of 17400 tokens, 4 groups"
+ */
+export function describeDuplication(stats: DuplicationStats): string {
+  return `${stats.percentage.toFixed(1)}% duplicated: ${stats.duplicatedLines} of ${stats.lines} lines, ` +
+    `${stats.duplicatedTokens} of ${stats.tokens} tokens, ${stats.groups} ${stats.groups === 1 ? 'group' : 'groups'}`;
+}
+
+/**
+ * Compares two positions
+ * @param a - The first position
+ * @param b - The second position
+ * @returns A negative number if a comes first, a positive number if b does, 0 if equal
+ */
+function comparePositions(a: [number, number], b: [number, number]): number {
+  return a[0] - b[0] || a[1] - b[1];
+}
+
+/**
+ * Drops the spans that lie within other spans, and duplicates of the same span
+ * @param spans - The spans of one file
+ * @returns The outermost spans, in file order
+ */
+function getOutermostSpans(spans: Span[]): Span[] {
+  const sorted = [...spans].sort((a, b) => comparePositions(a.start, b.start) || comparePositions(b.end, a.end));
+  const outermost: Span[] = [];
+
+  sorted.forEach(span => {
+    const last = outermost[outermost.length - 1];
+    if (!last || comparePositions(span.end, last.end) > 0) {
+      outermost.push(span);
+    }
+  });
+
+  return outermost;
+}
+
+/**
+ * Checks if the lines of a span lie within the lines of another
+ * @param outer - The enclosing span
+ * @param inner - The span that may be enclosed
+ * @returns true if every line of inner is a line of outer
+ */
+function containsLines(outer: Span, inner: Span): boolean {
+  return outer.start[0] <= inner.start[0] && outer.end[0] >= inner.end[0];
+}
+
+/**
+ * Counts the lines covered by a set of possibly overlapping line ranges
+ * @param ranges - Ranges of 1-based start and end lines, inclusive
+ * @returns The number of distinct lines
+ */
+function countLines(ranges: Array<[number, number]>): number {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  let count = 0;
+  let coveredUntil = 0;
+
+  sorted.forEach(([start, end]) => {
+    const from = Math.max(start, coveredUntil + 1);
+    if (end >= from) {
+      count += end - from + 1;
+      coveredUntil = end;
+    }
+  });
+
+  return count;
+}
+
+/**
+ * Gets the span of a function
+ * @param func - The function, or an occurrence of one
+ * @returns The span
+ */
+function toSpan(func: Pick<DuplicateOccurrence, 'lineNumber' | 'startLine' | 'startColumn' | 'endLine' | 'endColumn' | 'tokenCount'>): Span {
+  return {
+    start: [func.startLine ?? func.lineNumber, func.startColumn ?? 1],
+    end: [func.endLine ?? func.lineNumber, func.endColumn ?? Number.MAX_SAFE_INTEGER],
+    tokens: func.tokenCount ?? 0
+  };
+}
+
+/**
+ * Builds the statistics of a scope from its totals
+ * @param totals - The totals of the scope
+ * @returns The statistics
+ */
+function toStats(totals: Totals): DuplicationStats {
+  return {
+    lines: totals.lines,
+    duplicatedLines: totals.duplicatedLines,
+    tokens: totals.tokens,
+    duplicatedTokens: totals.duplicatedTokens,
+    percentage: totals.lines > 0 ? Math.round(totals.duplicatedLines / totals.lines * 1000) / 10 : 0,
+    groups: totals.groups.size
+  };
+}
+
+/**
+ * Converts the totals of scopes to metrics, sorted by duplicated lines (most first), then
+ * by path
+ * @param scopes - Totals of each scope, keyed by path
+ * @returns The metrics of the scopes
+ */
+function toScopeMetrics(scopes: Map<string, Totals>): ScopeMetrics[] {
+  return Array.from(scopes.entries())
+    .map(([scopePath, totals]) => ({ path: scopePath, ...toStats(totals) }))
+    .sort((a, b) => b.duplicatedLines - a.duplicatedLines || a.path.localeCompare(b.path));
+}
+
+/**
+ * Measures how much of a project is duplicated
+ * @param projectRoot - Absolute path of the project root
+ * @param functions - Every function found in the project
+ * @param duplicates - The duplicate groups
+ * @param blocks - The duplicated blocks
+ * @returns The metrics, with absolute paths
+ */
+export function computeDuplicationMetrics(
+  projectRoot: string,
+  functions: FunctionInfo[],
+  duplicates: DuplicateFunction[],
+  blocks: DuplicateBlock[]
+): DuplicationMetrics {
+  const files = new Map<string, FileCode>();
+  const getFile = (filePath: string): FileCode => {
+    if (!files.has(filePath)) {
+      files.set(filePath, { spans: [], duplicatedSpans: [], duplicatedBlocks: [], groups: new Set() });
+    }
+    return files.get(filePath)!;
+  };
+
+  functions.forEach(func => getFile(func.filePath).spans.push(toSpan(func)));
+
+  duplicates.forEach((duplicate, index) => {
+    duplicate.occurrences.forEach(occurrence => {
+      const file = getFile(occurrence.filePath);
+      file.duplicatedSpans.push(toSpan(occurrence));
+      file.groups.add(`function:${index}`);
+    });
+  });
+
+  blocks.forEach((block, index) => {
+    block.occurrences.forEach(location => {
+      const file = getFile(location.filePath);
+      file.duplicatedBlocks.push({
+        start: [location.startLine, 1],
+        end: [location.endLine, Number.MAX_SAFE_INTEGER],
+        tokens: location.tokenCount,
+        group: `block:${index}`
+      });
+    });
+  });
+
+  // Remember which directories are packages, since most files share them
+  const isPackage = new Map<string, boolean>();
+  const getPackage = (filePath: string): string | undefined => {
+    for (let dirPath = path.dirname(filePath); ; dirPath = path.dirname(dirPath)) {
+      if (!isPackage.has(dirPath)) {
+        isPackage.set(dirPath, fs.existsSync(path.join(dirPath, 'package.json')));
+      }
+      if (isPackage.get(dirPath)) {
+        return dirPath;
+      }
+      if (dirPath === projectRoot || path.dirname(dirPath) === dirPath) {
+        return undefined;
+      }
+    }
+  };
+
+  const newTotals = (): Totals => ({ lines: 0, duplicatedLines: 0, tokens: 0, duplicatedTokens: 0, groups: new Set() });
+  const project = newTotals();
+  const packages = new Map<string, Totals>();
+  const directories = new Map<string, Totals>();
+  const fileScopes = new Map<string, Totals>();
+
+  const addTotals = (totals: Totals, file: Totals) => {
+    totals.lines += file.lines;
+    totals.duplicatedLines += file.duplicatedLines;
+    totals.tokens += file.tokens;
+    totals.duplicatedTokens += file.duplicatedTokens;
+    file.groups.forEach(group => totals.groups.add(group));
+  };
+  const addTo = (scopes: Map<string, Totals>, scopePath: string, file: Totals) => {
+    if (!scopes.has(scopePath)) {
+      scopes.set(scopePath, newTotals());
+    }
+    addTotals(scopes.get(scopePath)!, file);
+  };
+
+  files.forEach((code, filePath) => {
+    const spans = getOutermostSpans(code.spans);
+    const duplicatedSpans = getOutermostSpans(code.duplicatedSpans);
+    // Blocks in top-level code are outside of the measured code, and blocks in duplicate
+    // functions are already counted with them
+    const blocksInFunctions = code.duplicatedBlocks.filter(block => spans.some(span => containsLines(span, block)));
+    const duplicatedBlocks = getOutermostSpans(blocksInFunctions.filter(block =>
+      !duplicatedSpans.some(span => containsLines(span, block))));
+    const duplicated = [...duplicatedSpans, ...duplicatedBlocks];
+    blocksInFunctions.forEach(block => code.groups.add(block.group));
+
+    const tokens = spans.reduce((total, span) => total + span.tokens, 0);
+    const file: Totals = {
+      lines: countLines(spans.map(span => [span.start[0], span.end[0]])),
+      duplicatedLines: countLines(duplicated.map(span => [span.start[0], span.end[0]])),
+      tokens,
+      // Blocks that partly overlap share some tokens
+      duplicatedTokens: Math.min(tokens, duplicated.reduce((total, span) => total + span.tokens, 0)),
+      groups: code.groups
+    };
+
+    addTotals(project, file);
+
+    if (file.duplicatedLines > 0) {
+      fileScopes.set(filePath, file);
+    }
+
+    const packagePath = getPackage(filePath);
+    if (packagePath) {
+      addTo(packages, packagePath, file);
+    }
+
+    for (let dirPath = path.dirname(filePath); dirPath.startsWith(projectRoot + path.sep); dirPath = path.dirname(dirPath)) {
+      addTo(directories, dirPath, file);
+    }
+  });
+
+  return {
+    project: toStats(project),
+    packages: toScopeMetrics(packages),
+    directories: toScopeMetrics(directories),
+    files: toScopeMetrics(fileScopes)
+  };
+}
@@ -0,0 +1,306 @@
+/**
+ * FunctionCache
+ *
+ * Keeps the functions extracted from each file, and their hashes, on disk between runs, so
+ * files that have not changed since the last scan are not parsed again. Entries are keyed
+ * by the file's relative path and a hash of its content; a cache written by another
+ * version of the tool is discarded as a whole.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { DetectionMode, getFunctionHash } from './ConvertToHash';
+import { FunctionDetails, FunctionInfo, getFunctionDetails } from './FunctionFinder';
+import type { StatementSequence } from './BlockCloneFinder';
+import { Suppression } from './SuppressionComments';
+import { getToolVersion } from './ToolInfo';
+
+// Directory in the project root where the tool keeps its state
+export const TOOL_DIRECTORY = '.duplicate-detector';
+
+// Directory of the cache, relative to the project root
+export const CACHE_DIRECTORY = path.join(TOOL_DIRECTORY, 'cache');
+
+const CACHE_FILE = 'functions.json';
+
+// Version of the cache file format
+const CACHE_VERSION = 5;
+
+/**
+ * A function stored in the cache, with the hashes computed for it so far
+ */
+interface CachedFunction {
+  name: string;
+  content: string;
+  lineNumber: number;
+  details: FunctionDetails;
+  suppression?: Suppression;
+  hashes: Partial<Record<DetectionMode, string>>;
+}
+
+/**
+ * The statement lists of a file, as collected for the smallest blocks looked for so far
+ */
+interface CachedStatements {
+  minStatements: number;
+  sequences: Array<Omit<StatementSequence, 'filePath'>>;
+}
+
+/**
+ * The cached functions of one file
+ */
+interface CacheEntry {
+  contentHash: string;
+  functions: CachedFunction[];
+  // Only set once blocks were looked for
+  statements?: CachedStatements;
+}
+
+/**
+ * Contents of the cache file
+ */
+interface CacheFile {
+  version: number;
+  toolVersion: string;
+  files: Record<string, CacheEntry>;
+}
+
+/**
+ * How much of a scan was served from the cache
+ */
+export interface CacheStats {
+  // Files whose functions were read from the cache
+  hits: number;
+  // Files that had to be parsed
+  misses: number;
+  // Error that prevented the cache from being saved, if any
+  saveError?: string;
+}
+
+/**
+ * Hashes the content of a file
+ * @param content - The file content
+ * @returns The SHA-256 hash of the content
+ */
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * On-disk cache of the functions extracted from each file of a project
+ */
+export class FunctionCache {
+  private projectRoot: string;
+  private entries = new Map<string, CacheEntry>();
+  private usedPaths = new Set<string>();
+  private dirty = false;
+  private stats: CacheStats = { hits: 0, misses: 0 };
+
+  constructor(projectRoot: string) {
+    this.projectRoot = projectRoot;
+    this.load();
+  }
+
+  /**
+   * Gets the path of the cache file
+   * @returns Absolute path of the cache file
+   */
+  private getCacheFilePath(): string {
+    return path.join(this.projectRoot, CACHE_DIRECTORY, CACHE_FILE);
+  }
+
+  /**
+   * Gets the key of a file within the cache
+   * @param filePath - Absolute path of the file
+   * @returns The relative, forward-slash path of the file
+   */
+  private getKey(filePath: string): string {
+    return path.relative(this.projectRoot, filePath).replace(/\\/g, '/');
+  }
+
+  /**
+   * Loads the cache file. A missing, unreadable or outdated cache starts out empty.
+   */
+  private load(): void {
+    let cache: CacheFile;
+    try {
+      cache = JSON.parse(fs.readFileSync(this.getCacheFilePath(), 'utf-8'));
+    } catch {
+      return;
+    }
+
+    if (cache.version !== CACHE_VERSION || cache.toolVersion !== getToolVersion() || !cache.files) {
+      return;
+    }
+
+    Object.entries(cache.files).forEach(([key, entry]) => this.entries.set(key, entry));
+  }
+
+  /**
+   * Gets the cached functions of a file, if its content has not changed
+   * @param filePath - Absolute path of the file
+   * @param content - Current content of the file
+   * @returns Array of function information, or undefined if the file must be parsed
+   */
+  public getFunctions(filePath: string, content: string): FunctionInfo[] | undefined {
+    const key = this.getKey(filePath);
+    const entry = this.entries.get(key);
+    this.usedPaths.add(key);
+
+    if (!entry || entry.contentHash !== hashContent(content)) {
+      this.stats.misses++;
+      return undefined;
+    }
+
+    this.stats.hits++;
+    return entry.functions.map(func => ({
+      name: func.name,
+      content: func.content,
+      filePath,
+      lineNumber: func.lineNumber,
+      ...func.details,
+      ...(func.suppression && { suppression: func.suppression })
+    }));
+  }
+
+  /**
+   * Stores the functions parsed from a file
+   * @param filePath - Absolute path of the file
+   * @param content - Content the functions were parsed from
+   * @param functions - The functions found in the file
+   * @param mode - The detection mode of the given hashes
+   * @param hashes - Hash of each function, when already computed
+   */
+  public setFunctions(
+    filePath: string,
+    content: string,
+    functions: FunctionInfo[],
+    mode?: DetectionMode,
+    hashes?: string[]
+  ): void {
+    const key = this.getKey(filePath);
+    this.usedPaths.add(key);
+    this.entries.set(key, {
+      contentHash: hashContent(content),
+      functions: functions.map((func, index) => ({
+        name: func.name,
+        content: func.content,
+        lineNumber: func.lineNumber,
+        details: getFunctionDetails(func),
+        suppression: func.suppression,
+        hashes: mode && hashes ? { [mode]: hashes[index] } : {}
+      }))
+    });
+    this.dirty = true;
+  }
+
+  /**
+   * Gets the hash of a cached function, computing and storing it on first use
+   * @param filePath - Absolute path of the file
+   * @param index - Index of the function among the file's functions
+   * @param mode - The detection mode of the hash
+   * @returns The hash of the function
+   */
+  public getFunctionHash(filePath: string, index: number, mode: DetectionMode): string {
+    const func = this.entries.get(this.getKey(filePath))!.functions[index];
+
+    let hash = func.hashes[mode];
+    if (hash === undefined) {
+      hash = getFunctionHash(func.content, mode);
+      func.hashes[mode] = hash;
+      this.dirty = true;
+    }
+
+    return hash;
+  }
+
+  /**
+   * Gets the cached statement lists of a file whose functions were read from the cache
+   * @param filePath - Absolute path of the file
+   * @param minStatements - Minimum number of statements in a block
+   * @returns The statement lists long enough to hold a block, or undefined if they were not
+   * collected for blocks this small
+   */
+  public getStatementSequences(filePath: string, minStatements: number): StatementSequence[] | undefined {
+    const statements = this.entries.get(this.getKey(filePath))!.statements;
+    if (!statements || statements.minStatements > minStatements) {
+      return undefined;
+    }
+
+    return statements.sequences
+      .filter(sequence => sequence.hashes.length >= minStatements)
+      .map(sequence => ({ filePath, ...sequence }));
+  }
+
+  /**
+   * Stores the statement lists of a file whose functions are cached
+   * @param filePath - Absolute path of the file
+   * @param minStatements - Minimum number of statements in a block the lists were collected for
+   * @param sequences - The statement lists long enough to hold a block
+   */
+  public setStatementSequences(filePath: string, minStatements: number, sequences: StatementSequence[]): void {
+    this.entries.get(this.getKey(filePath))!.statements = {
+      minStatements,
+      sequences: sequences.map(sequence => ({
+        hashes: sequence.hashes,
+        startLines: sequence.startLines,
+        endLines: sequence.endLines,
+        tokenCounts: sequence.tokenCounts
+      }))
+    };
+    this.dirty = true;
+  }
+
+  /**
+   * Saves the cache if anything changed, dropping files that were not part of this scan
+   * @returns Statistics about how much of the scan was served from the cache
+   */
+  public save(): CacheStats {
+    if (this.entries.size !== this.usedPaths.size) {
+      this.entries.forEach((_, key) => {
+        if (!this.usedPaths.has(key)) {
+          this.entries.delete(key);
+        }
+      });
+      this.dirty = true;
+    }
+
+    if (this.dirty) {
+      const cache: CacheFile = {
+        version: CACHE_VERSION,
+        toolVersion: getToolVersion(),
+        files: Object.fromEntries(this.entries)
+      };
+
+      try {
+        // Write to a temporary file first so an interrupted run never leaves a truncated cache
+        const cacheFilePath = this.getCacheFilePath();
+        const temporaryPath = `${cacheFilePath}.${process.pid}.tmp`;
+        fs.mkdirSync(path.dirname(cacheFilePath), { recursive: true });
+        fs.writeFileSync(temporaryPath, JSON.stringify(cache));
+        fs.renameSync(temporaryPath, cacheFilePath);
+        this.dirty = false;
+      } catch (error) {
+        this.stats.saveError = String(error);
+      }
+    }
+
+    return { ...this.stats };
+  }
+}
+
+/**
+ * Deletes the cache of a project
+ * @param projectRoot - The root directory of the project
+ * @returns true if a cache existed and was deleted
+ */
+export function clearCache(projectRoot: string): boolean {
+  const cacheDirectory = path.join(projectRoot, CACHE_DIRECTORY);
+  if (!fs.existsSync(cacheDirectory)) {
+    return false;
+  }
+
+  fs.rmSync(cacheDirectory, { recursive: true, force: true });
+  return true;
+}
@@ -0,0 +1,104 @@
+/**
+ * FunctionFilter
+ *
+ * Leaves trivial functions out of duplicate detection. Identical one-liners such as empty
+ * `() => {}` handlers, getters and `return this.x` methods are everywhere, and grouping
+ * them only buries the duplicates worth fixing. Functions below the size thresholds or of
+ * an excluded kind are dropped before grouping; groups with too few occurrences are
+ * dropped after it.
+ */
+
+import { FunctionDetails, FunctionKind } from './FunctionFinder';
+import { DuplicateFunction } from './ReportModel';
+
+// Occurrences a group needs to be a duplicate at all
+export const DEFAULT_MIN_OCCURRENCES = 2;
+
+/**
+ * Which functions and groups are reported
+ */
+export interface FunctionFilter {
+  // Smallest functions that are compared (each defaults to 0)
+  minLines?: number;
+  minTokens?: number;
+  minStatements?: number;
+  // Kinds of functions that are not compared
+  excludeKinds?: FunctionKind[];
+  // Fewest occurrences of a reported group (defaults to 2)
+  minOccurrences?: number;
+}
+
+/**
+ * How many candidates a filter left out
+ */
+export interface FilterStats {
+  // Functions below the size thresholds or of an excluded kind
+  functions: number;
+  // Groups with fewer occurrences than the minimum
+  groups: number;
+}
+
+/**
+ * Checks if a function is compared with the others
+ * @param func - The function
+ * @param filter - The filter
+ * @returns true if the function meets every threshold and is not of an excluded kind
+ */
+export function isCandidate(func: FunctionDetails, filter: FunctionFilter): boolean {
+  return func.lineCount >= (filter.minLines ?? 0) &&
+    func.tokenCount >= (filter.minTokens ?? 0) &&
+    func.statementCount >= (filter.minStatements ?? 0) &&
+    !(filter.excludeKinds ?? []).includes(func.kind);
+}
+
+/**
+ * Drops the groups with fewer occurrences than the filter's minimum
+ * @param groups - The duplicate groups
+ * @param filter - The filter
+ * @returns The groups with enough occurrences
+ */
+export function filterGroups(groups: DuplicateFunction[], filter: FunctionFilter): DuplicateFunction[] {
+  const minOccurrences = filter.minOccurrences ?? DEFAULT_MIN_OCCURRENCES;
+  return groups.filter(group => group.occurrences.length >= minOccurrences);
+}
+
+/**
+ * Describes the thresholds and exclusions of a filter
+ * @param filter - The filter
+ * @returns Description such as "fewer than 3 lines, getters, setters", or an empty string
+ * when the filter leaves every function in
+ */
+export function describeFunctionFilter(filter: FunctionFilter): string {
+  const parts: string[] = [];
+  if (filter.minLines) {
+    parts.push(`fewer than ${filter.minLines} lines`);
+  }
+  if (filter.minTokens) {
+    parts.push(`fewer than ${filter.minTokens} tokens`);
+  }
+  if (filter.minStatements) {
+    parts.push(`fewer than ${filter.minStatements} statements`);
+  }
+  (filter.excludeKinds ?? []).forEach(kind => parts.push(kind === 'arrow' ? 'arrow functions' : `${kind}s`));
+
+  return parts.join(', ');
+}
+
+/**
+ * Describes what a filter left out
+ * @param filter - The filter
+ * @param stats - The number of functions and groups left out
+ * @returns Description such as "Left out 40 functions (fewer than 3 lines) and 2 groups
+ * with fewer than 3 occurrences", or an empty string when nothing was left out
+ */
+export function describeFilterStats(filter: FunctionFilter, stats: FilterStats): string {
+  const parts: string[] = [];
+  if (stats.functions > 0) {
+    parts.push(`${stats.functions} functions (${describeFunctionFilter(filter)})`);
+  }
+  if (stats.groups > 0) {
+    parts.push(`${stats.groups} groups with fewer than ${filter.minOccurrences ?? DEFAULT_MIN_OCCURRENCES} occurrences`);
+  }
+
+  return parts.length > 0 ? `Left out ${parts.join(' and ')}` : '';
+}
@@ -2,29 +2,270 @@
  * FunctionFinder
  * 
  * A module to parse a single TypeScript or JavaScript file and locate function declarations.
- * Supports .ts, .tsx, .js, and .jsx file extensions.
+ * Supports the extensions in DEFAULT_EXTENSIONS, including the scripts of Vue, Svelte and
+ * Astro components.
  */
 
 import fs from 'fs';
 import path from 'path';
 import * as ts from 'typescript';
+import { Suppression, findFileSuppressions, getSuppression } from './SuppressionComments';
+import { forEachToken } from './StructuralNormalizer';
+import { COMPONENT_EXTENSIONS, createScriptSourceFile } from './ComponentScripts';
+
+/**
+ * The syntax a function is written in. Function expressions are functions; methods,
+ * accessors and constructors of object literals are the same kinds as those of classes.
+ */
+export type FunctionKind = 'function' | 'arrow' | 'method' | 'getter' | 'setter' | 'constructor';
+
+export const FUNCTION_KINDS: FunctionKind[] = ['function', 'arrow', 'method', 'getter', 'setter', 'constructor'];
+
+/**
+ * Where a function is and what kind of function it is
+ */
+export interface FunctionDetails {
+  // Name including the enclosing namespaces, classes, objects and functions (e.g. UserService.save)
+  qualifiedName: string;
+  // 1-based lines and columns of the first and last character of the function
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  lineCount: number;
+  // Number of tokens, not counting comments
+  tokenCount: number;
+  // Number of statements in the body, including those of nested blocks and functions; an
+  // arrow function returning an expression has one
+  statementCount: number;
+  kind: FunctionKind;
+  // Whether the function can be used from other modules: an exported declaration, a
+  // CommonJS export, or a public member of an exported class or object
+  exported: boolean;
+  async: boolean;
+  generator: boolean;
+}
 
 // Interface for function information
-export interface FunctionInfo {
+export interface FunctionInfo extends FunctionDetails {
   name: string;
   content: string;
   filePath: string;
   lineNumber: number;
+  // Set when a comment directive marks the function as an intentional duplicate
+  suppression?: Suppression;
 }
 
+// Nodes that pass whether they are exported on to the nodes inside them
+const EXPORT_CONTEXT_KINDS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.ModuleDeclaration,
+  ts.SyntaxKind.ModuleBlock,
+  ts.SyntaxKind.VariableDeclarationList,
+  ts.SyntaxKind.ClassExpression,
+  ts.SyntaxKind.ObjectLiteralExpression,
+  ts.SyntaxKind.ParenthesizedExpression,
+  ts.SyntaxKind.AsExpression,
+  ts.SyntaxKind.SatisfiesExpression,
+  ts.SyntaxKind.BinaryExpression
+]);
+
+// Extensions of the files scanned when walking a directory, unless others are given
+export const DEFAULT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', ...COMPONENT_EXTENSIONS];
+
 /**
- * Checks if a file is a TypeScript or JavaScript file
+ * Checks if a file is a TypeScript or JavaScript file, or a single-file component with scripts
  * @param filePath - Path to the file
- * @returns Boolean indicating if the file is a TypeScript or JavaScript file
+ * @param extensions - The extensions of the files to accept (defaults to every supported one)
+ * @returns Boolean indicating if the file is a TypeScript or JavaScript file, or a Vue,
+ * Svelte or Astro component, with one of the extensions
+ */
+export function isTsJsFile(filePath: string, extensions: string[] = DEFAULT_EXTENSIONS): boolean {
+  return extensions.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Checks if an expression is a function that can be extracted
+ * @param expression - The expression to check
+ * @returns true if the expression is an arrow function or function expression
+ */
+function isFunctionValue(expression: ts.Expression | undefined): boolean {
+  return !!expression && (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression));
+}
+
+/**
+ * Gets the name of a class or object literal member as written in the source
+ * @param name - The name of the member
+ * @param sourceFile - The source file containing the member
+ * @returns The identifier, private name (#name) or string, or the source text of a computed name
+ */
+function getMemberName(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) ||
+      ts.isNumericLiteral(name) || ts.isNoSubstitutionTemplateLiteral(name)) {
+    return name.text;
+  }
+
+  return name.getText(sourceFile);
+}
+
+/**
+ * Gets the details of a function without its name, content and location
+ * @param func - The function
+ * @returns The details of the function
+ */
+export function getFunctionDetails(func: FunctionDetails): FunctionDetails {
+  return {
+    qualifiedName: func.qualifiedName,
+    startLine: func.startLine,
+    startColumn: func.startColumn,
+    endLine: func.endLine,
+    endColumn: func.endColumn,
+    lineCount: func.lineCount,
+    tokenCount: func.tokenCount,
+    statementCount: func.statementCount,
+    kind: func.kind,
+    exported: func.exported,
+    async: func.async,
+    generator: func.generator
+  };
+}
+
+/**
+ * Checks if a node has the export modifier
+ * @param node - The node to check
+ * @returns true if the node is declared with `export`
+ */
+function hasExportModifier(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) &&
+    !!ts.getModifiers(node)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+/**
+ * Checks if a class member is hidden from code outside the class
+ * @param member - The class member
+ * @returns true if the member is private or has a private name (#name)
+ */
+function isPrivateMember(member: ts.ClassElement): boolean {
+  return (!!member.name && ts.isPrivateIdentifier(member.name)) ||
+    (ts.getCombinedModifierFlags(member as ts.Declaration) & ts.ModifierFlags.Private) !== 0;
+}
+
+/**
+ * Checks if an expression is `exports`, `module.exports` or a property of either
+ * @param expression - The expression to check
+ * @returns true if assigning to the expression exports a value from a CommonJS module
+ */
+function isCommonJsExportTarget(expression: ts.Expression): boolean {
+  if (ts.isIdentifier(expression)) {
+    return expression.text === 'exports';
+  }
+
+  if (!ts.isPropertyAccessExpression(expression)) {
+    return false;
+  }
+
+  if (ts.isIdentifier(expression.expression) && expression.expression.text === 'module') {
+    return expression.name.text === 'exports';
+  }
+
+  return isCommonJsExportTarget(expression.expression);
+}
+
+/**
+ * Collects the local names a module exports in export lists (`export { name }`) and
+ * default exports (`export default name`)
+ * @param sourceFile - The parsed file
+ * @returns Set of exported local names
+ */
+function collectExportedNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+
+  sourceFile.statements.forEach(statement => {
+    if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier &&
+        statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      statement.exportClause.elements.forEach(element => {
+        const localName = element.propertyName ?? element.name;
+        if (ts.isIdentifier(localName)) {
+          names.add(localName.text);
+        }
+      });
+    } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+      names.add(statement.expression.text);
+    }
+  });
+
+  return names;
+}
+
+/**
+ * Gets the exported name of a CommonJS export assignment such as
+ * `exports.name = () => {}` or `module.exports.name = function() {}`
+ * @param expression - The expression of an expression statement
+ * @returns The exported name, or undefined if the expression does not export a function
+ */
+function getExportAssignmentName(expression: ts.Expression): string | undefined {
+  if (!ts.isBinaryExpression(expression) ||
+      expression.operatorToken.kind !== ts.SyntaxKind.EqualsToken ||
+      !isFunctionValue(expression.right) ||
+      !ts.isPropertyAccessExpression(expression.left)) {
+    return undefined;
+  }
+
+  const target = expression.left.expression;
+  const isExports = ts.isIdentifier(target) && target.text === 'exports';
+  const isModuleExports = ts.isPropertyAccessExpression(target) &&
+    ts.isIdentifier(target.expression) &&
+    target.expression.text === 'module' &&
+    target.name.text === 'exports';
+
+  return isExports || isModuleExports ? expression.left.name.text : undefined;
+}
+
+/**
+ * Gets the kind of a function
+ * @param body - The function node
+ * @returns The kind of the function
+ */
+function getFunctionKind(body: ts.SignatureDeclaration): FunctionKind {
+  switch (body.kind) {
+    case ts.SyntaxKind.ArrowFunction:
+      return 'arrow';
+    case ts.SyntaxKind.MethodDeclaration:
+      return 'method';
+    case ts.SyntaxKind.GetAccessor:
+      return 'getter';
+    case ts.SyntaxKind.SetAccessor:
+      return 'setter';
+    case ts.SyntaxKind.Constructor:
+      return 'constructor';
+    default:
+      return 'function';
+  }
+}
+
+/**
+ * Counts the statements in the body of a function
+ * @param body - The function node
+ * @returns Number of statements, not counting the blocks that hold them
  */
-export function isTsJsFile(filePath: string): boolean {
-  const ext = path.extname(filePath).toLowerCase();
-  return ext === '.ts' || ext === '.js' || ext === '.tsx' || ext === '.jsx';
+function countStatements(body: ts.SignatureDeclaration): number {
+  const functionBody = (body as ts.FunctionLikeDeclaration).body;
+  if (!functionBody) {
+    return 0;
+  }
+  if (!ts.isBlock(functionBody)) {
+    return 1;
+  }
+
+  let count = 0;
+  const visit = (node: ts.Node): void => {
+    if (ts.isStatement(node) && !ts.isBlock(node)) {
+      count++;
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(functionBody, visit);
+
+  return count;
 }
 
 /**
@@ -33,105 +274,259 @@ export function isTsJsFile(filePath: string): boolean {
  * @returns Array of function information
  */
 export function extractFunctions(filePath: string): FunctionInfo[] {
-  const content = fs.readFileSync(filePath, 'utf-8');
+  return extractFunctionsFromContent(filePath, fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Extracts function declarations from the source text of a file using TypeScript's AST
+ * @param filePath - Path to the file, recorded in the results
+ * @param content - Source text of the file
+ * @returns Array of function information
+ */
+export function extractFunctionsFromContent(filePath: string, content: string): FunctionInfo[] {
+  // Parse the scripts alone, for components
+  return extractFunctionsFromSourceFile(filePath, createScriptSourceFile(filePath, content));
+}
+
+/**
+ * Extracts function declarations from a parsed file
+ * @param filePath - Path to the file, recorded in the results
+ * @param sourceFile - The parsed file (of the scripts alone, for components)
+ * @returns Array of function information
+ */
+export function extractFunctionsFromSourceFile(filePath: string, sourceFile: ts.SourceFile): FunctionInfo[] {
   const functions: FunctionInfo[] = [];
 
-  // Create a source file
-  const sourceFile = ts.createSourceFile(
-    filePath,
-    content,
-    ts.ScriptTarget.Latest,
-    true
-  );
-
-  // Helper function to get line number from position
-  const getLineNumber = (pos: number): number => {
-    const lineStarts = sourceFile.getLineStarts();
-    let lineNumber = 0;
-
-    for (let i = 0; i < lineStarts.length; i++) {
-      if (pos < lineStarts[i]) {
-        lineNumber = i;
-        break;
-      }
-    }
+  // Disable directives apply to every function of the file
+  const fileSuppressions = findFileSuppressions(sourceFile);
 
-    return lineNumber > 0 ? lineNumber : 1;
-  };
+  // Names exported by export lists apply to top-level declarations
+  const exportedNames = collectExportedNames(sourceFile);
 
   // Helper function to get the text of a node
   const getNodeText = (node: ts.Node): string => {
     return node.getText(sourceFile);
   };
 
-  // Visit each node in the AST
-  function visit(node: ts.Node) {
-    let functionName: string | undefined;
-    let functionNode: ts.Node | undefined;
+  // Helper function to get the 1-based line and column of a position
+  const getPosition = (pos: number): { line: number; column: number } => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(pos);
+    return { line: line + 1, column: character + 1 };
+  };
+
+  // Helper function to count the tokens of a node
+  const countTokens = (node: ts.Node): number => {
+    let count = 0;
+    forEachToken(node, sourceFile, () => count++);
+    return count;
+  };
+
+  // Adds a function to the list
+  const addFunction = (
+    functionName: string,
+    qualifiedName: string,
+    functionNode: ts.Node,
+    body: ts.SignatureDeclaration,
+    exported: boolean,
+    contentNode: ts.Node = functionNode,
+    prefix = ''
+  ) => {
+    const start = getPosition(contentNode.getStart(sourceFile));
+    const end = getPosition(contentNode.getEnd());
+    const functionContent = prefix + getNodeText(contentNode);
+
+    const suppression = getSuppression(functionNode, sourceFile, fileSuppressions);
 
-    // Function Declaration (function name() {})
-    if (ts.isFunctionDeclaration(node) && node.name) {
-      functionName = node.name.text;
-      functionNode = node;
+    functions.push({
+      name: functionName,
+      content: functionContent,
+      filePath,
+      lineNumber: start.line,
+      qualifiedName,
+      startLine: start.line,
+      startColumn: start.column,
+      endLine: end.line,
+      // The end position is just past the last character
+      endColumn: end.column - 1,
+      lineCount: end.line - start.line + 1,
+      tokenCount: countTokens(contentNode),
+      statementCount: countStatements(body),
+      kind: getFunctionKind(body),
+      exported,
+      async: (ts.getCombinedModifierFlags(body) & ts.ModifierFlags.Async) !== 0,
+      generator: 'asteriskToken' in body && !!body.asteriskToken,
+      ...(suppression && { suppression })
+    });
+  };
+
+  // Gets the name a node adds to the qualified names of the functions inside it
+  const getScopeName = (node: ts.Node): string | undefined => {
+    if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) {
+      return node.name ? node.name.text : 'default';
     }
-    // Variable Declaration with Arrow Function or Function Expression
-    // (const name = () => {} or const name = function() {})
-    else if (ts.isVariableStatement(node)) {
-      const declaration = node.declarationList.declarations[0];
-
-      if (declaration && 
-          declaration.initializer && 
-          (ts.isArrowFunction(declaration.initializer) || 
-           ts.isFunctionExpression(declaration.initializer)) && 
-          ts.isIdentifier(declaration.name)) {
-        functionName = declaration.name.text;
-        functionNode = node;
+    if (ts.isModuleDeclaration(node)) {
+      return node.name.text;
+    }
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+      return node.name.text;
+    }
+    if (ts.isConstructorDeclaration(node)) {
+      return 'constructor';
+    }
+    if ((ts.isMethodDeclaration(node) || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node) ||
+         ts.isPropertyDeclaration(node) || ts.isPropertyAssignment(node)) && node.name) {
+      return getMemberName(node.name, sourceFile);
+    }
+    if (ts.isExportAssignment(node)) {
+      return 'default';
+    }
+    if (ts.isExpressionStatement(node)) {
+      return getExportAssignmentName(node.expression);
+    }
+    return undefined;
+  };
+
+  // Decides whether a node is exported, given whether the node containing it is
+  const isExportedNode = (node: ts.Node, parentExported: boolean): boolean => {
+    const parent = node.parent;
+
+    if (ts.isSourceFile(parent) || ts.isModuleBlock(parent)) {
+      if (!parentExported) {
+        return false;
+      }
+      if (hasExportModifier(node) || ts.isExportAssignment(node)) {
+        return true;
       }
+      if (ts.isExpressionStatement(node)) {
+        return ts.isBinaryExpression(node.expression) &&
+          node.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+          isCommonJsExportTarget(node.expression.left);
+      }
+      const name = ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) ? node.name : undefined;
+      return ts.isSourceFile(parent) && !!name && exportedNames.has(name.text);
+    }
+
+    if (ts.isVariableDeclaration(node)) {
+      const statement = node.parent.parent;
+      return parentExported ||
+        (ts.isSourceFile(statement.parent) && ts.isIdentifier(node.name) && exportedNames.has(node.name.text));
+    }
+    if (ts.isClassElement(node)) {
+      return parentExported && !isPrivateMember(node);
     }
-    // Method Declaration in a class (methodName() {})
-    else if (ts.isMethodDeclaration(node) && node.name && ts.isIdentifier(node.name)) {
-      functionName = node.name.text;
-      functionNode = node;
+    if (ts.isObjectLiteralElement(node) || EXPORT_CONTEXT_KINDS.has(node.kind)) {
+      return parentExported;
     }
 
-    // If we found a function, add it to our list
-    if (functionName && functionNode) {
-      const startPos = functionNode.getStart(sourceFile);
-      const lineNumber = getLineNumber(startPos);
-      const functionContent = getNodeText(functionNode);
+    return false;
+  };
+
+  // Visit each node in the AST
+  function visit(node: ts.Node, scope: string[], parentExported: boolean) {
+    const exported = isExportedNode(node, parentExported);
+    const scopeName = getScopeName(node);
+    const qualify = (name: string) => [...scope, name].join('.');
+
+    // Function Declaration (function name() {} or export default function () {}); overload
+    // and ambient signatures have no body and are left out, here and for members below
+    if (ts.isFunctionDeclaration(node) && node.body) {
+      addFunction(node.name ? node.name.text : 'default', qualify(scopeName!), node, node, exported);
+    }
+    // Variable Declarations with Arrow Functions or Function Expressions
+    // (const name = () => {}, other = function() {})
+    else if (ts.isVariableStatement(node)) {
+      const declarations = node.declarationList.declarations;
+
+      declarations.forEach(declaration => {
+        if (!ts.isIdentifier(declaration.name) || !isFunctionValue(declaration.initializer)) {
+          return;
+        }
+
+        const name = declaration.name.text;
+        const body = declaration.initializer as ts.SignatureDeclaration;
+        const declarationExported = isExportedNode(declaration, exported);
 
-      functions.push({
-        name: functionName,
-        content: functionContent,
-        filePath,
-        lineNumber
+        if (declarations.length === 1) {
+          addFunction(name, qualify(name), node, body, declarationExported);
+        } else {
+          // Give each declarator the keywords of the statement, so it reads (and hashes)
+          // like a statement of its own
+          const prefix = sourceFile.text.slice(node.getStart(sourceFile), declarations[0].getStart(sourceFile));
+          addFunction(name, qualify(name), node, body, declarationExported, declaration, prefix);
+        }
       });
     }
+    // Assignments to exports (exports.name = () => {} or module.exports.name = function() {})
+    else if (ts.isExpressionStatement(node)) {
+      const exportName = getExportAssignmentName(node.expression);
+      if (exportName) {
+        const body = (node.expression as ts.BinaryExpression).right as ts.SignatureDeclaration;
+        addFunction(exportName, qualify(exportName), node, body, exported);
+      }
+    }
+    // Default export of an expression (export default () => {})
+    else if (ts.isExportAssignment(node) && !node.isExportEquals && isFunctionValue(node.expression)) {
+      addFunction('default', qualify('default'), node, node.expression as ts.SignatureDeclaration, exported);
+    }
+    // Methods, accessors and constructors of classes and object literals
+    // (methodName() {}, get value() {}, constructor() {})
+    else if ((ts.isMethodDeclaration(node) ||
+              ts.isGetAccessorDeclaration(node) ||
+              ts.isSetAccessorDeclaration(node)) && node.body) {
+      const accessor = ts.isGetAccessorDeclaration(node) ? 'get ' : ts.isSetAccessorDeclaration(node) ? 'set ' : '';
+      addFunction(accessor + scopeName!, qualify(scopeName!), node, node, exported);
+    }
+    else if (ts.isConstructorDeclaration(node) && node.body) {
+      addFunction('constructor', qualify('constructor'), node, node, exported);
+    }
+    // Functions assigned to class properties or object literal properties
+    // (handleClick = () => {} or name: function() {})
+    else if ((ts.isPropertyDeclaration(node) || ts.isPropertyAssignment(node)) && isFunctionValue(node.initializer)) {
+      addFunction(scopeName!, qualify(scopeName!), node, node.initializer as ts.SignatureDeclaration, exported);
+    }
 
     // Continue traversing the AST
-    ts.forEachChild(node, visit);
+    const childScope = scopeName === undefined ? scope : [...scope, scopeName];
+    ts.forEachChild(node, child => visit(child, childScope, exported));
   }
 
   // Start the traversal
-  visit(sourceFile);
+  ts.forEachChild(sourceFile, child => visit(child, [], true));
 
   return functions;
 }
 
+/**
+ * Finds the node of a function extracted from a file, in another parse of the same file
+ * @param sourceFile - The parsed file
+ * @param details - The details of the function, with its start and end
+ * @returns The outermost node spanning exactly the function, or undefined if there is none
+ */
+export function findFunctionContentNode(sourceFile: ts.SourceFile, details: FunctionDetails): ts.Node | undefined {
+  const start = sourceFile.getPositionOfLineAndCharacter(details.startLine - 1, details.startColumn - 1);
+  const end = sourceFile.getPositionOfLineAndCharacter(details.endLine - 1, details.endColumn - 1) + 1;
+
+  const visit = (node: ts.Node): ts.Node | undefined => {
+    const nodeStart = node.getStart(sourceFile);
+    if (nodeStart > start || node.getEnd() < end) {
+      return undefined;
+    }
+    return nodeStart === start && node.getEnd() === end ? node : ts.forEachChild(node, visit);
+  };
+
+  return ts.forEachChild(sourceFile, visit);
+}
+
 /**
  * Parses a file and extracts function declarations
  * @param filePath - Path to the file
  * @returns Array of function information or null if the file is not a TypeScript or JavaScript file
+ * @throws Error if the file cannot be read or parsed, for the caller to report
  */
 export function parseFile(filePath: string): FunctionInfo[] | null {
   if (!isTsJsFile(filePath)) {
     return null;
   }
 
-  try {
-    return extractFunctions(filePath);
-  } catch (error) {
-    console.error(`Error parsing file ${filePath}:`, error);
-    return [];
-  }
+  return extractFunctions(filePath);
 }
@@ -0,0 +1,560 @@
+/**
+ * HtmlReport
+ *
+ * Builds a self-contained HTML report that works offline: collapsible duplicate groups,
+ * syntax-highlighted source for every occurrence, side-by-side diffs for groups whose
+ * members differ, and client-side filtering by directory and function name.
+ */
+
+import * as ts from 'typescript';
+import { DuplicateBlock } from './BlockCloneFinder';
+import {
+  DuplicateFunction,
+  DuplicateOccurrence,
+  ReportData,
+  SuppressedOccurrence,
+  describeFunction,
+  describeLines,
+  describeMatch
+} from './ReportModel';
+import { NameCollision } from './NameCollisionFinder';
+import { describeFilterStats } from './FunctionFilter';
+import { DuplicationMetrics, ScopeMetrics, TOP_SCOPE_COUNT, describeDuplication } from './DuplicationMetrics';
+import { Workspace, getPackageMatrix } from './Workspaces';
+import { describeReference } from './ReferenceLibrary';
+import { dedent, diffLines, hasChanges, toSideBySide, DiffLine } from './TextDiff';
+import { TOOL_NAME } from './ToolInfo';
+
+/**
+ * A piece of source shown in the report
+ */
+interface Snippet {
+  filePath: string;
+  label: string;
+  content?: string;
+}
+
+const STYLES = `
+  :root { --bg: #fff; --fg: #1f2328; --muted: #656d76; --border: #d0d7de; --panel: #f6f8fa;
+          --kw: #cf222e; --str: #0a3069; --num: #0550ae; --com: #6e7781;
+          --add: #dafbe1; --del: #ffebe9; }
+  @media (prefers-color-scheme: dark) {
+    :root { --bg: #0d1117; --fg: #e6edf3; --muted: #8d96a0; --border: #30363d; --panel: #161b22;
+            --kw: #ff7b72; --str: #a5d6ff; --num: #79c0ff; --com: #8b949e;
+            --add: #12361f; --del: #4c1d1d; }
+  }
+  body { margin: 0; padding: 24px; background: var(--bg); color: var(--fg);
+         font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; }
+  h1 { margin-top: 0; }
+  .meta { color: var(--muted); margin-bottom: 16px; }
+  .filters { display: flex; gap: 12px; margin-bottom: 16px; position: sticky; top: 0; padding: 8px 0; background: var(--bg); }
+  .filters input, .filters select { padding: 4px 8px; border: 1px solid var(--border); border-radius: 6px;
+                                    background: var(--bg); color: var(--fg); }
+  details.group { border: 1px solid var(--border); border-radius: 6px; margin-bottom: 12px; }
+  details.group > summary { padding: 8px 12px; cursor: pointer; background: var(--panel); }
+  details.group[open] > summary { border-bottom: 1px solid var(--border); }
+  .group-body { padding: 8px 12px; }
+  .match { color: var(--muted); margin-left: 8px; }
+  .location { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; margin: 8px 0 4px; }
+  pre, table.diff { font: 12px/1.45 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+  pre { margin: 0; padding: 8px; overflow-x: auto; background: var(--panel); border-radius: 6px; }
+  table.diff { width: 100%; border-collapse: collapse; table-layout: fixed; margin-bottom: 8px; }
+  table.diff th { text-align: left; font-weight: normal; color: var(--muted); padding: 4px; }
+  table.diff td { vertical-align: top; white-space: pre-wrap; word-break: break-all; padding: 0 4px; }
+  table.diff td.line { width: 3em; text-align: right; color: var(--muted); user-select: none; }
+  table.diff td.removed { background: var(--del); }
+  table.diff td.added { background: var(--add); }
+  .kw { color: var(--kw); } .str { color: var(--str); } .num { color: var(--num); } .com { color: var(--com); font-style: italic; }
+  table.metrics { border-collapse: collapse; margin-bottom: 16px; }
+  table.metrics th, table.metrics td { padding: 4px 12px 4px 0; text-align: right; border-bottom: 1px solid var(--border); }
+  table.metrics th:first-child, table.metrics td:first-child { text-align: left; }
+  .hidden { display: none; }
+  .empty { color: var(--muted); }
+`;
+
+const SCRIPT = `
+  (function () {
+    var nameFilter = document.getElementById('name-filter');
+    var directoryFilter = document.getElementById('directory-filter');
+    var count = document.getElementById('visible-count');
+
+    function applyFilters() {
+      var name = nameFilter.value.trim().toLowerCase();
+      var directory = directoryFilter.value;
+      var visible = 0;
+
+      document.querySelectorAll('details.group').forEach(function (group) {
+        var matchesName = !name || group.getAttribute('data-name').toLowerCase().indexOf(name) !== -1;
+        var matchesDirectory = !directory || group.getAttribute('data-directories').split('|').indexOf(directory) !== -1;
+        var show = matchesName && matchesDirectory;
+
+        group.classList.toggle('hidden', !show);
+        if (show) {
+          visible++;
+        }
+      });
+
+      count.textContent = visible + ' shown';
+    }
+
+    nameFilter.addEventListener('input', applyFilters);
+    directoryFilter.addEventListener('change', applyFilters);
+    applyFilters();
+  })();
+`;
+
+/**
+ * Escapes text for use in HTML content or attributes
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Gets the CSS class used to highlight a token
+ * @param kind - The token kind
+ * @returns The CSS class, or undefined for unhighlighted tokens
+ */
+function getTokenClass(kind: ts.SyntaxKind): string | undefined {
+  if (kind >= ts.SyntaxKind.FirstKeyword && kind <= ts.SyntaxKind.LastKeyword) {
+    return 'kw';
+  }
+
+  switch (kind) {
+    case ts.SyntaxKind.StringLiteral:
+    case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+    case ts.SyntaxKind.TemplateHead:
+    case ts.SyntaxKind.TemplateMiddle:
+    case ts.SyntaxKind.TemplateTail:
+    case ts.SyntaxKind.RegularExpressionLiteral:
+      return 'str';
+    case ts.SyntaxKind.NumericLiteral:
+    case ts.SyntaxKind.BigIntLiteral:
+      return 'num';
+    case ts.SyntaxKind.SingleLineCommentTrivia:
+    case ts.SyntaxKind.MultiLineCommentTrivia:
+      return 'com';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Syntax-highlights source code with TypeScript's scanner
+ * @param code - The source code
+ * @returns HTML for each line of the code
+ */
+function highlightLines(code: string): string[] {
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, ts.LanguageVariant.Standard, code);
+  const lines: string[] = [''];
+  // Brace depth inside each open template literal substitution
+  const templateDepths: number[] = [];
+  let previousKind = ts.SyntaxKind.Unknown;
+
+  const append = (text: string, className?: string) => {
+    text.split('\n').forEach((segment, index) => {
+      if (index > 0) {
+        lines.push('');
+      }
+      if (segment.length > 0) {
+        const escaped = escapeHtml(segment);
+        lines[lines.length - 1] += className ? `<span class="${className}">${escaped}</span>` : escaped;
+      }
+    });
+  };
+
+  let kind = scanner.scan();
+  while (kind !== ts.SyntaxKind.EndOfFileToken) {
+    if (kind === ts.SyntaxKind.OpenBraceToken && templateDepths.length > 0) {
+      templateDepths[templateDepths.length - 1]++;
+    } else if (kind === ts.SyntaxKind.CloseBraceToken && templateDepths.length > 0) {
+      if (templateDepths[templateDepths.length - 1] === 0) {
+        templateDepths.pop();
+        kind = scanner.reScanTemplateToken(false);
+      } else {
+        templateDepths[templateDepths.length - 1]--;
+      }
+    } else if (kind === ts.SyntaxKind.SlashToken || kind === ts.SyntaxKind.SlashEqualsToken) {
+      // A slash starts a regular expression unless it follows a value
+      const followsValue = previousKind === ts.SyntaxKind.Identifier ||
+        previousKind === ts.SyntaxKind.NumericLiteral ||
+        previousKind === ts.SyntaxKind.StringLiteral ||
+        previousKind === ts.SyntaxKind.CloseParenToken ||
+        previousKind === ts.SyntaxKind.CloseBracketToken ||
+        previousKind === ts.SyntaxKind.ThisKeyword;
+      if (!followsValue) {
+        kind = scanner.reScanSlashToken();
+      }
+    }
+
+    if (kind === ts.SyntaxKind.TemplateHead || kind === ts.SyntaxKind.TemplateMiddle) {
+      templateDepths.push(0);
+    }
+
+    append(scanner.getTokenText(), getTokenClass(kind));
+
+    if (kind !== ts.SyntaxKind.WhitespaceTrivia &&
+        kind !== ts.SyntaxKind.NewLineTrivia &&
+        kind !== ts.SyntaxKind.SingleLineCommentTrivia &&
+        kind !== ts.SyntaxKind.MultiLineCommentTrivia) {
+      previousKind = kind;
+    }
+    kind = scanner.scan();
+  }
+
+  return lines;
+}
+
+/**
+ * Renders a syntax-highlighted code block
+ * @param content - The source text
+ * @returns HTML for the code block
+ */
+function renderCode(content: string): string {
+  return `<pre><code>${highlightLines(dedent(content)).join('\n')}</code></pre>`;
+}
+
+/**
+ * Renders a side-by-side diff between two snippets
+ * @param left - The snippet shown on the left
+ * @param right - The snippet shown on the right
+ * @param diff - The diff between the two snippets
+ * @returns HTML for the diff table
+ */
+function renderSideBySideDiff(left: Snippet, right: Snippet, diff: DiffLine[]): string {
+  const leftLines = highlightLines(dedent(left.content!));
+  const rightLines = highlightLines(dedent(right.content!));
+
+  const renderCell = (line: DiffLine | undefined, lines: string[], lineNumber: number | undefined): string => {
+    if (!line || lineNumber === undefined) {
+      return '<td class="line"></td><td></td>';
+    }
+    const className = line.type === 'equal' ? '' : ` class="${line.type}"`;
+    return `<td class="line">${lineNumber}</td><td${className}>${lines[lineNumber - 1] ?? ''}</td>`;
+  };
+
+  const rows = toSideBySide(diff).map(row => '<tr>' +
+    renderCell(row.left, leftLines, row.left?.oldLine) +
+    renderCell(row.right, rightLines, row.right?.newLine) +
+    '</tr>');
+
+  return '<table class="diff">' +
+    `<tr><th colspan="2">${escapeHtml(left.label)}</th><th colspan="2">${escapeHtml(right.label)}</th></tr>` +
+    rows.join('') +
+    '</table>';
+}
+
+/**
+ * Gets a file's directory and all of its ancestors, for directory filtering
+ * @param filePath - The file path relative to the project root
+ * @returns Array of directories, such as ["src", "src/utils"]
+ */
+function getDirectories(filePath: string): string[] {
+  const segments = filePath.replace(/\\/g, '/').split('/').slice(0, -1);
+  return segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+}
+
+/**
+ * Renders the body of a group: every occurrence with its code, followed by side-by-side
+ * diffs against the first occurrence for members whose source differs
+ * @param snippets - The occurrences of the group
+ * @returns HTML for the group body
+ */
+function renderGroupBody(snippets: Snippet[]): string {
+  let html = '';
+
+  snippets.forEach(snippet => {
+    html += `<div class="location">${escapeHtml(snippet.label)}</div>`;
+    html += snippet.content !== undefined ? renderCode(snippet.content) : '<p class="empty">Source not available</p>';
+  });
+
+  const [first, ...others] = snippets.filter(snippet => snippet.content !== undefined);
+  if (first) {
+    const shown = new Set<string>([dedent(first.content!)]);
+    let diffs = '';
+
+    others.forEach(other => {
+      const text = dedent(other.content!);
+      if (shown.has(text)) {
+        return;
+      }
+      shown.add(text);
+
+      const diff = diffLines(dedent(first.content!), text);
+      if (hasChanges(diff)) {
+        diffs += renderSideBySideDiff(first, other, diff);
+      }
+    });
+
+    if (diffs) {
+      html += `<h4>Differences</h4>${diffs}`;
+    }
+  }
+
+  return html;
+}
+
+/**
+ * Gets the label of a function occurrence
+ * @param occurrence - The occurrence
+ * @returns The location and package, followed by the qualified name and details when known
+ */
+function getOccurrenceLabel(occurrence: DuplicateOccurrence | SuppressedOccurrence): string {
+  let location = `${occurrence.filePath}:${describeLines(occurrence)}`;
+  if (occurrence.package !== undefined) {
+    location += ` \u00b7 ${occurrence.package}`;
+  }
+  if (occurrence.qualifiedName === undefined) {
+    return location;
+  }
+  return `${location} \u00b7 ${occurrence.qualifiedName} (${describeFunction(occurrence)})`;
+}
+
+/**
+ * Renders a collapsible duplicate function group. A group of reimplementations of a
+ * reference function shows the reference first, so each copy is compared with it.
+ * @param duplicate - The duplicate function group
+ * @returns HTML for the group
+ */
+function renderFunctionGroup(duplicate: DuplicateFunction): string {
+  const snippets: Snippet[] = duplicate.occurrences.map(occurrence => ({
+    filePath: occurrence.filePath,
+    label: getOccurrenceLabel(occurrence),
+    content: occurrence.content
+  }));
+  if (duplicate.reference) {
+    snippets.unshift({
+      filePath: duplicate.reference.filePath,
+      label: `Import instead: ${describeReference(duplicate.reference)}`,
+      content: duplicate.reference.content
+    });
+  }
+  const directories = new Set(snippets.flatMap(snippet => getDirectories(snippet.filePath)));
+
+  return `<details class="group" data-name="${escapeHtml(duplicate.name)}" ` +
+    `data-directories="${escapeHtml(Array.from(directories).join('|'))}">` +
+    `<summary><strong>${escapeHtml(duplicate.name)}</strong>` +
+    `<span class="match">${escapeHtml(describeMatch(duplicate))} match, ${duplicate.occurrences.length} occurrences</span></summary>` +
+    `<div class="group-body">${renderGroupBody(snippets)}</div>` +
+    '</details>';
+}
+
+/**
+ * Renders a collapsible duplicated block
+ * @param block - The duplicated block
+ * @returns HTML for the block
+ */
+function renderBlockGroup(block: DuplicateBlock): string {
+  const snippets: Snippet[] = block.occurrences.map(location => ({
+    filePath: location.filePath,
+    label: `${location.filePath}:${location.startLine}-${location.endLine}`,
+    content: location.content
+  }));
+  const directories = new Set(snippets.flatMap(snippet => getDirectories(snippet.filePath)));
+
+  return `<details class="group" data-name="" data-directories="${escapeHtml(Array.from(directories).join('|'))}">` +
+    `<summary><strong>Block of ${block.statementCount} statements</strong>` +
+    `<span class="match">${escapeHtml(snippets.map(snippet => snippet.label).join(', '))}</span></summary>` +
+    `<div class="group-body">${renderGroupBody(snippets)}</div>` +
+    '</details>';
+}
+
+/**
+ * Renders a collapsible name collision, showing the first copy of each variant and how it
+ * differs from the first variant
+ * @param collision - The name collision
+ * @returns HTML for the collision
+ */
+function renderNameCollision(collision: NameCollision): string {
+  const snippets: Snippet[] = collision.variants.map(variant => {
+    const [first, ...copies] = variant.occurrences;
+    return {
+      filePath: first.filePath,
+      label: getOccurrenceLabel(first) + (copies.length > 0 ? ` (also at ${copies.map(copy =>
+        `${copy.filePath}:${copy.lineNumber}`).join(', ')})` : ''),
+      content: first.content
+    };
+  });
+  const directories = new Set(collision.variants.flatMap(variant =>
+    variant.occurrences.flatMap(occurrence => getDirectories(occurrence.filePath))));
+
+  return `<details class="group" data-name="${escapeHtml(collision.name)}" ` +
+    `data-directories="${escapeHtml(Array.from(directories).join('|'))}">` +
+    `<summary><strong>${escapeHtml(collision.name)}</strong>` +
+    `<span class="match">${collision.variants.length} different implementations</span></summary>` +
+    `<div class="group-body">${renderGroupBody(snippets)}</div>` +
+    '</details>';
+}
+
+/**
+ * Renders a collapsible occurrence suppressed by a comment directive
+ * @param occurrence - The suppressed occurrence
+ * @returns HTML for the occurrence
+ */
+function renderSuppressedOccurrence(occurrence: SuppressedOccurrence): string {
+  const label = `${occurrence.filePath}:${occurrence.lineNumber}`;
+  const matches = occurrence.matches.map(match => `${match.filePath}:${match.lineNumber}`).join(', ');
+
+  return `<details class="group" data-name="${escapeHtml(occurrence.name)}" ` +
+    `data-directories="${escapeHtml(getDirectories(occurrence.filePath).join('|'))}">` +
+    `<summary><strong>${escapeHtml(occurrence.name)}</strong>` +
+    `<span class="match">${escapeHtml(label)} &middot; ${escapeHtml(occurrence.reason ?? 'no reason given')}</span></summary>` +
+    '<div class="group-body">' +
+    `<div class="meta">Suppressed by duplicate-detector-${escapeHtml(occurrence.directive)}; duplicate of ${escapeHtml(matches)}</div>` +
+    renderGroupBody([{ filePath: occurrence.filePath, label: getOccurrenceLabel(occurrence), content: occurrence.content }]) +
+    '</div>' +
+    '</details>';
+}
+
+/**
+ * Renders a table of the scopes with the most duplicated lines
+ * @param heading - The heading of the table
+ * @param column - The heading of the path column
+ * @param scopes - The scopes, sorted by duplicated lines
+ * @returns HTML for the table, or an empty string when there are no scopes
+ */
+function renderScopeTable(heading: string, column: string, scopes: ScopeMetrics[]): string {
+  if (scopes.length === 0) {
+    return '';
+  }
+
+  const rows = scopes.slice(0, TOP_SCOPE_COUNT).map(scope =>
+    `<tr><td class="location">${escapeHtml(scope.path)}</td><td>${scope.percentage.toFixed(1)}%</td>` +
+    `<td>${scope.duplicatedLines} of ${scope.lines}</td><td>${scope.duplicatedTokens} of ${scope.tokens}</td>` +
+    `<td>${scope.groups}</td></tr>`).join('');
+
+  return `<h3>${heading}</h3>` +
+    (scopes.length > TOP_SCOPE_COUNT ? `<div class="meta">The ${TOP_SCOPE_COUNT} with the most duplicated lines, of ${scopes.length}</div>` : '') +
+    '<table class="metrics">' +
+    `<tr><th>${column}</th><th>Duplicated</th><th>Lines</th><th>Tokens</th><th>Groups</th></tr>${rows}` +
+    '</table>';
+}
+
+/**
+ * Renders the duplication metrics of the project
+ * @param metrics - The duplication metrics
+ * @returns HTML for the metrics
+ */
+function renderMetrics(metrics: DuplicationMetrics): string {
+  return '<h2>Duplication Metrics</h2>' +
+    `<p>Function code in the project is ${escapeHtml(describeDuplication(metrics.project))}.</p>` +
+    // A single package is the project itself
+    (metrics.packages.length > 1 ? renderScopeTable('Packages', 'Package', metrics.packages) : '') +
+    renderScopeTable('Directories', 'Directory', metrics.directories) +
+    renderScopeTable('Files', 'File', metrics.files);
+}
+
+/**
+ * Renders the duplicate groups shared by the packages of a workspace, as a matrix of the
+ * number of groups each pair of packages shares and a list of the groups of each pair
+ * @param workspace - The packages of the workspace and the pairs that share groups
+ * @returns HTML for the workspace
+ */
+function renderWorkspace(workspace: Workspace): string {
+  const heading = '<h2>Cross-Package Duplicates</h2>';
+  if (workspace.pairs.length === 0) {
+    return heading + `<p class="empty">No duplicate groups are shared by the ${workspace.packages.length} packages of the workspace.</p>`;
+  }
+
+  const { packages, counts } = getPackageMatrix(workspace.pairs);
+  const header = packages.map(name => `<th>${escapeHtml(name)}</th>`).join('');
+  const rows = packages.map((name, row) => {
+    const cells = counts[row].map((count, column) => `<td>${column === row ? '&ndash;' : count || ''}</td>`).join('');
+    return `<tr><td class="location">${escapeHtml(name)}</td>${cells}</tr>`;
+  }).join('');
+  const pairRows = workspace.pairs.map(pair =>
+    `<tr><td class="location">${escapeHtml(`${pair.packages[0]} and ${pair.packages[1]}`)}</td>` +
+    `<td>${pair.groups.length}</td><td>${pair.groups.join(', ')}</td></tr>`).join('');
+
+  return heading +
+    `<p>${packages.length} of the ${workspace.packages.length} packages of the workspace share duplicate groups. ` +
+    'Each cell is the number of groups with occurrences in both packages.</p>' +
+    `<table class="metrics"><tr><th></th>${header}</tr>${rows}</table>` +
+    `<table class="metrics"><tr><th>Packages</th><th>Shared groups</th><th>Group ids</th></tr>${pairRows}</table>`;
+}
+
+/**
+ * Converts report data to a self-contained HTML page
+ * @param data - The report data
+ * @returns HTML formatted string
+ */
+export function convertToHtml(data: ReportData): string {
+  const { metadata, duplicates, blocks, suppressed, nameCollisions, metrics, workspace } = data;
+
+  const directories = new Set<string>();
+  duplicates.forEach(duplicate => duplicate.occurrences.forEach(occurrence => {
+    getDirectories(occurrence.filePath).forEach(directory => directories.add(directory));
+  }));
+  blocks.forEach(block => block.occurrences.forEach(location => {
+    getDirectories(location.filePath).forEach(directory => directories.add(directory));
+  }));
+
+  const directoryOptions = Array.from(directories).sort()
+    .map(directory => `<option value="${escapeHtml(directory)}">${escapeHtml(directory)}</option>`)
+    .join('');
+
+  const filtered = describeFilterStats(metadata.filter, metadata.filtered);
+
+  let body = `<h1>Duplicate Functions Report</h1>`;
+  body += '<div class="meta">' +
+    `Generated on ${escapeHtml(new Date(metadata.generatedAt).toLocaleString())} by ${TOOL_NAME} ${escapeHtml(metadata.toolVersion)}<br>` +
+    `Project: ${escapeHtml(metadata.projectRoot)}<br>` +
+    `Mode: ${escapeHtml(metadata.mode)}${metadata.typeAware ? ', type-aware' : ''}` +
+    (metadata.similarityThreshold !== undefined ? ` (similarity threshold ${Math.round(metadata.similarityThreshold * 100)}%)` : '') +
+    ` &middot; ${metadata.fileCount} files &middot; ${metadata.functionCount} functions &middot; ` +
+    `${duplicates.length} duplicate groups &middot; ${blocks.length} duplicated blocks` +
+    (suppressed.length > 0 ? ` &middot; ${suppressed.length} suppressed` : '') +
+    (nameCollisions.length > 0 ? ` &middot; ${nameCollisions.length} name collisions` : '') +
+    (filtered ? `<br>${escapeHtml(filtered)}` : '') +
+    '</div>';
+
+  body += '<div class="filters">' +
+    '<input id="name-filter" type="search" placeholder="Filter by function name">' +
+    `<select id="directory-filter"><option value="">All directories</option>${directoryOptions}</select>` +
+    '<span id="visible-count" class="meta"></span>' +
+    '</div>';
+
+  body += '<h2>Duplicate Functions</h2>';
+  body += duplicates.length > 0
+    ? duplicates.map(renderFunctionGroup).join('\n')
+    : '<p class="empty">No duplicate functions found.</p>';
+
+  if (blocks.length > 0) {
+    body += '<h2>Duplicated Blocks</h2>';
+    body += blocks.map(renderBlockGroup).join('\n');
+  }
+
+  if (nameCollisions.length > 0) {
+    body += '<h2>Name Collisions</h2>';
+    body += nameCollisions.map(renderNameCollision).join('\n');
+  }
+
+  if (suppressed.length > 0) {
+    body += '<h2>Suppressed</h2>';
+    body += suppressed.map(renderSuppressedOccurrence).join('\n');
+  }
+
+  if (workspace) {
+    body += renderWorkspace(workspace);
+  }
+
+  body += renderMetrics(metrics);
+
+  return '<!DOCTYPE html>\n' +
+    '<html lang="en">\n' +
+    '<head>\n' +
+    '<meta charset="utf-8">\n' +
+    '<meta name="viewport" content="width=device-width, initial-scale=1">\n' +
+    '<title>Duplicate Functions Report</title>\n' +
+    `<style>${STYLES}</style>\n` +
+    '</head>\n' +
+    `<body>\n${body}\n<script>${SCRIPT}</script>\n</body>\n` +
+    '</html>\n';
+}
@@ -1,23 +1,193 @@
 /**
  * IgnoreHandler
  *
- * Handles reading and parsing the .ignore file to determine which files and directories
- * should be excluded from duplicate detection scanning.
+ * Handles reading and parsing .ignore files to determine which files and directories
+ * should be excluded from duplicate detection scanning. Patterns follow .gitignore rules:
+ * `!` negation, anchoring with `/`, `**` globs, character classes and directory-only
+ * patterns, with later patterns and files in deeper directories taking precedence.
  */
 
 import fs from 'fs';
 import path from 'path';
 import { getDefaultIgnoreContent } from "./DefaultIgnorePatterns";
 
+const IGNORE_FILE = '.ignore';
+const GITIGNORE_FILE = '.gitignore';
+
+/**
+ * Options for reading ignore files
+ */
+export interface IgnoreOptions {
+  // Also honor .gitignore files (defaults to false)
+  gitignore?: boolean;
+}
+
+/**
+ * A compiled ignore pattern
+ */
+interface IgnoreRule {
+  // The pattern as written
+  pattern: string;
+  // Ignore file the pattern came from, relative to the project root (undefined for the
+  // root .ignore file and the default patterns)
+  source?: string;
+  negated: boolean;
+  directoryOnly: boolean;
+  // Matches paths relative to the directory of the ignore file
+  regex: RegExp;
+}
+
+/**
+ * Escapes a character for use in a regular expression
+ * @param char - The character
+ * @returns The escaped character
+ */
+function escapeRegExp(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Converts a gitignore glob to the source of a regular expression
+ * @param glob - The glob, without negation, trailing slash or leading slash
+ * @returns The regular expression source
+ */
+export function globToRegExpSource(glob: string): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      const isDoubleStar = glob[i + 1] === '*'
+        && (i === 0 || glob[i - 1] === '/')
+        && (i + 2 === glob.length || glob[i + 2] === '/');
+
+      if (isDoubleStar && i + 2 === glob.length) {
+        // A trailing "**" matches everything inside
+        source += '.*';
+        i++;
+      } else if (isDoubleStar) {
+        // "**/" matches zero or more directories
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        // Other runs of stars match within a single path segment
+        source += '[^/]*';
+        while (glob[i + 1] === '*') {
+          i++;
+        }
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      // Character class; "]" right after the opening bracket (or its negation) is literal
+      let bodyStart = i + 1;
+      let body = '';
+      if (glob[bodyStart] === '!' || glob[bodyStart] === '^') {
+        body += '^';
+        bodyStart++;
+      }
+      if (glob[bodyStart] === ']') {
+        body += '\\]';
+        bodyStart++;
+      }
+      const end = glob.indexOf(']', bodyStart);
+
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        // Classes never match the path separator
+        source += `(?!/)[${body}${glob.slice(bodyStart, end)}]`;
+        i = end;
+      }
+    } else if (char === '\\') {
+      // Escaped character
+      i++;
+      source += escapeRegExp(glob[i] ?? '\\');
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Parses one line of an ignore file
+ * @param line - The line
+ * @param source - Ignore file the line came from, if not the root .ignore file
+ * @returns The compiled rule, or undefined for blank lines and comments
+ */
+function parseIgnoreLine(line: string, source?: string): IgnoreRule | undefined {
+  // Trailing whitespace is ignored unless escaped
+  let pattern = line.replace(/\r$/, '').replace(/(^|[^\\])[ \t]+$/, '$1');
+
+  if (pattern.length === 0 || pattern.startsWith('#')) {
+    return undefined;
+  }
+
+  const original = pattern;
+  let negated = false;
+  if (pattern.startsWith('!')) {
+    negated = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  let directoryOnly = false;
+  if (pattern.endsWith('/')) {
+    directoryOnly = true;
+    pattern = pattern.slice(0, -1);
+  }
+
+  // A slash anywhere but at the end anchors the pattern to the ignore file's directory;
+  // otherwise it matches a name at any depth
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+
+  if (pattern.length === 0) {
+    return undefined;
+  }
+
+  const glob = globToRegExpSource(pattern);
+  return {
+    pattern: original,
+    source,
+    negated,
+    directoryOnly,
+    regex: new RegExp(anchored ? `^${glob}$` : `^(?:.*/)?${glob}$`)
+  };
+}
+
+/**
+ * Parses the content of an ignore file
+ * @param content - The content of the ignore file
+ * @param source - Ignore file the content came from, if not the root .ignore file
+ * @returns Array of compiled rules, in file order
+ */
+function parseIgnoreContent(content: string, source?: string): IgnoreRule[] {
+  return content.split('\n').flatMap(line => parseIgnoreLine(line, source) ?? []);
+}
+
 /**
- * Class to handle ignore patterns similar to .gitignore
+ * Class to handle ignore patterns with .gitignore semantics
  */
 export class IgnoreHandler {
-  private ignorePatterns: string[] = [];
   private projectRoot: string;
+  private options: IgnoreOptions;
+  // Rules of the root .ignore file, or the default patterns
+  private rootIgnoreRules: IgnoreRule[] = [];
+  // Rules of each directory, keyed by path relative to the project root ("" for the root)
+  private rulesByDirectory = new Map<string, IgnoreRule[]>();
+  // Pattern that ignores each directory checked so far (null when not ignored)
+  private ignoredDirectories = new Map<string, string | null>();
+  private usingDefaults = false;
+  private loadError: string | undefined;
 
-  constructor(projectRoot: string) {
+  constructor(projectRoot: string, options: IgnoreOptions = {}) {
     this.projectRoot = projectRoot;
+    this.options = options;
     this.loadIgnoreFile();
   }
 
@@ -30,115 +200,152 @@ export class IgnoreHandler {
   }
 
   /**
-   * Loads and parses the .ignore file from the project root, or uses defaults
+   * Loads and parses the .ignore file from the project root, or uses defaults.
+   * Nothing is logged here; callers report what was loaded through the getters.
    */
   private loadIgnoreFile(): void {
-    const ignorePath = path.join(this.projectRoot, '.ignore');
+    const ignorePath = path.join(this.projectRoot, IGNORE_FILE);
 
     if (!fs.existsSync(ignorePath)) {
       // No .ignore file found, use default patterns
-      console.log('No .ignore file found, using default ignore patterns');
-      this.parseIgnoreContent(this.getDefaultIgnorePatterns());
-      console.log(`Loaded default ignore patterns: ${this.ignorePatterns.length} patterns`);
-      return;
+      this.rootIgnoreRules = parseIgnoreContent(this.getDefaultIgnorePatterns());
+      this.usingDefaults = true;
+    } else {
+      try {
+        this.rootIgnoreRules = parseIgnoreContent(fs.readFileSync(ignorePath, 'utf-8'));
+      } catch (error) {
+        this.loadError = String(error);
+        this.rootIgnoreRules = parseIgnoreContent(this.getDefaultIgnorePatterns());
+        this.usingDefaults = true;
+      }
+    }
+
+    const rootRules: IgnoreRule[] = [];
+    if (this.options.gitignore) {
+      // Git never looks inside its own directory
+      rootRules.push(parseIgnoreLine('.git/', GITIGNORE_FILE)!);
+      rootRules.push(...this.readIgnoreFile(GITIGNORE_FILE));
     }
+    rootRules.push(...this.rootIgnoreRules);
+    this.rulesByDirectory.set('', rootRules);
+  }
 
+  /**
+   * Reads an ignore file, returning no rules if it does not exist or cannot be read
+   * @param source - Path of the ignore file relative to the project root
+   * @returns Array of compiled rules
+   */
+  private readIgnoreFile(source: string): IgnoreRule[] {
     try {
-      const ignoreContent = fs.readFileSync(ignorePath, 'utf-8');
-      this.parseIgnoreContent(ignoreContent);
-      console.log(`Loaded .ignore file with ${this.ignorePatterns.length} patterns`);
-    } catch (error) {
-      console.warn(`Warning: Could not read .ignore file, using default patterns: ${error}`);
-      this.parseIgnoreContent(this.getDefaultIgnorePatterns());
-      console.log(`Loaded default ignore patterns: ${this.ignorePatterns.length} patterns`);
+      return parseIgnoreContent(fs.readFileSync(path.join(this.projectRoot, source), 'utf-8'), source);
+    } catch {
+      return [];
     }
   }
 
   /**
-   * Parses the content of the .ignore file
-   * @param content - The content of the .ignore file
+   * Gets the rules of the ignore files in a directory, reading them on first use.
+   * .gitignore rules come first, so .ignore files can override them.
+   * @param directory - Path of the directory relative to the project root
+   * @returns Array of compiled rules
    */
-  private parseIgnoreContent(content: string): void {
-    const lines = content.split('\n');
-
-    this.ignorePatterns = lines
-      .map(line => line.trim())
-      .filter(line => line.length > 0 && !line.startsWith('#')) // Remove comments and empty lines
-      .map(pattern => {
-        // Normalize patterns
-        if (pattern.endsWith('/')) {
-          // Directory pattern - remove trailing slash for consistency
-          return pattern.slice(0, -1);
-        }
-        return pattern;
-      });
+  private getDirectoryRules(directory: string): IgnoreRule[] {
+    let rules = this.rulesByDirectory.get(directory);
+
+    if (rules === undefined) {
+      rules = [
+        ...(this.options.gitignore ? this.readIgnoreFile(`${directory}/${GITIGNORE_FILE}`) : []),
+        ...this.readIgnoreFile(`${directory}/${IGNORE_FILE}`)
+      ];
+      this.rulesByDirectory.set(directory, rules);
+    }
+
+    return rules;
   }
 
   /**
-   * Checks if a file path should be ignored based on the ignore patterns
-   * @param filePath - The file path to check (can be absolute or relative)
-   * @returns true if the file should be ignored, false otherwise
+   * Finds the rule that decides whether a path is ignored: the last matching rule, with
+   * ignore files in deeper directories taking precedence over those above them
+   * @param relativePath - Forward-slash path relative to the project root
+   * @param isDirectory - Whether the path is a directory
+   * @returns The deciding rule, or undefined if no rule matches
    */
-  public shouldIgnore(filePath: string): boolean {
-    // Convert to relative path from project root
-    const relativePath = path.relative(this.projectRoot, filePath);
+  private findDecidingRule(relativePath: string, isDirectory: boolean): IgnoreRule | undefined {
+    const segments = relativePath.split('/');
+    let decidingRule: IgnoreRule | undefined;
 
-    // Split the path into segments for matching
-    const pathSegments = relativePath.split(path.sep);
-    const fullPath = relativePath.replace(/\\/g, '/'); // Normalize path separators
+    for (let depth = 0; depth < segments.length; depth++) {
+      const pathInDirectory = segments.slice(depth).join('/');
 
-    for (const pattern of this.ignorePatterns) {
-      if (this.matchesPattern(pattern, fullPath, pathSegments)) {
-        return true;
-      }
+      this.getDirectoryRules(segments.slice(0, depth).join('/')).forEach(rule => {
+        if ((!rule.directoryOnly || isDirectory) && rule.regex.test(pathInDirectory)) {
+          decidingRule = rule;
+        }
+      });
     }
 
-    return false;
+    return decidingRule;
   }
 
   /**
-   * Checks if a path matches an ignore pattern
-   * @param pattern - The ignore pattern
-   * @param fullPath - The full relative path
-   * @param pathSegments - The path split into segments
-   * @returns true if the pattern matches
+   * Describes the pattern of a rule, naming its ignore file unless it is the root .ignore file
+   * @param rule - The rule
+   * @returns The description
    */
-  private matchesPattern(pattern: string, fullPath: string, pathSegments: string[]): boolean {
-    // Normalize pattern separators
-    const normalizedPattern = pattern.replace(/\\/g, '/');
+  private describeRule(rule: IgnoreRule): string {
+    return rule.source === undefined ? rule.pattern : `${rule.source}: ${rule.pattern}`;
+  }
 
-    // Exact match
-    if (fullPath === normalizedPattern) {
-      return true;
-    }
+  /**
+   * Finds the pattern that ignores a path itself, without looking at its parent directories
+   * @param relativePath - Forward-slash path relative to the project root
+   * @param isDirectory - Whether the path is a directory
+   * @returns The pattern, or undefined if the path is not ignored
+   */
+  private getOwnMatchingPattern(relativePath: string, isDirectory: boolean): string | undefined {
+    const rule = this.findDecidingRule(relativePath, isDirectory);
+    return rule && !rule.negated ? this.describeRule(rule) : undefined;
+  }
 
-    // Directory match - check if any path segment matches the pattern
-    if (!normalizedPattern.includes('/')) {
-      // Simple pattern like "node_modules" should match any directory or file with that name
-      return pathSegments.some(segment => segment === normalizedPattern);
-    }
+  /**
+   * Checks if a file path should be ignored based on the ignore patterns
+   * @param filePath - The file path to check (can be absolute or relative)
+   * @returns true if the file should be ignored, false otherwise
+   */
+  public shouldIgnore(filePath: string): boolean {
+    return this.getMatchingPattern(filePath) !== undefined;
+  }
 
-    // Path-based matching
-    if (normalizedPattern.includes('/')) {
-      // Check if the full path starts with the pattern
-      if (fullPath.startsWith(normalizedPattern + '/') || fullPath === normalizedPattern) {
-        return true;
-      }
+  /**
+   * Finds the pattern that ignores a file path. As with git, everything inside an ignored
+   * directory is ignored, and cannot be included again by a negated pattern.
+   * @param filePath - The file path to check (can be absolute or relative to the project root)
+   * @param isDirectory - Whether the path is a directory (looked up when not given)
+   * @returns The matching pattern, or undefined if the path is not ignored
+   */
+  public getMatchingPattern(filePath: string, isDirectory?: boolean): string | undefined {
+    // Convert to a forward-slash path relative to the project root
+    const relativePath = path.relative(this.projectRoot, path.resolve(this.projectRoot, filePath)).replace(/\\/g, '/');
+    if (relativePath === '' || relativePath.startsWith('../')) {
+      return undefined;
     }
 
-    // Wildcard matching for file extensions
-    if (normalizedPattern.startsWith('*')) {
-      const extension = normalizedPattern.substring(1); // Remove the *
-      return fullPath.endsWith(extension);
-    }
+    const segments = relativePath.split('/');
+    for (let depth = 1; depth < segments.length; depth++) {
+      const directory = segments.slice(0, depth).join('/');
 
-    // Pattern matching for files ending with specific patterns
-    if (normalizedPattern.includes('*')) {
-      const regex = new RegExp(normalizedPattern.replace(/\*/g, '.*'));
-      return regex.test(fullPath);
+      let pattern = this.ignoredDirectories.get(directory);
+      if (pattern === undefined) {
+        pattern = this.getOwnMatchingPattern(directory, true) ?? null;
+        this.ignoredDirectories.set(directory, pattern);
+      }
+      if (pattern !== null) {
+        return pattern;
+      }
     }
 
-    return false;
+    const pathIsDirectory = isDirectory ?? fs.statSync(path.resolve(this.projectRoot, filePath), { throwIfNoEntry: false })?.isDirectory() ?? false;
+    return this.getOwnMatchingPattern(relativePath, pathIsDirectory);
   }
 
   /**
@@ -165,20 +372,27 @@ export class IgnoreHandler {
   }
 
   /**
-   * Gets the list of loaded ignore patterns
+   * Gets the list of patterns loaded from the root .ignore file (or the defaults)
    * @returns Array of ignore patterns
    */
   public getIgnorePatterns(): string[] {
-    return [...this.ignorePatterns];
+    return this.rootIgnoreRules.map(rule => rule.pattern);
   }
 
   /**
-   * Indicates whether default patterns are being used (no .ignore file found)
+   * Indicates whether default patterns are being used (no .ignore file found, or it could not be read)
    * @returns true if using default patterns, false if using custom .ignore file
    */
   public isUsingDefaults(): boolean {
-    const ignorePath = path.join(this.projectRoot, '.ignore');
-    return !fs.existsSync(ignorePath);
+    return this.usingDefaults;
+  }
+
+  /**
+   * Gets the error that prevented the .ignore file from being read, if any
+   * @returns The error message, or undefined if the file was read (or does not exist)
+   */
+  public getLoadError(): string | undefined {
+    return this.loadError;
   }
 
   /**
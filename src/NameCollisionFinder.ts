@@ -0,0 +1,108 @@
+/**
+ * NameCollisionFinder
+ *
+ * Finds functions that share a name but not an implementation: copies of a helper that
+ * have diverged, or unrelated functions whose shared name makes an API confusing. Functions
+ * are grouped by name (or by qualified name), and the members of each group are split into
+ * variants, each holding the copies that the detection mode considers identical.
+ */
+
+import { DetectionMode, getFunctionHash } from './ConvertToHash';
+import { FunctionInfo, getFunctionDetails } from './FunctionFinder';
+import { DuplicateOccurrence } from './ReportModel';
+
+/**
+ * What functions are grouped by:
+ * - name: the name alone, so `render` in two classes collides
+ * - qualified: the qualified name, so only `UserView.render` in two files collides
+ */
+export type CollisionKey = 'name' | 'qualified';
+
+export const COLLISION_KEYS: CollisionKey[] = ['name', 'qualified'];
+
+// Names given by the language rather than chosen by anyone, which collide everywhere
+const IGNORED_NAMES = new Set(['constructor', 'default']);
+
+/**
+ * One implementation of a name, with every copy of it
+ */
+export interface NameCollisionVariant {
+  // Hash the copies share
+  hash: string;
+  occurrences: DuplicateOccurrence[];
+}
+
+/**
+ * Functions that share a name but have more than one implementation
+ */
+export interface NameCollision {
+  name: string;
+  key: CollisionKey;
+  // In the order the first copy of each was found
+  variants: NameCollisionVariant[];
+}
+
+/**
+ * Finds names shared by functions with different implementations
+ * @param functions - Array of all extracted functions, in file order
+ * @param key - Whether to group by name or qualified name (defaults to name)
+ * @param mode - The detection mode the copies of a variant are matched in; near mode,
+ * which has no hashes, matches them exactly (defaults to exact)
+ * @param hashes - The hash each function was grouped by, such as its type-aware hash
+ * (computed from the function's text in the detection mode otherwise)
+ * @returns Array of name collisions, those with the most variants first
+ */
+export function findNameCollisions(
+  functions: FunctionInfo[],
+  key: CollisionKey = 'name',
+  mode: DetectionMode = 'exact',
+  hashes?: Map<FunctionInfo, string>
+): NameCollision[] {
+  // Group functions by name, then by the hash of their normalized text
+  const byName = new Map<string, Map<string, FunctionInfo[]>>();
+
+  functions.forEach(func => {
+    const name = key === 'qualified' ? func.qualifiedName : func.name;
+    if (IGNORED_NAMES.has(name)) {
+      return;
+    }
+
+    if (!byName.has(name)) {
+      byName.set(name, new Map());
+    }
+    const variants = byName.get(name)!;
+
+    const hash = hashes?.get(func) ?? getFunctionHash(func.content, mode);
+    if (!variants.has(hash)) {
+      variants.set(hash, []);
+    }
+    variants.get(hash)!.push(func);
+  });
+
+  const collisions: NameCollision[] = [];
+
+  byName.forEach((variants, name) => {
+    if (variants.size < 2) {
+      return;
+    }
+
+    collisions.push({
+      name,
+      key,
+      variants: Array.from(variants.entries()).map(([hash, members]) => ({
+        hash,
+        occurrences: members.map(func => ({
+          filePath: func.filePath,
+          lineNumber: func.lineNumber,
+          content: func.content,
+          ...getFunctionDetails(func)
+        }))
+      }))
+    });
+  });
+
+  // Sort collisions by number of variants (highest to lowest), then by name
+  collisions.sort((a, b) => b.variants.length - a.variants.length || a.name.localeCompare(b.name));
+
+  return collisions;
+}
@@ -0,0 +1,300 @@
+/**
+ * NearDuplicateFinder
+ *
+ * Groups functions whose token streams are similar but not identical, such as copies with
+ * an extra log line or a changed constant. Functions are broken into token shingles,
+ * summarized with MinHash signatures and paired up through locality-sensitive hashing,
+ * so only likely matches are ever compared directly. A function only joins a group when
+ * it is similar enough to every member, so groups never chain dissimilar functions
+ * together through the ones between them.
+ */
+
+import { FunctionDetails, FunctionInfo, getFunctionDetails } from './FunctionFinder';
+import { getStructuralTokens } from './StructuralNormalizer';
+
+// Number of consecutive tokens in a shingle
+const SHINGLE_SIZE = 5;
+
+// Number of hash functions in a MinHash signature (BANDS * ROWS_PER_BAND)
+const BANDS = 32;
+const ROWS_PER_BAND = 4;
+const SIGNATURE_SIZE = BANDS * ROWS_PER_BAND;
+
+// Default minimum similarity for two functions to be grouped
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * A function prepared for similarity comparison
+ */
+interface FunctionFingerprint {
+  functions: FunctionInfo[];
+  shingles: Set<number>;
+  signature: Uint32Array;
+}
+
+/**
+ * Computes a 32-bit FNV-1a hash of a string
+ * @param text - The text to hash
+ * @returns The hash as an unsigned 32-bit integer
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mixes a value with a seed to simulate an independent hash function
+ * @param value - The value to hash
+ * @param seed - The seed identifying the hash function
+ * @returns The mixed value as an unsigned 32-bit integer
+ */
+function mixHash(value: number, seed: number): number {
+  let hash = (value ^ seed) >>> 0;
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+// Seeds for the MinHash functions, fixed so results are reproducible between runs
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mixHash(i + 1, 0x9e3779b9));
+
+/**
+ * Gets the tokens of a function, using its structural form where possible so that
+ * renamed parameters and locals do not reduce the similarity
+ * @param func - The function information
+ * @returns Array of tokens
+ */
+function getFunctionTokens(func: FunctionInfo): string[] {
+  return getStructuralTokens(func.content) ??
+    func.content.split(/(\w+|[^\w\s])/).filter(token => token.trim().length > 0);
+}
+
+/**
+ * Breaks a token stream into hashed shingles of consecutive tokens
+ * @param tokens - The tokens of a function
+ * @returns Set of shingle hashes
+ */
+function getShingles(tokens: string[]): Set<number> {
+  const shingles = new Set<number>();
+
+  if (tokens.length <= SHINGLE_SIZE) {
+    shingles.add(hashString(tokens.join(' ')));
+    return shingles;
+  }
+
+  for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+    shingles.add(hashString(tokens.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+
+  return shingles;
+}
+
+/**
+ * Computes the MinHash signature of a set of shingles
+ * @param shingles - Set of shingle hashes
+ * @returns The MinHash signature
+ */
+function getSignature(shingles: Set<number>): Uint32Array {
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+
+  shingles.forEach(shingle => {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const hash = mixHash(shingle, SEEDS[i]);
+      if (hash < signature[i]) {
+        signature[i] = hash;
+      }
+    }
+  });
+
+  return signature;
+}
+
+/**
+ * Computes the Jaccard similarity of two shingle sets
+ * @param a - First set of shingles
+ * @param b - Second set of shingles
+ * @returns Similarity between 0 and 1
+ */
+export function jaccardSimilarity(a: Set<number>, b: Set<number>): number {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let intersection = 0;
+
+  smaller.forEach(shingle => {
+    if (larger.has(shingle)) {
+      intersection++;
+    }
+  });
+
+  const union = a.size + b.size - intersection;
+  return union === 0 ? 1 : intersection / union;
+}
+
+/**
+ * Builds fingerprints for all functions. Functions with identical shingle sets share
+ * one fingerprint, so exact copies are never compared against each other.
+ * @param functions - Array of function information
+ * @returns Array of fingerprints
+ */
+function buildFingerprints(functions: FunctionInfo[]): FunctionFingerprint[] {
+  const fingerprints = new Map<string, FunctionFingerprint>();
+
+  functions.forEach(func => {
+    const shingles = getShingles(getFunctionTokens(func));
+    const key = Array.from(shingles).sort((a, b) => a - b).join(',');
+
+    const existing = fingerprints.get(key);
+    if (existing) {
+      existing.functions.push(func);
+      return;
+    }
+
+    fingerprints.set(key, { functions: [func], shingles, signature: getSignature(shingles) });
+  });
+
+  return Array.from(fingerprints.values());
+}
+
+/**
+ * Finds pairs of fingerprints that share at least one band of their MinHash signatures
+ * @param fingerprints - Array of fingerprints
+ * @returns Candidate pairs as index tuples (lower index first)
+ */
+function findCandidatePairs(fingerprints: FunctionFingerprint[]): Array<[number, number]> {
+  const seen = new Set<string>();
+  const pairs: Array<[number, number]> = [];
+
+  for (let band = 0; band < BANDS; band++) {
+    const buckets = new Map<string, number[]>();
+
+    fingerprints.forEach((fingerprint, index) => {
+      const start = band * ROWS_PER_BAND;
+      const key = Array.from(fingerprint.signature.subarray(start, start + ROWS_PER_BAND)).join(',');
+
+      if (!buckets.has(key)) {
+        buckets.set(key, []);
+      }
+      buckets.get(key)!.push(index);
+    });
+
+    buckets.forEach(indexes => {
+      for (let i = 0; i < indexes.length; i++) {
+        for (let j = i + 1; j < indexes.length; j++) {
+          const pairKey = `${indexes[i]}:${indexes[j]}`;
+          if (!seen.has(pairKey)) {
+            seen.add(pairKey);
+            pairs.push([indexes[i], indexes[j]]);
+          }
+        }
+      }
+    });
+  }
+
+  return pairs;
+}
+
+/**
+ * Finds groups of near-duplicate functions. The most similar pairs are grouped first, and
+ * two groups are merged only when every member of one is similar enough to every member
+ * of the other.
+ * @param functions - Array of all extracted functions
+ * @param threshold - Minimum similarity (0 to 1) for two functions to be grouped
+ * @returns Array of near-duplicate groups, each with the lowest similarity between any two of its members
+ */
+export function findNearDuplicates(functions: FunctionInfo[], threshold: number = DEFAULT_SIMILARITY_THRESHOLD): Array<{
+  name: string;
+  mode: 'near';
+  similarity: number;
+  occurrences: Array<FunctionDetails & {
+    filePath: string;
+    lineNumber: number;
+    content: string;
+  }>;
+}> {
+  const fingerprints = buildFingerprints(functions);
+  const getSimilarity = (a: number, b: number) => jaccardSimilarity(fingerprints[a].shingles, fingerprints[b].shingles);
+
+  // Verify candidate pairs against the exact shingle similarity, most similar first
+  const matches = findCandidatePairs(fingerprints)
+    .map(([a, b]) => ({ a, b, similarity: getSimilarity(a, b) }))
+    .filter(match => match.similarity >= threshold)
+    .sort((x, y) => y.similarity - x.similarity || x.a - y.a || x.b - y.b);
+
+  // Every fingerprint starts in a group of its own, identified by its index
+  const groupOf = fingerprints.map((_, index) => index);
+  const members = fingerprints.map((_, index) => [index]);
+  const similarities = fingerprints.map(() => 1);
+
+  matches.forEach(({ a, b }) => {
+    const groupA = groupOf[a];
+    const groupB = groupOf[b];
+    if (groupA === groupB) {
+      return;
+    }
+
+    let lowest = Math.min(similarities[groupA], similarities[groupB]);
+    for (const x of members[groupA]) {
+      for (const y of members[groupB]) {
+        lowest = Math.min(lowest, getSimilarity(x, y));
+        if (lowest < threshold) {
+          return;
+        }
+      }
+    }
+
+    members[groupB].forEach(index => {
+      groupOf[index] = groupA;
+    });
+    members[groupA].push(...members[groupB]);
+    members[groupB] = [];
+    similarities[groupA] = lowest;
+  });
+
+  // Collect the functions of every group
+  const groups = new Map<number, FunctionInfo[]>();
+  members.forEach((indexes, group) => {
+    if (indexes.length > 0) {
+      groups.set(group, indexes.flatMap(index => fingerprints[index].functions));
+    }
+  });
+
+  // Keep the members of each group in the order they were found
+  const positions = new Map<FunctionInfo, number>();
+  functions.forEach((func, index) => positions.set(func, index));
+
+  const duplicates: Array<{
+    name: string;
+    mode: 'near';
+    similarity: number;
+    occurrences: Array<FunctionDetails & {
+      filePath: string;
+      lineNumber: number;
+      content: string;
+    }>;
+  }> = [];
+
+  groups.forEach((groupFunctions, group) => {
+    if (groupFunctions.length > 1) {
+      groupFunctions.sort((a, b) => positions.get(a)! - positions.get(b)!);
+      duplicates.push({
+        name: groupFunctions[0].name,
+        mode: 'near',
+        similarity: similarities[group],
+        occurrences: groupFunctions.map(func => ({
+          filePath: func.filePath,
+          lineNumber: func.lineNumber,
+          content: func.content,
+          ...getFunctionDetails(func)
+        }))
+      });
+    }
+  });
+
+  // Sort duplicates by number of occurrences (highest to lowest), then by similarity
+  duplicates.sort((a, b) => b.occurrences.length - a.occurrences.length || b.similarity - a.similarity);
+
+  return duplicates;
+}
@@ -0,0 +1,199 @@
+/**
+ * ParallelParser
+ *
+ * Parses files and hashes their functions on a pool of worker threads. Files are handed
+ * out in small batches as workers become free, and results are returned in the order the
+ * files were given, so a parallel scan reports exactly what a single-threaded one does.
+ */
+
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { DetectionMode, getFunctionHash } from './ConvertToHash';
+import { FunctionInfo, extractFunctionsFromSourceFile } from './FunctionFinder';
+import { StatementSequence, extractStatementSequences } from './BlockCloneFinder';
+import { createScriptSourceFile } from './ComponentScripts';
+
+// Number of files sent to a worker at a time
+const BATCH_SIZE = 25;
+
+// Fewest files worth starting a worker for
+const MIN_FILES_PER_WORKER = 50;
+
+/**
+ * A file to parse, with its content already read
+ */
+export interface ParseTask {
+  filePath: string;
+  content: string;
+}
+
+/**
+ * The outcome of parsing one file
+ */
+export interface ParsedFile {
+  functions: FunctionInfo[];
+  // Hash of each function, in the same order (not set in near mode)
+  hashes?: string[];
+  // Statement lists long enough to hold a duplicated block, only set when blocks are looked for
+  sequences?: StatementSequence[];
+  // Set instead of functions when the file could not be parsed
+  error?: string;
+}
+
+/**
+ * Message sent to a worker
+ */
+export interface ParseRequest {
+  batch: number;
+  tasks: ParseTask[];
+}
+
+/**
+ * Message sent back by a worker
+ */
+export interface ParseResponse {
+  batch: number;
+  results: ParsedFile[];
+}
+
+/**
+ * Gets the default number of worker threads
+ * @returns The number of CPUs available to the process
+ */
+export function getDefaultJobCount(): number {
+  return typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+}
+
+/**
+ * Extracts the functions of a file and hashes them, and collects its statement lists from
+ * the same parse when blocks are looked for
+ * @param task - The file to parse
+ * @param mode - The detection mode used to hash functions
+ * @param minBlockStatements - Minimum number of statements in a block, when blocks are looked for
+ * @returns The parsed file
+ */
+export function parseFileContent(task: ParseTask, mode: DetectionMode, minBlockStatements?: number): ParsedFile {
+  try {
+    const sourceFile = createScriptSourceFile(task.filePath, task.content);
+    const functions = extractFunctionsFromSourceFile(task.filePath, sourceFile);
+
+    // Near mode compares token streams instead of hashes
+    const hashes = mode === 'near' ? undefined : functions.map(func => getFunctionHash(func.content, mode));
+    const sequences = minBlockStatements === undefined
+      ? undefined
+      : extractStatementSequences(task.filePath, sourceFile, minBlockStatements);
+
+    return { functions, hashes, sequences };
+  } catch (error) {
+    return { functions: [], error: String(error) };
+  }
+}
+
+/**
+ * Starts a worker thread running ParseWorker. When running from TypeScript sources the
+ * worker loads ts-node, since worker threads do not inherit the parent's loaders. The
+ * loader is resolved from this package and given this package's tsconfig.json, so that
+ * neither depends on the directory the scan was started from.
+ * @param mode - The detection mode used to hash functions
+ * @param minBlockStatements - Minimum number of statements in a block, when blocks are looked for
+ * @returns The worker
+ */
+function startWorker(mode: DetectionMode, minBlockStatements?: number): Worker {
+  const extension = path.extname(__filename);
+  const workerPath = path.join(__dirname, `ParseWorker${extension}`);
+
+  if (extension !== '.ts') {
+    return new Worker(workerPath, { workerData: { mode, minBlockStatements } });
+  }
+  return new Worker(workerPath, {
+    workerData: { mode, minBlockStatements },
+    execArgv: ['-r', require.resolve('ts-node/register/transpile-only')],
+    env: { ...process.env, TS_NODE_PROJECT: path.join(__dirname, '..', 'tsconfig.json') }
+  });
+}
+
+/**
+ * Describes why a parse worker failed
+ * @param tasks - The files of the batch the worker was parsing, if any
+ * @param cause - The error the worker threw, or its exit code
+ * @returns An error naming the files of the batch
+ */
+function toWorkerError(tasks: ParseTask[], cause: unknown): Error {
+  const reason = typeof cause === 'number'
+    ? `stopped unexpectedly with exit code ${cause}`
+    : `failed: ${cause instanceof Error ? cause.message : String(cause)}`;
+  const files = tasks.length > 0 ? ` while parsing ${tasks.map(task => task.filePath).join(', ')}` : '';
+  return new Error(`Parse worker ${reason}${files}`);
+}
+
+/**
+ * Parses files and hashes their functions, using worker threads when there are enough files
+ * @param tasks - The files to parse
+ * @param mode - The detection mode used to hash functions
+ * @param jobs - The largest number of worker threads to use
+ * @param minBlockStatements - Minimum number of statements in a block, when blocks are looked for
+ * @returns The parsed files, in the same order as the tasks
+ */
+export async function parseFiles(
+  tasks: ParseTask[],
+  mode: DetectionMode,
+  jobs: number,
+  minBlockStatements?: number
+): Promise<ParsedFile[]> {
+  const workerCount = Math.min(jobs, Math.floor(tasks.length / MIN_FILES_PER_WORKER));
+
+  // Starting workers costs more than it saves on small scans
+  if (workerCount <= 1) {
+    return tasks.map(task => parseFileContent(task, mode, minBlockStatements));
+  }
+
+  const results: ParsedFile[] = new Array(tasks.length);
+  const batchCount = Math.ceil(tasks.length / BATCH_SIZE);
+  let nextBatch = 0;
+
+  // The batch each worker is parsing, to name its files if the worker fails
+  const pending = new Map<Worker, ParseTask[]>();
+
+  const sendNextBatch = (worker: Worker): boolean => {
+    if (nextBatch >= batchCount) {
+      pending.delete(worker);
+      return false;
+    }
+    const batch = nextBatch++;
+    const request: ParseRequest = { batch, tasks: tasks.slice(batch * BATCH_SIZE, (batch + 1) * BATCH_SIZE) };
+    pending.set(worker, request.tasks);
+    worker.postMessage(request);
+    return true;
+  };
+
+  const workers: Worker[] = [];
+  try {
+    await Promise.all(Array.from({ length: workerCount }, () => new Promise<void>((resolve, reject) => {
+      const worker = startWorker(mode, minBlockStatements);
+      workers.push(worker);
+
+      worker.on('message', (response: ParseResponse) => {
+        response.results.forEach((result, index) => {
+          results[response.batch * BATCH_SIZE + index] = result;
+        });
+        if (!sendNextBatch(worker)) {
+          resolve();
+        }
+      });
+      worker.on('error', error => reject(toWorkerError(pending.get(worker) ?? [], error)));
+      worker.on('exit', code => reject(toWorkerError(pending.get(worker) ?? [], code)));
+
+      if (!sendNextBatch(worker)) {
+        resolve();
+      }
+    })));
+  } finally {
+    await Promise.all(workers.map(worker => {
+      worker.removeAllListeners('exit');
+      return worker.terminate();
+    }));
+  }
+
+  return results;
+}
@@ -0,0 +1,21 @@
+/**
+ * ParseWorker
+ *
+ * Entry point of the worker threads started by ParallelParser. Each message is a batch of
+ * files to parse; the reply holds their functions, hashes and statement lists in the same order.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { DetectionMode } from './ConvertToHash';
+import { ParseRequest, ParseResponse, parseFileContent } from './ParallelParser';
+
+const mode: DetectionMode = workerData.mode;
+const minBlockStatements: number | undefined = workerData.minBlockStatements;
+
+parentPort?.on('message', (request: ParseRequest) => {
+  const response: ParseResponse = {
+    batch: request.batch,
+    results: request.tasks.map(task => parseFileContent(task, mode, minBlockStatements))
+  };
+  parentPort!.postMessage(response);
+});
@@ -0,0 +1,131 @@
+/**
+ * ProjectFiles
+ *
+ * Lists the files of a TypeScript project the way the compiler does. The tsconfig.json is
+ * read with the compiler's own config parsing, so `files`, `include`, `exclude`, `extends`
+ * and `allowJs` decide which files are scanned, and referenced projects are followed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as ts from 'typescript';
+
+// Compiler options used for scanned files when the project has no tsconfig.json
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.Latest,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  esModuleInterop: true
+};
+
+/**
+ * The files of a TypeScript project and the projects it references
+ */
+export interface ProjectFiles {
+  // Absolute paths of the config files read, the project's own first
+  configPaths: string[];
+  // Absolute paths of the files of every project, without duplicates
+  files: string[];
+}
+
+/**
+ * Finds the config file of a project
+ * @param project - Path to a tsconfig.json, or to a directory containing one
+ * @returns Absolute path of the config file
+ */
+export function resolveProjectConfig(project: string): string {
+  const projectPath = path.resolve(project);
+  const configPath = fs.statSync(projectPath, { throwIfNoEntry: false })?.isDirectory()
+    ? path.join(projectPath, 'tsconfig.json')
+    : projectPath;
+
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`TypeScript project "${project}" does not exist.`);
+  }
+  return configPath;
+}
+
+/**
+ * Formats the errors of a config file
+ * @param configPath - Absolute path of the config file
+ * @param diagnostics - The errors
+ * @returns One line per error, naming the file for errors in other files, such as a config
+ * the file extends
+ */
+function formatDiagnostics(configPath: string, diagnostics: readonly ts.Diagnostic[]): string {
+  return diagnostics.map(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ');
+    const fileName = diagnostic.file && path.resolve(diagnostic.file.fileName);
+    return fileName && fileName !== configPath ? `${fileName}: ${message}` : message;
+  }).join('\n');
+}
+
+/**
+ * Parses a config file
+ * @param configPath - Absolute path of the config file
+ * @returns The parsed config, with the project's files and references
+ */
+function parseProjectConfig(configPath: string): ts.ParsedCommandLine {
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    throw new Error(`Could not read TypeScript project ${configPath}: ${formatDiagnostics(configPath, [error])}`);
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath);
+  if (parsed.errors.length > 0) {
+    throw new Error(`Invalid TypeScript project ${configPath}: ${formatDiagnostics(configPath, parsed.errors)}`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads the compiler options of a TypeScript project
+ * @param project - Path to a tsconfig.json, or to a directory containing one
+ * @returns The options, including those of the configs it extends
+ */
+export function readCompilerOptions(project: string): ts.CompilerOptions {
+  return parseProjectConfig(resolveProjectConfig(project)).options;
+}
+
+/**
+ * Gets the compiler options of a program over the scanned files, used to resolve what
+ * their identifiers refer to
+ * @param projectRoot - Absolute path of the project root
+ * @param project - The tsconfig.json the scanned files were taken from, if any
+ * @returns The options of the given project, otherwise of the tsconfig.json in the project
+ * root, otherwise defaults; JavaScript files are always allowed
+ */
+export function getScanCompilerOptions(projectRoot: string, project?: string): ts.CompilerOptions {
+  const configPath = project ?? path.join(projectRoot, 'tsconfig.json');
+  const options = project || fs.existsSync(configPath) ? readCompilerOptions(configPath) : DEFAULT_COMPILER_OPTIONS;
+  return { ...options, allowJs: true, noEmit: true };
+}
+
+/**
+ * Lists the files of a TypeScript project and of the projects it references, directly or
+ * through other references
+ * @param project - Path to a tsconfig.json, or to a directory containing one
+ * @returns The config files read and the files of the projects
+ */
+export function getProjectFiles(project: string): ProjectFiles {
+  const configPaths: string[] = [];
+  const files = new Set<string>();
+
+  const addProject = (configPath: string): void => {
+    if (configPaths.includes(configPath)) {
+      return;
+    }
+    configPaths.push(configPath);
+
+    const parsed = parseProjectConfig(configPath);
+    parsed.fileNames.forEach(fileName => files.add(path.resolve(fileName)));
+    (parsed.projectReferences ?? []).forEach(reference => {
+      addProject(resolveProjectConfig(ts.resolveProjectReferencePath(reference)));
+    });
+  };
+
+  addProject(resolveProjectConfig(project));
+
+  return { configPaths, files: [...files] };
+}
@@ -0,0 +1,171 @@
+/**
+ * ReferenceLibrary
+ *
+ * Compares a project against reference libraries, such as an internal utils package, to
+ * find helpers that were written again instead of imported. Reference functions go through
+ * the same extraction and hashing as the project's own, and every project function that
+ * matches one is reported with the reference symbol to import instead.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DetectionMode, getFunctionHash } from './ConvertToHash';
+import { FunctionInfo, getFunctionDetails } from './FunctionFinder';
+import { findNearDuplicates, DEFAULT_SIMILARITY_THRESHOLD } from './NearDuplicateFinder';
+import type { DuplicateFunction, DuplicateOccurrence } from './ReportModel';
+
+/**
+ * A reference function that project code reimplements
+ */
+export interface ReferenceSymbol extends DuplicateOccurrence {
+  name: string;
+}
+
+/**
+ * Finds the name of the package a reference file belongs to
+ * @param filePath - Absolute path of the reference file
+ * @param directory - Absolute path of the reference directory the file was found in
+ * @returns The name from the nearest package.json at or below the reference directory, or
+ * undefined if there is none or it has no name
+ */
+function getReferencePackage(filePath: string, directory: string): string | undefined {
+  for (let dirPath = path.dirname(filePath); dirPath === directory || dirPath.startsWith(directory + path.sep); dirPath = path.dirname(dirPath)) {
+    const packagePath = path.join(dirPath, 'package.json');
+    if (!fs.existsSync(packagePath)) {
+      continue;
+    }
+    try {
+      const name = JSON.parse(fs.readFileSync(packagePath, 'utf-8')).name;
+      return typeof name === 'string' && name.length > 0 ? name : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds the reference symbol of a reference function
+ * @param func - The reference function
+ * @param directories - Absolute paths of the reference directories
+ * @returns The symbol, with the package it can be imported from when known
+ */
+function toReferenceSymbol(func: FunctionInfo, directories: string[]): ReferenceSymbol {
+  const directory = directories.find(dirPath => func.filePath.startsWith(dirPath + path.sep));
+  return {
+    name: func.name,
+    filePath: func.filePath,
+    lineNumber: func.lineNumber,
+    content: func.content,
+    package: directory && getReferencePackage(func.filePath, directory),
+    ...getFunctionDetails(func)
+  };
+}
+
+/**
+ * Picks the reference function to import among equivalent ones
+ * @param references - Reference functions that match the same project code
+ * @returns The first exported one, otherwise the first
+ */
+function pickReference(references: FunctionInfo[]): FunctionInfo {
+  return references.find(func => func.exported) ?? references[0];
+}
+
+/**
+ * Describes the reference symbol to import instead of a reimplementation
+ * @param reference - The reference symbol
+ * @returns Description such as "sumAll from @acme/utils (../utils/src/math.ts:12)", or
+ * "sumAll at ../utils/src/math.ts:12, not exported" when it cannot be imported
+ */
+export function describeReference(reference: ReferenceSymbol): string {
+  const symbol = reference.qualifiedName ?? reference.name;
+  const location = `${reference.filePath}:${reference.lineNumber}`;
+
+  if (reference.exported === false) {
+    return `${symbol} at ${location}, not exported`;
+  }
+  return reference.package ? `${symbol} from ${reference.package} (${location})` : `${symbol} at ${location}`;
+}
+
+/**
+ * Finds the project functions that reimplement reference functions. In exact and
+ * structural mode functions match when their hashes are equal; in near mode, when they
+ * are similar above the threshold.
+ * @param functions - The project functions to check, in file order
+ * @param referenceFunctions - The functions of the reference libraries
+ * @param directories - Absolute paths of the reference directories
+ * @param mode - The detection mode
+ * @param similarity - Minimum similarity for near mode (defaults to 0.85)
+ * @returns One group per reference function, with the project functions that match it as
+ * occurrences, sorted by number of occurrences (most first)
+ */
+export function findReferenceMatches(
+  functions: FunctionInfo[],
+  referenceFunctions: FunctionInfo[],
+  directories: string[],
+  mode: DetectionMode,
+  similarity: number = DEFAULT_SIMILARITY_THRESHOLD
+): DuplicateFunction[] {
+  // Project code inside a reference directory is the reference itself
+  const isReference = (func: FunctionInfo) => directories.some(dirPath => func.filePath.startsWith(dirPath + path.sep));
+  const candidates = functions.filter(func => !isReference(func) && !func.suppression);
+  const matches: DuplicateFunction[] = [];
+
+  const toOccurrence = (func: FunctionInfo): DuplicateOccurrence => ({
+    filePath: func.filePath,
+    lineNumber: func.lineNumber,
+    content: func.content,
+    ...getFunctionDetails(func)
+  });
+
+  if (mode === 'near') {
+    const references = new Set(referenceFunctions);
+    const all = [...candidates, ...referenceFunctions];
+    const byOccurrence = new Map<string, FunctionInfo>();
+    all.forEach(func => byOccurrence.set(`${func.filePath}:${func.startLine}:${func.startColumn}`, func));
+
+    findNearDuplicates(all, similarity).forEach(group => {
+      const members = group.occurrences.map(occurrence =>
+        byOccurrence.get(`${occurrence.filePath}:${occurrence.startLine}:${occurrence.startColumn}`)!);
+      const matchedReferences = members.filter(func => references.has(func));
+      const reimplementations = members.filter(func => !references.has(func));
+      if (matchedReferences.length > 0 && reimplementations.length > 0) {
+        const reference = pickReference(matchedReferences);
+        matches.push({
+          name: reference.name,
+          mode,
+          similarity: group.similarity,
+          reference: toReferenceSymbol(reference, directories),
+          occurrences: reimplementations.map(toOccurrence)
+        });
+      }
+    });
+  } else {
+    const referencesByHash = new Map<string, FunctionInfo[]>();
+    referenceFunctions.forEach(func => {
+      const hash = getFunctionHash(func.content, mode);
+      referencesByHash.set(hash, [...(referencesByHash.get(hash) ?? []), func]);
+    });
+
+    const reimplementations = new Map<string, FunctionInfo[]>();
+    candidates.forEach(func => {
+      const hash = getFunctionHash(func.content, mode);
+      if (referencesByHash.has(hash)) {
+        reimplementations.set(hash, [...(reimplementations.get(hash) ?? []), func]);
+      }
+    });
+
+    reimplementations.forEach((members, hash) => {
+      const reference = pickReference(referencesByHash.get(hash)!);
+      matches.push({
+        name: reference.name,
+        mode,
+        hash,
+        reference: toReferenceSymbol(reference, directories),
+        occurrences: members.map(toOccurrence)
+      });
+    });
+  }
+
+  return matches.sort((a, b) => b.occurrences.length - a.occurrences.length);
+}
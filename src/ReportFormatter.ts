@@ -0,0 +1,910 @@
+/**
+ * ReportFormatter
+ *
+ * Converts the results of a scan into the report formats written by the Duplicate Detector:
+ * markdown and HTML for people, and JSON, SARIF, CSV and JUnit XML for CI systems and
+ * code-scanning dashboards. Every format is built from the same report data.
+ */
+
+import { pathToFileURL } from 'url';
+import {
+  DuplicateOccurrence,
+  ReportData,
+  SuppressedOccurrence,
+  describeFunction,
+  describeLines,
+  describeMatch
+} from './ReportModel';
+import { NameCollision } from './NameCollisionFinder';
+import { describeFilterStats } from './FunctionFilter';
+import { DuplicationStats, ScopeMetrics, TOP_SCOPE_COUNT, describeDuplication } from './DuplicationMetrics';
+import { Workspace, getPackageMatrix, isCrossPackage } from './Workspaces';
+import { describeReference } from './ReferenceLibrary';
+import { convertToHtml } from './HtmlReport';
+import { dedent, diffLines, formatUnifiedDiff } from './TextDiff';
+import { TOOL_NAME } from './ToolInfo';
+
+/**
+ * Supported report formats
+ */
+export type ReportFormat = 'markdown' | 'html' | 'json' | 'sarif' | 'csv' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['markdown', 'html', 'json', 'sarif', 'csv', 'junit'];
+
+// File extension used for each report format
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+  sarif: 'sarif',
+  csv: 'csv',
+  junit: 'junit.xml'
+};
+
+/**
+ * Options of formatReport
+ */
+export interface ReportOptions {
+  // Timestamp and name of the report file, shown in markdown reports
+  timestamp?: string;
+  reportFilename?: string;
+  // Include the source text of functions in JSON reports
+  includeSource?: boolean;
+}
+
+/**
+ * Escapes the pipes of a markdown table cell, which would end the cell otherwise (even
+ * inside code spans)
+ * @param text - The text of the cell
+ * @returns The escaped text
+ */
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+/**
+ * Describes an occurrence for the markdown report
+ * @param occurrence - The occurrence
+ * @returns Location, qualified name and details of the function
+ */
+function describeMarkdownOccurrence(occurrence: DuplicateOccurrence | SuppressedOccurrence): string {
+  const lines = describeLines(occurrence);
+  let description = `${occurrence.filePath}, ${lines.includes('-') ? 'lines' : 'line'} ${lines}`;
+
+  if (occurrence.package !== undefined) {
+    description += ` in ${occurrence.package}`;
+  }
+
+  if (occurrence.qualifiedName !== undefined) {
+    description += `: \`${occurrence.qualifiedName}\` (${describeFunction(occurrence)})`;
+  }
+
+  return description;
+}
+
+/**
+ * Gets the unified diff between the first variant of a name collision and another variant,
+ * comparing the first copy of each
+ * @param collision - The name collision
+ * @param index - Index of the other variant
+ * @returns The unified diff, or an empty string if the source is not available
+ */
+function getVariantDiff(collision: NameCollision, index: number): string {
+  const first = collision.variants[0].occurrences[0];
+  const other = collision.variants[index].occurrences[0];
+  if (first.content === undefined || other.content === undefined) {
+    return '';
+  }
+
+  return formatUnifiedDiff(
+    diffLines(dedent(first.content), dedent(other.content)),
+    `${first.filePath}:${first.lineNumber}`,
+    `${other.filePath}:${other.lineNumber}`
+  );
+}
+
+/**
+ * Builds a markdown table of the scopes with the most duplicated lines
+ * @param heading - The heading of the table
+ * @param column - The heading of the path column
+ * @param scopes - The scopes, sorted by duplicated lines
+ * @returns Markdown formatted string, or an empty string when there are no scopes
+ */
+function convertScopesToMarkdown(heading: string, column: string, scopes: ScopeMetrics[]): string {
+  if (scopes.length === 0) {
+    return '';
+  }
+
+  let markdown = `\n### ${heading}\n\n`;
+  if (scopes.length > TOP_SCOPE_COUNT) {
+    markdown += `The ${TOP_SCOPE_COUNT} with the most duplicated lines, of ${scopes.length}.\n\n`;
+  }
+  markdown += `| ${column} | Duplicated | Duplicated Lines | Duplicated Tokens | Groups |\n`;
+  markdown += '|:--|--:|--:|--:|--:|\n';
+
+  scopes.slice(0, TOP_SCOPE_COUNT).forEach(scope => {
+    markdown += `| ${escapeTableCell(scope.path)} | ${scope.percentage.toFixed(1)}% | ${scope.duplicatedLines} of ${scope.lines} | ` +
+      `${scope.duplicatedTokens} of ${scope.tokens} | ${scope.groups} |\n`;
+  });
+
+  return markdown;
+}
+
+/**
+ * Builds the markdown section on the duplicate groups shared by workspace packages: a
+ * matrix of the number of groups each pair of packages shares, and the groups of each pair
+ * @param workspace - The packages of the workspace and the pairs that share groups
+ * @returns Markdown formatted string
+ */
+function convertWorkspaceToMarkdown(workspace: Workspace): string {
+  let markdown = '\n## Cross-Package Duplicates\n\n';
+  if (workspace.pairs.length === 0) {
+    return markdown + `No duplicate groups are shared by the ${workspace.packages.length} packages of the workspace.\n`;
+  }
+
+  const { packages, counts } = getPackageMatrix(workspace.pairs);
+  markdown += `${packages.length} of the ${workspace.packages.length} packages of the workspace share duplicate groups. ` +
+    'Each cell is the number of groups with occurrences in both packages.\n\n';
+  markdown += `| | ${packages.map(escapeTableCell).join(' | ')} |\n`;
+  markdown += `|:--|${packages.map(() => '--:').join('|')}|\n`;
+  packages.forEach((name, row) => {
+    const cells = counts[row].map((count, column) => column === row ? '-' : String(count || ''));
+    markdown += `| **${escapeTableCell(name)}** | ${cells.join(' | ')} |\n`;
+  });
+
+  markdown += '\n| Packages | Shared Groups | Group Ids |\n';
+  markdown += '|:--|--:|:--|\n';
+  workspace.pairs.forEach(pair => {
+    markdown += `| ${escapeTableCell(pair.packages[0])} and ${escapeTableCell(pair.packages[1])} | ${pair.groups.length} | ${pair.groups.join(', ')} |\n`;
+  });
+
+  return markdown;
+}
+
+/**
+ * Converts report data to markdown format
+ * @param data - The report data
+ * @param timestamp - ISO timestamp when the report was generated (optional)
+ * @param reportFilename - Name of the report file (optional)
+ * @returns Markdown formatted string
+ */
+export function convertToMarkdown(data: ReportData, timestamp?: string, reportFilename?: string): string {
+  const { duplicates, blocks, suppressed, nameCollisions, metrics, metadata, workspace } = data;
+  if (duplicates.length === 0 && blocks.length === 0 && suppressed.length === 0 && nameCollisions.length === 0) {
+    return '# Duplicate Functions Report\n\nNo duplicate functions found.';
+  }
+
+  let markdown = '# Duplicate Functions Report\n\n';
+
+  // Add human-readable date and time
+  if (timestamp) {
+    // Parse the ISO timestamp format: 2025-07-08T03-36-25.232Z
+    // First convert it back to standard ISO format by replacing hyphens with colons in the time part
+    const isoTimestamp = timestamp.replace(/(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2}\.\d{3})Z/, '$1T$2:$3:$4Z');
+    const date = new Date(isoTimestamp);
+    markdown += `Report generated on: ${date.toLocaleString()}\n\n`;
+  }
+
+  // Add summary of what's included in the report
+  markdown += `This report contains ${duplicates.length} duplicate function declarations found in the codebase.\n`;
+  markdown += `Functions with the same name but different implementations are marked with an asterisk (*).\n\n`;
+
+  const filtered = describeFilterStats(metadata.filter, metadata.filtered);
+  if (filtered) {
+    markdown += `${filtered}.\n\n`;
+  }
+
+  markdown += '<style>\n  table { font-size: calc(1em + 2px); }\n</style>\n\n';
+  markdown += '| Function Name | Match | Occurrences |\n';
+  markdown += '|:--|:--|:-- |\n';
+
+  // Count occurrences of each function name
+  const functionNameCount: Record<string, number> = {};
+  duplicates.forEach(duplicate => {
+    functionNameCount[duplicate.name] = (functionNameCount[duplicate.name] || 0) + 1;
+  });
+
+  duplicates.forEach(duplicate => {
+    const occurrencesList = duplicate.occurrences.map((occurrence, index) => {
+      const newMarker = occurrence.isNew ? ' (new)' : '';
+      const usage = occurrence.referenceCount !== undefined
+        ? `, ${occurrence.referenceCount} ${occurrence.referenceCount === 1 ? 'reference' : 'references'}`
+        : '';
+      const recommended = duplicate.recommended?.occurrence === index + 1 ? ' **(recommended)**' : '';
+      return `<li>${escapeTableCell(describeMarkdownOccurrence(occurrence))}${usage}${newMarker}${recommended}</li>`;
+    }).join('');
+
+    // Add an asterisk if this function name appears multiple times
+    const nameWithAsterisk = functionNameCount[duplicate.name] > 1 
+      ? `${duplicate.name}*` 
+      : duplicate.name;
+
+    const reference = duplicate.reference ? `Import instead: ${escapeTableCell(describeReference(duplicate.reference))}` : '';
+    const recommendation = duplicate.recommended
+      ? `Keep ${duplicate.recommended.occurrence}: ${escapeTableCell(duplicate.recommended.reason)}`
+      : '';
+
+    markdown += `| **${escapeTableCell(nameWithAsterisk)}** | ${describeMatch(duplicate)} | <ol>${occurrencesList}</ol>${reference}${recommendation} |\n`;
+  });
+
+  if (blocks.length > 0) {
+    markdown += '\n## Duplicated Blocks\n\n';
+    markdown += `This report contains ${blocks.length} blocks of statements duplicated inside otherwise different code.\n\n`;
+    markdown += '| Statements | First Occurrence | Second Occurrence |\n';
+    markdown += '|:--|:--|:--|\n';
+
+    blocks.forEach(block => {
+      const [first, second] = block.occurrences.map(location => {
+        return `${escapeTableCell(location.filePath)}, lines ${location.startLine}-${location.endLine}`;
+      });
+      markdown += `| ${block.statementCount} | ${first} | ${second} |\n`;
+    });
+  }
+
+  if (suppressed.length > 0) {
+    markdown += '\n## Suppressed\n\n';
+    markdown += `${suppressed.length} duplicate occurrences are marked as intentional by suppression comments.\n\n`;
+    markdown += '| Function Name | Location | Directive | Reason | Duplicate Of |\n';
+    markdown += '|:--|:--|:--|:--|:--|\n';
+
+    suppressed.forEach(occurrence => {
+      const matches = occurrence.matches.map(match => `${escapeTableCell(match.filePath)}, line ${match.lineNumber}`).join('<br>');
+      const reason = escapeTableCell(occurrence.reason ?? '');
+      markdown += `| ${escapeTableCell(occurrence.name)} | ${escapeTableCell(describeMarkdownOccurrence(occurrence))} | ` +
+        `duplicate-detector-${occurrence.directive} | ${reason} | ${matches} |\n`;
+    });
+  }
+
+  if (nameCollisions.length > 0) {
+    markdown += '\n## Name Collisions\n\n';
+    markdown += `${nameCollisions.length} names are shared by functions with different implementations. ` +
+      'Each variant is compared with the first one.\n';
+
+    nameCollisions.forEach(collision => {
+      markdown += `\n### ${collision.name} (${collision.variants.length} variants)\n\n`;
+
+      collision.variants.forEach((variant, index) => {
+        const copies = variant.occurrences.map(describeMarkdownOccurrence).join('; ');
+        markdown += `${index + 1}. ${copies}\n`;
+      });
+
+      collision.variants.slice(1).forEach((_, index) => {
+        const diff = getVariantDiff(collision, index + 1);
+        if (diff) {
+          markdown += `\n\`\`\`diff\n${diff}\`\`\`\n`;
+        }
+      });
+    });
+  }
+
+  if (workspace) {
+    markdown += convertWorkspaceToMarkdown(workspace);
+  }
+
+  markdown += '\n## Duplication Metrics\n\n';
+  markdown += `Function code in the project is ${describeDuplication(metrics.project)}.\n`;
+  // A single package is the project itself
+  if (metrics.packages.length > 1) {
+    markdown += convertScopesToMarkdown('Packages', 'Package', metrics.packages);
+  }
+  markdown += convertScopesToMarkdown('Directories', 'Directory', metrics.directories);
+  markdown += convertScopesToMarkdown('Files', 'File', metrics.files);
+
+  // Add the report filename at the bottom
+  if (reportFilename) {
+    markdown += `\n\nReport file: ${reportFilename}`;
+  }
+
+  return markdown;
+}
+
+/**
+ * Converts report data to JSON format. Occurrences are located by their spans; the source
+ * text of functions, and the diffs between name collision variants, are left out unless
+ * asked for.
+ * @param data - The report data
+ * @param includeSource - Whether to include the source text of functions (defaults to false)
+ * @returns JSON formatted string
+ */
+export function convertToJson(data: ReportData, includeSource: boolean = false): string {
+  // JSON.stringify leaves out undefined properties
+  const toJsonOccurrence = <T extends { content?: string }>(occurrence: T): T =>
+    includeSource ? occurrence : { ...occurrence, content: undefined };
+
+  return JSON.stringify({
+    metadata: data.metadata,
+    summary: {
+      duplicateGroups: data.duplicates.length,
+      duplicateOccurrences: data.duplicates.reduce((total, duplicate) => total + duplicate.occurrences.length, 0),
+      duplicateBlocks: data.blocks.length,
+      suppressedOccurrences: data.suppressed.length,
+      nameCollisions: data.nameCollisions.length,
+      filteredFunctions: data.metadata.filtered.functions,
+      filteredGroups: data.metadata.filtered.groups,
+      duplicatedLines: data.metrics.project.duplicatedLines,
+      duplicationPercentage: data.metrics.project.percentage,
+      ...(data.workspace && { crossPackageGroups: data.duplicates.filter(isCrossPackage).length })
+    },
+    duplicates: data.duplicates.map(duplicate => ({
+      ...duplicate,
+      reference: duplicate.reference && toJsonOccurrence(duplicate.reference),
+      occurrences: duplicate.occurrences.map(toJsonOccurrence)
+    })),
+    blocks: data.blocks,
+    suppressed: data.suppressed.map(toJsonOccurrence),
+    nameCollisions: data.nameCollisions.map(collision => ({
+      ...collision,
+      variants: collision.variants.map((variant, index) => ({
+        ...variant,
+        occurrences: variant.occurrences.map(toJsonOccurrence),
+        // Unified diff against the first variant
+        ...(includeSource && index > 0 && { diff: getVariantDiff(collision, index) })
+      }))
+    })),
+    metrics: data.metrics,
+    workspace: data.workspace
+  }, null, 2);
+}
+
+/**
+ * Converts a relative file path to a URI reference for SARIF
+ * @param filePath - The file path relative to the project root
+ * @returns The URI reference
+ */
+function toUriReference(filePath: string): string {
+  return encodeURI(filePath.replace(/\\/g, '/'));
+}
+
+/**
+ * Builds a SARIF physical location
+ * @param filePath - The file path relative to the project root
+ * @param startLine - The first line of the region
+ * @param endLine - The last line of the region (optional)
+ * @param startColumn - The first column of the region (optional)
+ * @param endColumn - The last column of the region (optional)
+ * @returns The SARIF physical location object
+ */
+function toSarifLocation(
+  filePath: string,
+  startLine: number,
+  endLine?: number,
+  startColumn?: number,
+  endColumn?: number
+): object {
+  return {
+    physicalLocation: {
+      artifactLocation: {
+        uri: toUriReference(filePath),
+        uriBaseId: 'PROJECTROOT'
+      },
+      region: {
+        startLine,
+        ...(startColumn !== undefined && { startColumn }),
+        ...(endLine !== undefined && { endLine }),
+        // SARIF end columns point just past the region
+        ...(endColumn !== undefined && { endColumn: endColumn + 1 })
+      }
+    }
+  };
+}
+
+/**
+ * Builds the SARIF location of a function occurrence
+ * @param occurrence - The occurrence
+ * @returns The SARIF physical location object
+ */
+function toSarifFunctionLocation(occurrence: DuplicateOccurrence | SuppressedOccurrence): object {
+  return toSarifLocation(
+    occurrence.filePath,
+    occurrence.lineNumber,
+    occurrence.endLine,
+    occurrence.startColumn,
+    occurrence.endColumn
+  );
+}
+
+/**
+ * Builds the SARIF properties of a function occurrence
+ * @param occurrence - The occurrence
+ * @returns The properties, or undefined when the function details are not known
+ */
+function toSarifFunctionProperties(occurrence: DuplicateOccurrence | SuppressedOccurrence): object | undefined {
+  if (occurrence.qualifiedName === undefined) {
+    return undefined;
+  }
+
+  return {
+    qualifiedName: occurrence.qualifiedName,
+    lineCount: occurrence.lineCount,
+    tokenCount: occurrence.tokenCount,
+    statementCount: occurrence.statementCount,
+    kind: occurrence.kind,
+    package: occurrence.package,
+    exported: occurrence.exported,
+    async: occurrence.async,
+    generator: occurrence.generator
+  };
+}
+
+/**
+ * Converts report data to SARIF 2.1.0 format. Every occurrence becomes its own result,
+ * located at that occurrence and related to the other copies, so viewers such as GitHub
+ * code scanning can annotate each duplicated line. When comparing against a baseline,
+ * only new occurrences become results. Suppressed occurrences are included as results
+ * with an in-source suppression, which viewers hide by default.
+ * @param data - The report data
+ * @returns SARIF formatted string
+ */
+export function convertToSarif(data: ReportData): string {
+  const results: object[] = [];
+
+  data.duplicates.forEach(duplicate => {
+    duplicate.occurrences.forEach((occurrence, index) => {
+      if (occurrence.isNew === false) {
+        return;
+      }
+
+      // Reimplementations of a reference function point at the reference instead of each other
+      const { reference } = duplicate;
+      if (reference) {
+        results.push({
+          ruleId: 'reimplemented-function',
+          level: 'warning',
+          message: {
+            text: `Function '${occurrence.qualifiedName ?? duplicate.name}' reimplements ` +
+              `${describeReference(reference)} (${describeMatch(duplicate)} match)`
+          },
+          locations: [toSarifFunctionLocation(occurrence)],
+          relatedLocations: [{
+            id: 1,
+            ...toSarifFunctionLocation(reference),
+            message: { text: `Reference '${reference.qualifiedName ?? reference.name}'` }
+          }],
+          properties: toSarifFunctionProperties(occurrence)
+        });
+        return;
+      }
+
+      const others = duplicate.occurrences.filter((_, otherIndex) => otherIndex !== index);
+
+      results.push({
+        ruleId: 'duplicate-function',
+        level: 'warning',
+        message: {
+          text: `Function '${occurrence.qualifiedName ?? duplicate.name}' is duplicated in ${others.length} other ` +
+            `${others.length === 1 ? 'place' : 'places'} (${describeMatch(duplicate)} match): ` +
+            others.map(other => `${other.filePath}:${other.lineNumber}`).join(', ')
+        },
+        locations: [toSarifFunctionLocation(occurrence)],
+        relatedLocations: others.map((other, otherIndex) => ({
+          id: otherIndex + 1,
+          ...toSarifFunctionLocation(other),
+          message: { text: `Copy of '${other.qualifiedName ?? duplicate.name}'` }
+        })),
+        properties: toSarifFunctionProperties(occurrence)
+      });
+    });
+  });
+
+  data.blocks.forEach(block => {
+    block.occurrences.forEach((location, index) => {
+      const other = block.occurrences[1 - index];
+
+      results.push({
+        ruleId: 'duplicate-block',
+        level: 'warning',
+        message: {
+          text: `Block of ${block.statementCount} statements is duplicated at ` +
+            `${other.filePath}:${other.startLine}-${other.endLine}`
+        },
+        locations: [toSarifLocation(location.filePath, location.startLine, location.endLine)],
+        relatedLocations: [{
+          id: 1,
+          ...toSarifLocation(other.filePath, other.startLine, other.endLine),
+          message: { text: 'Copy of this block' }
+        }]
+      });
+    });
+  });
+
+  data.suppressed.forEach(occurrence => {
+    results.push({
+      ruleId: 'duplicate-function',
+      level: 'warning',
+      message: {
+        text: `Function '${occurrence.qualifiedName ?? occurrence.name}' is an intentional duplicate of: ` +
+          occurrence.matches.map(match => `${match.filePath}:${match.lineNumber}`).join(', ')
+      },
+      locations: [toSarifFunctionLocation(occurrence)],
+      relatedLocations: occurrence.matches.map((match, index) => ({
+        id: index + 1,
+        ...toSarifLocation(match.filePath, match.lineNumber),
+        message: { text: `Copy of '${occurrence.name}'` }
+      })),
+      suppressions: [{
+        kind: 'inSource',
+        ...(occurrence.reason && { justification: occurrence.reason })
+      }],
+      properties: toSarifFunctionProperties(occurrence)
+    });
+  });
+
+  data.nameCollisions.forEach(collision => {
+    collision.variants.forEach((variant, index) => {
+      const occurrence = variant.occurrences[0];
+      const others = collision.variants.filter((_, otherIndex) => otherIndex !== index).map(other => other.occurrences[0]);
+
+      results.push({
+        ruleId: 'name-collision',
+        level: 'note',
+        message: {
+          text: `Function '${collision.name}' has ${collision.variants.length} different implementations; ` +
+            `this one differs from: ${others.map(other => `${other.filePath}:${other.lineNumber}`).join(', ')}`
+        },
+        locations: [toSarifFunctionLocation(occurrence)],
+        relatedLocations: others.map((other, otherIndex) => ({
+          id: otherIndex + 1,
+          ...toSarifFunctionLocation(other),
+          message: { text: `Other implementation of '${collision.name}'` }
+        })),
+        properties: toSarifFunctionProperties(occurrence)
+      });
+    });
+  });
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: data.metadata.toolVersion,
+            rules: [
+              {
+                id: 'duplicate-function',
+                name: 'DuplicateFunction',
+                shortDescription: { text: 'Duplicate function' },
+                fullDescription: { text: 'The same function is implemented in more than one place.' },
+                defaultConfiguration: { level: 'warning' }
+              },
+              {
+                id: 'duplicate-block',
+                name: 'DuplicateBlock',
+                shortDescription: { text: 'Duplicated block of statements' },
+                fullDescription: { text: 'The same run of statements appears in more than one place.' },
+                defaultConfiguration: { level: 'warning' }
+              },
+              {
+                id: 'reimplemented-function',
+                name: 'ReimplementedFunction',
+                shortDescription: { text: 'Reimplemented reference function' },
+                fullDescription: { text: 'A function of a reference library is implemented again instead of imported.' },
+                defaultConfiguration: { level: 'warning' }
+              },
+              {
+                id: 'name-collision',
+                name: 'NameCollision',
+                shortDescription: { text: 'Same-named functions with different implementations' },
+                fullDescription: { text: 'Functions with the same name are implemented differently in more than one place.' },
+                defaultConfiguration: { level: 'note' }
+              }
+            ]
+          }
+        },
+        originalUriBaseIds: {
+          PROJECTROOT: {
+            uri: `${pathToFileURL(data.metadata.projectRoot).href.replace(/\/?$/, '/')}`
+          }
+        },
+        invocations: [
+          {
+            executionSuccessful: true,
+            endTimeUtc: data.metadata.generatedAt
+          }
+        ],
+        properties: {
+          mode: data.metadata.mode,
+          typeAware: data.metadata.typeAware,
+          fileCount: data.metadata.fileCount,
+          functionCount: data.metadata.functionCount,
+          filteredFunctionCount: data.metadata.filtered.functions,
+          filteredGroupCount: data.metadata.filtered.groups,
+          duplication: data.metrics.project,
+          ...(data.workspace && { packagePairs: data.workspace.pairs })
+        },
+        results
+      }
+    ]
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
+/**
+ * Escapes a value for use in a CSV cell
+ * @param value - The value to escape
+ * @returns The escaped value
+ */
+function escapeCsv(value: string | number | boolean | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Gets the CSV cells of the function details of an occurrence
+ * @param occurrence - The occurrence
+ * @returns The qualifiedName, startColumn, endColumn, lineCount, tokenCount, exported,
+ * async, generator, statementCount, kind and package cells
+ */
+function toCsvFunctionCells(occurrence: DuplicateOccurrence | SuppressedOccurrence): Array<string | number | boolean | undefined> {
+  return [
+    occurrence.qualifiedName,
+    occurrence.startColumn,
+    occurrence.endColumn,
+    occurrence.lineCount,
+    occurrence.tokenCount,
+    occurrence.exported,
+    occurrence.async,
+    occurrence.generator,
+    occurrence.statementCount,
+    occurrence.kind,
+    occurrence.package
+  ];
+}
+
+/**
+ * Gets the CSV row of the duplication metrics of a scope
+ * @param type - The kind of scope: project, package, directory or file
+ * @param scopePath - The path of the scope
+ * @param stats - The statistics of the scope
+ * @param columnCount - The number of columns before the metrics columns
+ * @returns The row
+ */
+function toCsvMetricsRow(type: string, scopePath: string, stats: DuplicationStats, columnCount: number): Array<string | number | undefined> {
+  const row: Array<string | number | undefined> = Array(columnCount).fill(undefined);
+  row[1] = type;
+  row[5] = scopePath;
+
+  return [
+    ...row,
+    stats.lines,
+    stats.duplicatedLines,
+    stats.tokens,
+    stats.duplicatedTokens,
+    stats.percentage,
+    stats.groups
+  ];
+}
+
+/**
+ * Converts report data to CSV format, with one row per occurrence, followed by the
+ * duplication metrics of the project and of every package, directory and duplicated file
+ * @param data - The report data
+ * @returns CSV formatted string
+ */
+export function convertToCsv(data: ReportData): string {
+  // Metrics rows leave the occurrence columns empty, apart from the type and path
+  const occurrenceColumns = [
+    'group', 'type', 'name', 'mode', 'similarity', 'filePath', 'startLine', 'endLine', 'isNew', 'suppressionReason',
+    'qualifiedName', 'startColumn', 'endColumn', 'lineCount', 'tokenCount', 'exported', 'async', 'generator',
+    'statementCount', 'kind', 'package', 'variant', 'referenceName', 'referencePackage', 'referenceFilePath', 'referenceLine'
+  ];
+  const metricsColumns = ['lines', 'duplicatedLines', 'tokens', 'duplicatedTokens', 'percentage', 'groups'];
+  const occurrenceColumnCount = occurrenceColumns.length;
+  const rows: Array<Array<string | number | boolean | undefined>> = [[...occurrenceColumns, ...metricsColumns]];
+
+  data.duplicates.forEach((duplicate, index) => {
+    const { reference } = duplicate;
+    const referenceCells = reference
+      ? [undefined, reference.qualifiedName ?? reference.name, reference.package, reference.filePath, reference.lineNumber]
+      : [];
+
+    duplicate.occurrences.forEach(occurrence => {
+      rows.push([
+        index + 1,
+        'function',
+        duplicate.name,
+        duplicate.mode,
+        duplicate.similarity === undefined ? undefined : duplicate.similarity.toFixed(2),
+        occurrence.filePath,
+        occurrence.lineNumber,
+        occurrence.endLine,
+        occurrence.isNew === undefined ? undefined : String(occurrence.isNew),
+        undefined,
+        ...toCsvFunctionCells(occurrence),
+        ...referenceCells
+      ]);
+    });
+  });
+
+  data.blocks.forEach((block, index) => {
+    block.occurrences.forEach(location => {
+      rows.push([
+        data.duplicates.length + index + 1,
+        'block',
+        `${block.statementCount} statements`,
+        undefined,
+        undefined,
+        location.filePath,
+        location.startLine,
+        location.endLine,
+        undefined,
+        undefined
+      ]);
+    });
+  });
+
+  data.suppressed.forEach(occurrence => {
+    rows.push([
+      undefined,
+      'suppressed',
+      occurrence.name,
+      data.metadata.mode,
+      undefined,
+      occurrence.filePath,
+      occurrence.lineNumber,
+      occurrence.endLine,
+      undefined,
+      occurrence.reason,
+      ...toCsvFunctionCells(occurrence)
+    ]);
+  });
+
+  data.nameCollisions.forEach((collision, index) => {
+    collision.variants.forEach((variant, variantIndex) => {
+      variant.occurrences.forEach(occurrence => {
+        rows.push([
+          data.duplicates.length + data.blocks.length + index + 1,
+          'name-collision',
+          collision.name,
+          undefined,
+          undefined,
+          occurrence.filePath,
+          occurrence.lineNumber,
+          occurrence.endLine,
+          undefined,
+          undefined,
+          ...toCsvFunctionCells(occurrence),
+          variantIndex + 1
+        ]);
+      });
+    });
+  });
+
+  rows.push(toCsvMetricsRow('project', '.', data.metrics.project, occurrenceColumnCount));
+  data.metrics.packages.forEach(scope => rows.push(toCsvMetricsRow('package', scope.path, scope, occurrenceColumnCount)));
+  data.metrics.directories.forEach(scope => rows.push(toCsvMetricsRow('directory', scope.path, scope, occurrenceColumnCount)));
+  data.metrics.files.forEach(scope => rows.push(toCsvMetricsRow('file', scope.path, scope, occurrenceColumnCount)));
+
+  // Rows leave out the trailing columns that do not apply to them
+  const columnCount = rows[0].length;
+  return rows.map(row => [...row, ...Array(columnCount - row.length).fill(undefined)].map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Escapes a value for use in XML text or attributes
+ * @param value - The value to escape
+ * @returns The escaped value
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Converts report data to JUnit XML format. Every duplicate group is a failing test case,
+ * so CI systems that understand JUnit list each group as a failure; suppressed occurrences
+ * are skipped test cases.
+ * @param data - The report data
+ * @returns JUnit XML formatted string
+ */
+export function convertToJUnit(data: ReportData): string {
+  const testCases: string[] = [];
+
+  data.duplicates.forEach(duplicate => {
+    const locations = duplicate.occurrences.map(occurrence => {
+      const location = `${occurrence.filePath}:${describeLines(occurrence)}`;
+      return occurrence.qualifiedName === undefined ? location : `${location} ${occurrence.qualifiedName}`;
+    });
+    const message = duplicate.reference
+      ? `Function '${duplicate.name}' is reimplemented in ${duplicate.occurrences.length} ${duplicate.occurrences.length === 1 ? 'place' : 'places'}; ` +
+        `import ${describeReference(duplicate.reference)} instead (${describeMatch(duplicate)} match)`
+      : `Function '${duplicate.name}' has ${duplicate.occurrences.length} copies (${describeMatch(duplicate)} match)`;
+    const type = duplicate.reference ? 'reimplemented-function' : 'duplicate-function';
+    const first = duplicate.occurrences[0];
+
+    testCases.push(
+      `    <testcase classname="${TOOL_NAME}.functions" ` +
+      `name="${escapeXml(`${first.qualifiedName ?? duplicate.name} (${first.filePath}:${first.lineNumber})`)}">\n` +
+      `      <failure message="${escapeXml(message)}" type="${type}">${escapeXml(locations.join('\n'))}</failure>\n` +
+      '    </testcase>'
+    );
+  });
+
+  data.blocks.forEach(block => {
+    const locations = block.occurrences.map(location => `${location.filePath}:${location.startLine}-${location.endLine}`);
+    const message = `Block of ${block.statementCount} statements is duplicated`;
+
+    testCases.push(
+      `    <testcase classname="${TOOL_NAME}.blocks" name="${escapeXml(locations[0])}">\n` +
+      `      <failure message="${escapeXml(message)}" type="duplicate-block">${escapeXml(locations.join('\n'))}</failure>\n` +
+      '    </testcase>'
+    );
+  });
+
+  data.suppressed.forEach(occurrence => {
+    const location = `${occurrence.filePath}:${occurrence.lineNumber}`;
+    const message = occurrence.reason ?? `Suppressed by duplicate-detector-${occurrence.directive}`;
+
+    testCases.push(
+      `    <testcase classname="${TOOL_NAME}.suppressed" name="${escapeXml(`${occurrence.qualifiedName ?? occurrence.name} (${location})`)}">\n` +
+      `      <skipped message="${escapeXml(message)}"/>\n` +
+      '    </testcase>'
+    );
+  });
+
+  // A passing test case keeps the suite visible when nothing was found
+  if (testCases.length === 0) {
+    testCases.push(`    <testcase classname="${TOOL_NAME}" name="no duplicates"/>`);
+  }
+
+  const { project } = data.metrics;
+  const properties = Object.entries({
+    lines: project.lines,
+    duplicatedLines: project.duplicatedLines,
+    tokens: project.tokens,
+    duplicatedTokens: project.duplicatedTokens,
+    duplicationPercentage: project.percentage,
+    groups: project.groups,
+    filteredFunctions: data.metadata.filtered.functions,
+    filteredGroups: data.metadata.filtered.groups,
+    ...(data.workspace && { crossPackageGroups: data.duplicates.filter(isCrossPackage).length })
+  }).map(([name, value]) => `      <property name="${name}" value="${value}"/>`);
+
+  const failures = data.duplicates.length + data.blocks.length;
+  const skipped = data.suppressed.length;
+  const tests = Math.max(failures + skipped, 1);
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<testsuites name="${TOOL_NAME}" tests="${tests}" failures="${failures}" skipped="${skipped}">\n` +
+    `  <testsuite name="${TOOL_NAME}" tests="${tests}" failures="${failures}" skipped="${skipped}" timestamp="${data.metadata.generatedAt}">\n` +
+    '    <properties>\n' + properties.join('\n') + '\n    </properties>\n' +
+    testCases.join('\n') + '\n' +
+    '  </testsuite>\n' +
+    '</testsuites>\n';
+}
+
+/**
+ * Converts report data to the given format
+ * @param format - The report format
+ * @param data - The report data
+ * @param options - The timestamp and name of the report file, and whether to include the
+ * source text of functions
+ * @returns The formatted report
+ */
+export function formatReport(format: ReportFormat, data: ReportData, options: ReportOptions = {}): string {
+  switch (format) {
+    case 'json':
+      return convertToJson(data, options.includeSource);
+    case 'sarif':
+      return convertToSarif(data);
+    case 'csv':
+      return convertToCsv(data);
+    case 'junit':
+      return convertToJUnit(data);
+    case 'html':
+      return convertToHtml(data);
+    case 'markdown':
+      return convertToMarkdown(data, options.timestamp, options.reportFilename);
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * ReportModel
+ *
+ * The data that every report format is built from: duplicate groups, duplicated blocks,
+ * name collisions and information about the run that found them.
+ */
+
+import path from 'path';
+import { DetectionMode } from './ConvertToHash';
+import { DuplicateBlock } from './BlockCloneFinder';
+import type { FunctionDetails } from './FunctionFinder';
+import type { NameCollision } from './NameCollisionFinder';
+import type { DuplicationMetrics, ScopeMetrics } from './DuplicationMetrics';
+import type { FunctionFilter, FilterStats } from './FunctionFilter';
+import type { SuppressionDirective } from './SuppressionComments';
+import { Workspace, findPackagePairs } from './Workspaces';
+import type { ScanResult } from './DuplicateScanner';
+import type { ReferenceSymbol } from './ReferenceLibrary';
+import type { CanonicalRecommendation } from './UsageAnalysis';
+import { getToolVersion } from './ToolInfo';
+
+/**
+ * Interface for duplicate function reporting
+ */
+export interface DuplicateFunction {
+  name: string;
+  mode: DetectionMode;
+  // Lowest similarity (0 to 1) between any two members, only set in near mode
+  similarity?: number;
+  // Hash the occurrences share, not set in near mode
+  hash?: string;
+  // Only set when comparing against a baseline: whether the whole group is new,
+  // or the group was known and gained new occurrences
+  baselineStatus?: 'new-group' | 'new-occurrences';
+  // Only set when comparing against reference libraries: the reference function that the
+  // occurrences reimplement, to import instead
+  reference?: ReferenceSymbol;
+  // Only set by usage analysis: the copy recommended to keep
+  recommended?: CanonicalRecommendation;
+  occurrences: DuplicateOccurrence[];
+}
+
+/**
+ * One copy of a duplicated function. The function details are set for every occurrence
+ * found by a scan.
+ */
+export interface DuplicateOccurrence extends Partial<FunctionDetails> {
+  filePath: string;
+  lineNumber: number;
+  // Source text of the occurrence, when available
+  content?: string;
+  // Name of the workspace package the occurrence is in, only set in a workspace
+  package?: string;
+  // Only set by usage analysis: the number of references to the function from the scanned
+  // files (not known for functions in components), and the number of directories between
+  // the project root and its file
+  referenceCount?: number;
+  depth?: number;
+  // Only set when comparing against a baseline or a git ref: whether the occurrence is
+  // not in the baseline, or is in changed code
+  isNew?: boolean;
+}
+
+/**
+ * A duplicate occurrence marked as intentional by a comment directive
+ */
+export interface SuppressedOccurrence extends Partial<FunctionDetails> {
+  name: string;
+  filePath: string;
+  lineNumber: number;
+  content?: string;
+  // Name of the workspace package the occurrence is in, only set in a workspace
+  package?: string;
+  directive: SuppressionDirective;
+  reason?: string;
+  // The other occurrences of the group the function would have been reported in
+  matches: Array<{ filePath: string; lineNumber: number }>;
+}
+
+/**
+ * Information about the run that produced a report
+ */
+export interface ReportMetadata {
+  toolVersion: string;
+  // ISO timestamp of when the report was generated
+  generatedAt: string;
+  // Absolute path of the scanned directory
+  projectRoot: string;
+  mode: DetectionMode;
+  // Whether identifiers were resolved to their declarations before hashing
+  typeAware: boolean;
+  // Similarity threshold, only set in near mode
+  similarityThreshold?: number;
+  fileCount: number;
+  functionCount: number;
+  filter: FunctionFilter;
+  // Number of functions and groups left out by the filter
+  filtered: FilterStats;
+}
+
+/**
+ * Everything a report is built from. File paths are relative to the project root.
+ */
+export interface ReportData {
+  metadata: ReportMetadata;
+  duplicates: DuplicateFunction[];
+  blocks: DuplicateBlock[];
+  suppressed: SuppressedOccurrence[];
+  nameCollisions: NameCollision[];
+  // Measured on the whole scan, before comparing against a baseline or a git ref
+  metrics: DuplicationMetrics;
+  // Only set when the project is the root of a workspace
+  workspace?: Workspace;
+}
+
+/**
+ * Describes how the functions of a duplicate group matched
+ * @param duplicate - The duplicate function group
+ * @returns Description such as "exact" or "near, 92% similar"
+ */
+export function describeMatch(duplicate: DuplicateFunction): string {
+  if (duplicate.similarity === undefined) {
+    return duplicate.mode;
+  }
+  return `${duplicate.mode}, ${Math.round(duplicate.similarity * 100)}% similar`;
+}
+
+/**
+ * Gets the lines an occurrence spans
+ * @param occurrence - The occurrence
+ * @returns "10-24", or the start line alone when the end line is not known or the same
+ */
+export function describeLines(occurrence: DuplicateOccurrence | SuppressedOccurrence): string {
+  const { lineNumber, endLine } = occurrence;
+  return endLine === undefined || endLine === lineNumber ? `${lineNumber}` : `${lineNumber}-${endLine}`;
+}
+
+/**
+ * Describes the size and kind of a function
+ * @param details - The details of the function
+ * @returns Description such as "15 lines, 120 tokens, exported, async", or an empty string
+ * when the details are not known
+ */
+export function describeFunction(details: Partial<FunctionDetails>): string {
+  if (details.lineCount === undefined) {
+    return '';
+  }
+
+  const parts = [
+    `${details.lineCount} ${details.lineCount === 1 ? 'line' : 'lines'}`,
+    `${details.tokenCount} tokens`
+  ];
+  if (details.exported) {
+    parts.push('exported');
+  }
+  if (details.async) {
+    parts.push('async');
+  }
+  if (details.generator) {
+    parts.push('generator');
+  }
+
+  return parts.join(', ');
+}
+
+/**
+ * Builds report data from the result of a scan, making file paths relative to the project root
+ * @param result - The scan result
+ * @param generatedAt - ISO timestamp of when the report was generated (defaults to now)
+ * @returns The report data
+ */
+export function createReportData(result: ScanResult, generatedAt: string = new Date().toISOString()): ReportData {
+  const toRelative = (filePath: string) => path.relative(result.projectRoot, filePath);
+  const toRelativeScopes = (scopes: ScopeMetrics[]) => scopes.map(scope => ({ ...scope, path: toRelative(scope.path) || '.' }));
+
+  return {
+    metadata: {
+      toolVersion: getToolVersion(),
+      generatedAt,
+      projectRoot: result.projectRoot,
+      mode: result.mode,
+      typeAware: result.typeAware,
+      similarityThreshold: result.similarity,
+      fileCount: result.sourceFileCount,
+      functionCount: result.functionCount,
+      filter: result.filter,
+      filtered: result.filtered
+    },
+    duplicates: result.duplicates.map(duplicate => ({
+      ...duplicate,
+      ...(duplicate.reference && { reference: { ...duplicate.reference, filePath: toRelative(duplicate.reference.filePath) } }),
+      occurrences: duplicate.occurrences.map(occurrence => ({
+        ...occurrence,
+        filePath: toRelative(occurrence.filePath)
+      }))
+    })),
+    blocks: result.blocks.map(block => ({
+      ...block,
+      occurrences: block.occurrences.map(location => ({
+        ...location,
+        filePath: toRelative(location.filePath)
+      })) as DuplicateBlock['occurrences']
+    })),
+    suppressed: result.suppressed.map(occurrence => ({
+      ...occurrence,
+      filePath: toRelative(occurrence.filePath),
+      matches: occurrence.matches.map(match => ({ ...match, filePath: toRelative(match.filePath) }))
+    })),
+    nameCollisions: result.nameCollisions.map(collision => ({
+      ...collision,
+      variants: collision.variants.map(variant => ({
+        ...variant,
+        occurrences: variant.occurrences.map(occurrence => ({
+          ...occurrence,
+          filePath: toRelative(occurrence.filePath)
+        }))
+      }))
+    })),
+    metrics: {
+      project: result.metrics.project,
+      packages: toRelativeScopes(result.metrics.packages),
+      directories: toRelativeScopes(result.metrics.directories),
+      files: toRelativeScopes(result.metrics.files)
+    },
+    workspace: result.workspacePackages && {
+      packages: result.workspacePackages.map(workspacePackage => ({
+        ...workspacePackage,
+        path: toRelative(workspacePackage.path) || '.'
+      })),
+      pairs: findPackagePairs(result.duplicates)
+    }
+  };
+}
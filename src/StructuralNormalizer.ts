@@ -0,0 +1,351 @@
+/**
+ * StructuralNormalizer
+ *
+ * Produces a canonical form of a function using TypeScript's AST. Parameters and local
+ * bindings are renamed consistently, so functions that only differ in the names chosen
+ * for their own variables normalize to the same token stream.
+ */
+
+import * as ts from 'typescript';
+
+// Name of the class (or object) used to wrap members so they can be parsed on their own
+const WRAPPER_CLASS_NAME = '__DuplicateDetectorWrapper__';
+
+/**
+ * Result of parsing the text of a single function
+ */
+export interface ParsedFunction {
+  sourceFile: ts.SourceFile;
+  // The node whose tokens make up the function (statement or class member)
+  root: ts.Node;
+  // The function-like node itself
+  functionNode: ts.SignatureDeclaration;
+}
+
+/**
+ * Checks if a node is a function-like declaration with a body
+ * @param node - The node to check
+ * @returns true if the node is a function, method, accessor or constructor
+ */
+function isFunctionLikeNode(node: ts.Node): node is ts.SignatureDeclaration {
+  return ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node);
+}
+
+/**
+ * Finds the first function-like node in a subtree
+ * @param node - The node to search
+ * @returns The first function-like node, or undefined if there is none
+ */
+export function findFunctionNode(node: ts.Node): ts.SignatureDeclaration | undefined {
+  if (isFunctionLikeNode(node)) {
+    return node;
+  }
+  return ts.forEachChild(node, findFunctionNode);
+}
+
+/**
+ * Gets the function assigned by a statement such as `exports.name = () => {}` or
+ * `export default () => {}`
+ * @param statement - The statement to check
+ * @returns The assigned function, or undefined if the statement assigns no function
+ */
+function getAssignedFunction(statement: ts.Statement): ts.SignatureDeclaration | undefined {
+  let value: ts.Expression | undefined;
+
+  if (ts.isExpressionStatement(statement) &&
+      ts.isBinaryExpression(statement.expression) &&
+      statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+    value = statement.expression.right;
+  } else if (ts.isExportAssignment(statement)) {
+    value = statement.expression;
+  }
+
+  return value && isFunctionLikeNode(value) ? value : undefined;
+}
+
+/**
+ * Gets the function of a class or object literal member, which is either the member itself
+ * or the function assigned to a property
+ * @param member - The member to check
+ * @returns The function, or undefined if the member holds no function
+ */
+function getMemberFunction(member: ts.Node | undefined): ts.SignatureDeclaration | undefined {
+  if (!member) {
+    return undefined;
+  }
+
+  if (isFunctionLikeNode(member)) {
+    return member;
+  }
+
+  if ((ts.isPropertyDeclaration(member) || ts.isPropertyAssignment(member)) &&
+      member.initializer &&
+      isFunctionLikeNode(member.initializer)) {
+    return member.initializer;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses the text of a function as extracted by FunctionFinder.
+ * Function declarations, variable statements and assignments parse on their own, while
+ * class members (methods, accessors, constructors, properties) are wrapped in a class and
+ * object literal properties in an object literal before parsing.
+ * @param content - The function text
+ * @returns The parsed function, or null if no function could be found in the text
+ */
+export function parseFunctionContent(content: string): ParsedFunction | null {
+  const sourceFile = ts.createSourceFile('function.ts', content, ts.ScriptTarget.Latest, true);
+  const firstStatement = sourceFile.statements[0];
+
+  if (firstStatement && (ts.isFunctionDeclaration(firstStatement) || ts.isVariableStatement(firstStatement))) {
+    const functionNode = findFunctionNode(firstStatement);
+    if (functionNode) {
+      return { sourceFile, root: firstStatement, functionNode };
+    }
+  }
+
+  const assignedFunction = firstStatement && getAssignedFunction(firstStatement);
+  if (assignedFunction) {
+    return { sourceFile, root: firstStatement, functionNode: assignedFunction };
+  }
+
+  const wrappedFile = ts.createSourceFile(
+    'function.ts',
+    `class ${WRAPPER_CLASS_NAME} {\n${content}\n}`,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const wrapper = wrappedFile.statements[0];
+
+  if (wrapper && ts.isClassDeclaration(wrapper)) {
+    const member = wrapper.members[0];
+    const functionNode = getMemberFunction(member);
+    if (functionNode) {
+      return { sourceFile: wrappedFile, root: member, functionNode };
+    }
+  }
+
+  const objectFile = ts.createSourceFile(
+    'function.ts',
+    `const ${WRAPPER_CLASS_NAME} = {\n${content}\n};`,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const objectStatement = objectFile.statements[0];
+
+  if (objectStatement && ts.isVariableStatement(objectStatement)) {
+    const initializer = objectStatement.declarationList.declarations[0]?.initializer;
+    const property = initializer && ts.isObjectLiteralExpression(initializer) ? initializer.properties[0] : undefined;
+    const functionNode = getMemberFunction(property);
+    if (property && functionNode) {
+      return { sourceFile: objectFile, root: property, functionNode };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Adds every identifier introduced by a binding name (including destructuring patterns)
+ * @param name - The binding name
+ * @param bindings - Set of local binding names
+ */
+function collectBindingName(name: ts.BindingName, bindings: Set<string>): void {
+  if (ts.isIdentifier(name)) {
+    bindings.add(name.text);
+    return;
+  }
+
+  name.elements.forEach(element => {
+    if (ts.isBindingElement(element)) {
+      collectBindingName(element.name, bindings);
+    }
+  });
+}
+
+/**
+ * Collects the names of all parameters and locals declared inside a node
+ * @param root - The node to search
+ * @returns Set of local binding names
+ */
+function collectLocalBindings(root: ts.Node): Set<string> {
+  const bindings = new Set<string>();
+
+  function visit(node: ts.Node) {
+    if (ts.isParameter(node) || ts.isVariableDeclaration(node)) {
+      collectBindingName(node.name, bindings);
+    } else if ((ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isClassDeclaration(node)) && node.name) {
+      bindings.add(node.name.text);
+    }
+
+    ts.forEachChild(node, visit);
+  }
+
+  visit(root);
+
+  return bindings;
+}
+
+/**
+ * Checks if an identifier is used as a property or member name rather than a reference
+ * @param identifier - The identifier to check
+ * @returns true if the identifier names a property
+ */
+export function isPropertyName(identifier: ts.Identifier): boolean {
+  const parent = identifier.parent;
+
+  if (ts.isPropertyAccessExpression(parent)) {
+    return parent.name === identifier;
+  }
+
+  if (ts.isQualifiedName(parent)) {
+    return parent.right === identifier;
+  }
+
+  if (ts.isBindingElement(parent)) {
+    return parent.propertyName === identifier;
+  }
+
+  if (ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isMethodSignature(parent) ||
+      ts.isGetAccessorDeclaration(parent) ||
+      ts.isSetAccessorDeclaration(parent) ||
+      ts.isEnumMember(parent) ||
+      ts.isJsxAttribute(parent)) {
+    return parent.name === identifier;
+  }
+
+  return false;
+}
+
+/**
+ * Checks if an identifier is both a property name and a binding or reference, as in a
+ * shorthand property ({ count }) or a shorthand destructuring (const { total } = o)
+ * @param identifier - The identifier to check
+ * @returns true if the identifier also names a key
+ */
+export function isShorthandKey(identifier: ts.Identifier): boolean {
+  const parent = identifier.parent;
+
+  if (ts.isShorthandPropertyAssignment(parent)) {
+    return parent.name === identifier;
+  }
+
+  return ts.isBindingElement(parent) &&
+    parent.name === identifier &&
+    !parent.propertyName &&
+    !parent.dotDotDotToken &&
+    ts.isObjectBindingPattern(parent.parent);
+}
+
+/**
+ * Checks if a node is part of a JSDoc comment
+ * @param node - The node to check
+ * @returns true if the node belongs to JSDoc
+ */
+function isJSDocNode(node: ts.Node): boolean {
+  return node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode;
+}
+
+/**
+ * Calls a callback for every token of a node in source order, skipping comments and JSDoc
+ * @param node - The node to walk
+ * @param sourceFile - The source file containing the node
+ * @param callback - Called with each token node and its text
+ */
+export function forEachToken(node: ts.Node, sourceFile: ts.SourceFile, callback: (token: ts.Node, text: string) => void): void {
+  if (isJSDocNode(node)) {
+    return;
+  }
+
+  const children = node.getChildren(sourceFile);
+  if (children.length > 0) {
+    children.forEach(child => forEachToken(child, sourceFile, callback));
+    return;
+  }
+
+  const text = node.getText(sourceFile);
+  if (text.length > 0) {
+    callback(node, text);
+  }
+}
+
+/**
+ * Gets the tokens of a parsed function with local bindings renamed to positional
+ * placeholders ($0, $1, ...) in order of first appearance
+ * @param parsed - The parsed function
+ * @param resolveIdentifier - Gives the token of an identifier that is not a local binding,
+ * or undefined to keep its text (optional)
+ * @returns Array of canonical tokens
+ */
+export function getCanonicalTokens(
+  parsed: ParsedFunction,
+  resolveIdentifier?: (identifier: ts.Identifier) => string | undefined
+): string[] {
+  const { sourceFile, root, functionNode } = parsed;
+  const bindings = collectLocalBindings(root);
+  const placeholders = new Map<string, string>();
+  const tokens: string[] = [];
+
+  // The function's own name is not part of its structure
+  const ownName = functionNode.name && ts.isIdentifier(functionNode.name) ? functionNode.name : undefined;
+  if (ownName) {
+    bindings.add(ownName.text);
+  }
+
+  const getPlaceholder = (name: string): string => {
+    if (!placeholders.has(name)) {
+      placeholders.set(name, `$${placeholders.size}`);
+    }
+    return placeholders.get(name)!;
+  };
+
+  forEachToken(root, sourceFile, (node, text) => {
+    if (ts.isIdentifier(node) && bindings.has(node.text) && isShorthandKey(node)) {
+      // { count } names the key count as well as the binding, as { count: count } does
+      tokens.push(text, ':', getPlaceholder(node.text));
+    } else if (ts.isIdentifier(node) && bindings.has(node.text) && (node === ownName || !isPropertyName(node))) {
+      tokens.push(getPlaceholder(node.text));
+    } else if (resolveIdentifier && ts.isIdentifier(node)) {
+      tokens.push(resolveIdentifier(node) ?? text);
+    } else {
+      tokens.push(text);
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * Gets the canonical token stream for the text of a function
+ * @param content - The function text
+ * @returns Array of canonical tokens, or null if the text could not be parsed as a function
+ */
+export function getStructuralTokens(content: string): string[] | null {
+  const parsed = parseFunctionContent(content);
+  return parsed ? getCanonicalTokens(parsed) : null;
+}
+
+/**
+ * Normalizes a function to its structural form, where formatting, comments and the names
+ * of parameters and locals no longer matter
+ * @param content - The function text
+ * @returns The structural form of the function as a string
+ */
+export function normalizeFunctionStructure(content: string): string {
+  const tokens = getStructuralTokens(content);
+
+  // Fall back to the text itself if it cannot be parsed as a function
+  return tokens ? tokens.join(' ') : content.replace(/\s+/g, '');
+}
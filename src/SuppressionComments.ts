@@ -0,0 +1,241 @@
+/**
+ * SuppressionComments
+ *
+ * Recognizes the comment directives that mark intentional duplicates, each with an
+ * optional reason after the directive:
+ * - `// duplicate-detector-ignore` before a function suppresses that function
+ * - a `duplicate-detector-disable` comment suppresses the functions that start before the
+ *   next `duplicate-detector-enable` comment (or the end of the file)
+ * - `// duplicate-detector-disable-file` anywhere in a file suppresses all its functions
+ *
+ * Suppressed functions are still compared with the rest of the project, then taken out of
+ * their groups and listed separately with their reasons.
+ */
+
+import * as ts from 'typescript';
+import type { FunctionInfo } from './FunctionFinder';
+import { DuplicateBlock } from './BlockCloneFinder';
+import { DuplicateFunction, DuplicateOccurrence, SuppressedOccurrence } from './ReportModel';
+
+/**
+ * The kind of directive that suppressed a function
+ */
+export type SuppressionDirective = 'ignore' | 'disable' | 'disable-file';
+
+/**
+ * Why a function is suppressed
+ */
+export interface Suppression {
+  directive: SuppressionDirective;
+  reason?: string;
+}
+
+/**
+ * The disable directives of a file
+ */
+export interface FileSuppressions {
+  // Set when the whole file is disabled
+  file?: Suppression;
+  // Ranges of source positions disabled by disable/enable pairs
+  ranges: Array<{ start: number; end: number; suppression: Suppression }>;
+}
+
+// Matches a directive at the start of a comment's text, with an optional reason after it
+const DIRECTIVE_PATTERN = /^duplicate-detector-(ignore|disable-file|disable|enable)(?![\w-])(.*)$/s;
+
+/**
+ * Parses a comment as a directive
+ * @param commentText - The full text of the comment, including its delimiters
+ * @returns The directive and its reason, or undefined if the comment is not a directive
+ */
+function parseDirective(commentText: string): { name: string; reason?: string } | undefined {
+  const text = commentText.startsWith('//')
+    ? commentText.slice(2)
+    : commentText.slice(2, -2).replace(/^\s*\*+/gm, '');
+
+  const match = text.trim().match(DIRECTIVE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  // The reason may be separated from the directive by "--" or ":"
+  const reason = match[2].replace(/^\s*(?:--|:)?/, '').replace(/\s+/g, ' ').trim();
+  return { name: match[1], reason: reason || undefined };
+}
+
+/**
+ * Collects the comments of a file. Every comment is trivia before the start or after the
+ * end of some node, which, unlike a plain scan of the text, keeps template literals and
+ * regular expressions from being mistaken for comments.
+ * @param sourceFile - The parsed file
+ * @returns The comment ranges, in source order
+ */
+function getComments(sourceFile: ts.SourceFile): ts.CommentRange[] {
+  const text = sourceFile.getFullText();
+  const comments = new Map<number, ts.CommentRange>();
+
+  const collect = (position: number): void => {
+    ts.getLeadingCommentRanges(text, position)?.forEach(comment => comments.set(comment.pos, comment));
+  };
+  const visit = (node: ts.Node): void => {
+    collect(node.pos);
+    ts.forEachChild(node, visit);
+    collect(node.end);
+  };
+  visit(sourceFile);
+
+  return [...comments.values()].sort((a, b) => a.pos - b.pos);
+}
+
+/**
+ * Finds the disable directives of a file
+ * @param sourceFile - The parsed file
+ * @returns The disabled file or ranges
+ */
+export function findFileSuppressions(sourceFile: ts.SourceFile): FileSuppressions {
+  const suppressions: FileSuppressions = { ranges: [] };
+  const text = sourceFile.getFullText();
+
+  // Cheap check before collecting every comment in the file
+  if (!text.includes('duplicate-detector-')) {
+    return suppressions;
+  }
+
+  let open: { start: number; suppression: Suppression } | undefined;
+
+  for (const comment of getComments(sourceFile)) {
+    const directive = parseDirective(text.slice(comment.pos, comment.end));
+    if (!directive) {
+      continue;
+    }
+
+    if (directive.name === 'disable-file' && !suppressions.file) {
+      suppressions.file = { directive: 'disable-file', reason: directive.reason };
+    } else if (directive.name === 'disable' && !open) {
+      open = { start: comment.end, suppression: { directive: 'disable', reason: directive.reason } };
+    } else if (directive.name === 'enable' && open) {
+      suppressions.ranges.push({ ...open, end: comment.pos });
+      open = undefined;
+    }
+  }
+
+  if (open) {
+    suppressions.ranges.push({ ...open, end: text.length });
+  }
+
+  return suppressions;
+}
+
+/**
+ * Gets the suppression of a function, if any
+ * @param node - The node of the function (the whole statement for variable declarations)
+ * @param sourceFile - The parsed file
+ * @param fileSuppressions - The disable directives of the file
+ * @returns The suppression, or undefined if the function is not suppressed
+ */
+export function getSuppression(
+  node: ts.Node,
+  sourceFile: ts.SourceFile,
+  fileSuppressions: FileSuppressions
+): Suppression | undefined {
+  if (fileSuppressions.file) {
+    return fileSuppressions.file;
+  }
+
+  const text = sourceFile.getFullText();
+  const comments = ts.getLeadingCommentRanges(text, node.getFullStart()) ?? [];
+  for (const comment of comments) {
+    const directive = parseDirective(text.slice(comment.pos, comment.end));
+    if (directive?.name === 'ignore') {
+      return { directive: 'ignore', reason: directive.reason };
+    }
+  }
+
+  const start = node.getStart(sourceFile);
+  return fileSuppressions.ranges.find(range => start >= range.start && start < range.end)?.suppression;
+}
+
+/**
+ * Gets the location key of a function. Several functions can start on one line, as in
+ * `const a = () => 1, b = () => 2`, so the column is part of the key.
+ * @param location - The function, or an occurrence of it
+ * @returns The key
+ */
+function getLocationKey(location: FunctionInfo | DuplicateOccurrence): string {
+  return `${location.filePath}:${location.startLine ?? location.lineNumber}:${location.startColumn ?? 1}`;
+}
+
+/**
+ * Takes suppressed functions out of duplicate groups. Groups left with fewer than two
+ * occurrences are dropped, and so are blocks inside suppressed functions.
+ * @param duplicates - The duplicate groups
+ * @param blocks - The duplicated blocks
+ * @param functions - All functions of the scan
+ * @returns The remaining groups and blocks, and the suppressed occurrences
+ */
+export function removeSuppressedOccurrences(
+  duplicates: DuplicateFunction[],
+  blocks: DuplicateBlock[],
+  functions: FunctionInfo[]
+): { duplicates: DuplicateFunction[]; blocks: DuplicateBlock[]; suppressed: SuppressedOccurrence[] } {
+  const suppressedFunctions = new Map<string, FunctionInfo>();
+  functions.forEach(func => {
+    if (func.suppression) {
+      suppressedFunctions.set(getLocationKey(func), func);
+    }
+  });
+
+  if (suppressedFunctions.size === 0) {
+    return { duplicates, blocks, suppressed: [] };
+  }
+
+  // Groups are named after their first occurrence, which may be one that is taken out
+  const functionNames = new Map<string, string>();
+  functions.forEach(func => functionNames.set(getLocationKey(func), func.name));
+
+  const suppressed: SuppressedOccurrence[] = [];
+  const remaining: DuplicateFunction[] = [];
+
+  duplicates.forEach(duplicate => {
+    const kept = duplicate.occurrences.filter(occurrence => {
+      const func = suppressedFunctions.get(getLocationKey(occurrence));
+      if (!func) {
+        return true;
+      }
+
+      suppressed.push({
+        ...occurrence,
+        name: func.name,
+        directive: func.suppression!.directive,
+        reason: func.suppression!.reason,
+        matches: duplicate.occurrences
+          .filter(other => other !== occurrence)
+          .map(other => ({ filePath: other.filePath, lineNumber: other.lineNumber }))
+      });
+      return false;
+    });
+
+    if (kept.length === duplicate.occurrences.length) {
+      remaining.push(duplicate);
+    } else if (kept.length > 1) {
+      const name = kept[0] === duplicate.occurrences[0]
+        ? duplicate.name
+        : functionNames.get(getLocationKey(kept[0])) ?? duplicate.name;
+      remaining.push({ ...duplicate, name, occurrences: kept });
+    }
+  });
+
+  // A block inside a suppressed function is suppressed along with it
+  const suppressedSpans = Array.from(suppressedFunctions.values()).map(func => ({
+    filePath: func.filePath,
+    startLine: func.lineNumber,
+    endLine: func.lineNumber + func.content.split('\n').length - 1
+  }));
+  const remainingBlocks = blocks.filter(block => !block.occurrences.some(location => suppressedSpans.some(span =>
+    span.filePath === location.filePath && span.startLine <= location.startLine && span.endLine >= location.endLine
+  )));
+
+  suppressed.sort((a, b) => a.filePath.localeCompare(b.filePath) || a.lineNumber - b.lineNumber);
+
+  return { duplicates: remaining, blocks: remainingBlocks, suppressed };
+}
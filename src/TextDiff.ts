@@ -0,0 +1,212 @@
+/**
+ * TextDiff
+ *
+ * Line-based diffs between two pieces of text, used to show how the members of a
+ * duplicate group, or the variants of a name collision, differ from each other.
+ */
+
+// Largest number of line pairs compared by the LCS table before falling back to a plain replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * A line in a diff, either common to both sides or only present on one side
+ */
+export interface DiffLine {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+  // 1-based line numbers on each side (undefined when the line is not on that side)
+  oldLine?: number;
+  newLine?: number;
+}
+
+/**
+ * A row of a side-by-side diff
+ */
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Removes the indentation that extracted source keeps on every line but the first
+ * @param content - The source text
+ * @returns The dedented text
+ */
+export function dedent(content: string): string {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const indents = lines.slice(1)
+    .filter(line => line.trim().length > 0)
+    .map(line => line.match(/^[ \t]*/)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+
+  return [lines[0], ...lines.slice(1).map(line => line.slice(Math.min(indent, line.match(/^[ \t]*/)![0].length)))]
+    .map(line => line.trimEnd())
+    .join('\n');
+}
+
+/**
+ * Computes a line diff between two texts using the longest common subsequence
+ * @param oldText - The original text
+ * @param newText - The changed text
+ * @returns Array of diff lines in order
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const rows = oldLines.length;
+  const columns = newLines.length;
+
+  // Very large inputs are shown as a full replacement rather than building a huge table
+  if (rows * columns > MAX_DIFF_CELLS) {
+    return [
+      ...oldLines.map((text, index): DiffLine => ({ type: 'removed', text, oldLine: index + 1 })),
+      ...newLines.map((text, index): DiffLine => ({ type: 'added', text, newLine: index + 1 }))
+    ];
+  }
+
+  // lengths[i][j] is the LCS length of oldLines[i..] and newLines[j..]
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= rows; i++) {
+    lengths.push(new Uint32Array(columns + 1));
+  }
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < rows && j < columns) {
+    if (oldLines[i] === newLines[j]) {
+      diff.push({ type: 'equal', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      diff.push({ type: 'removed', text: oldLines[i], oldLine: i + 1 });
+      i++;
+    } else {
+      diff.push({ type: 'added', text: newLines[j], newLine: j + 1 });
+      j++;
+    }
+  }
+
+  for (; i < rows; i++) {
+    diff.push({ type: 'removed', text: oldLines[i], oldLine: i + 1 });
+  }
+  for (; j < columns; j++) {
+    diff.push({ type: 'added', text: newLines[j], newLine: j + 1 });
+  }
+
+  return diff;
+}
+
+/**
+ * Checks if a diff contains any changes
+ * @param diff - The diff lines
+ * @returns true if at least one line was added or removed
+ */
+export function hasChanges(diff: DiffLine[]): boolean {
+  return diff.some(line => line.type !== 'equal');
+}
+
+/**
+ * Arranges diff lines into side-by-side rows, pairing removed lines with the added
+ * lines that replace them
+ * @param diff - The diff lines
+ * @returns Array of side-by-side rows
+ */
+export function toSideBySide(diff: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  diff.forEach(line => {
+    if (line.type === 'equal') {
+      flush();
+      rows.push({ left: line, right: line });
+    } else if (line.type === 'removed') {
+      removed.push(line);
+    } else {
+      added.push(line);
+    }
+  });
+  flush();
+
+  return rows;
+}
+
+/**
+ * Formats a diff as a unified diff, with the changes grouped into hunks
+ * @param diff - The diff lines
+ * @param oldLabel - Name of the original text, shown in the --- header
+ * @param newLabel - Name of the changed text, shown in the +++ header
+ * @param context - Number of unchanged lines shown around each change (defaults to 3)
+ * @returns The unified diff, or an empty string if nothing changed
+ */
+export function formatUnifiedDiff(diff: DiffLine[], oldLabel: string, newLabel: string, context: number = 3): string {
+  if (!hasChanges(diff)) {
+    return '';
+  }
+
+  // Ranges of diff lines to show, each change widened by the context and merged with its neighbours
+  const hunks: Array<{ start: number; end: number }> = [];
+  diff.forEach((line, index) => {
+    if (line.type === 'equal') {
+      return;
+    }
+
+    const start = Math.max(0, index - context);
+    const end = Math.min(diff.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      hunks.push({ start, end });
+    }
+  });
+
+  // Number of lines on each side before every diff line
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  diff.forEach(line => {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    oldCount += line.type === 'added' ? 0 : 1;
+    newCount += line.type === 'removed' ? 0 : 1;
+  });
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  hunks.forEach(({ start, end }) => {
+    const lines = diff.slice(start, end);
+    const oldLength = lines.filter(line => line.type !== 'added').length;
+    const newLength = lines.filter(line => line.type !== 'removed').length;
+    // An empty side is numbered by the line before it, as in diff -u
+    const oldStart = oldBefore[start] + (oldLength > 0 ? 1 : 0);
+    const newStart = newBefore[start] + (newLength > 0 ? 1 : 0);
+
+    output.push(`@@ -${oldStart},${oldLength} +${newStart},${newLength} @@`);
+    lines.forEach(line => {
+      const prefix = line.type === 'equal' ? ' ' : line.type === 'removed' ? '-' : '+';
+      output.push(prefix + line.text);
+    });
+  });
+
+  return output.join('\n') + '\n';
+}
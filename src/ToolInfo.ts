@@ -0,0 +1,30 @@
+/**
+ * ToolInfo
+ *
+ * Name and version of the Duplicate Detector, as recorded in reports and caches.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export const TOOL_NAME = 'duplicate-detector';
+
+let cachedVersion: string | undefined;
+
+/**
+ * Gets the version of the tool from its package.json
+ * @returns The version string, or "0.0.0" if package.json cannot be read
+ */
+export function getToolVersion(): string {
+  if (cachedVersion === undefined) {
+    try {
+      // package.json sits one level above both src/ and dist/
+      const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8'));
+      cachedVersion = String(packageJson.version);
+    } catch {
+      cachedVersion = '0.0.0';
+    }
+  }
+
+  return cachedVersion;
+}
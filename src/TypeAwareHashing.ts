@@ -0,0 +1,145 @@
+/**
+ * TypeAwareHashing
+ *
+ * Hashes functions together with what their identifiers refer to. The scanned files are
+ * loaded into a TypeScript program, and every identifier a function uses but does not
+ * declare itself, such as an imported helper or a module-level constant, is replaced by
+ * the declaration the type checker resolves it to. Two textually identical functions that
+ * call `format` helpers from different modules then hash differently, while two that call
+ * the same helper under different import aliases hash the same.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import * as ts from 'typescript';
+import { DetectionMode } from './ConvertToHash';
+import { findFunctionContentNode } from './FunctionFinder';
+import { isComponentFile } from './ComponentScripts';
+import { ParsedFile } from './ParallelParser';
+import { getScanCompilerOptions } from './ProjectFiles';
+import { findFunctionNode, forEachToken, getCanonicalTokens, isPropertyName } from './StructuralNormalizer';
+
+/**
+ * Describes the import behind an alias whose module could not be resolved
+ * @param alias - The declaration of the alias, such as an import specifier
+ * @returns The imported module and name, or undefined if the alias is not an import
+ */
+function getImportKey(alias: ts.Declaration): string | undefined {
+  const importDeclaration = ts.findAncestor(alias, ts.isImportDeclaration);
+  if (!importDeclaration || !ts.isStringLiteral(importDeclaration.moduleSpecifier)) {
+    return undefined;
+  }
+
+  // Relative specifiers name the same module from different directories differently
+  const specifier = importDeclaration.moduleSpecifier.text;
+  const moduleName = specifier.startsWith('.')
+    ? path.resolve(path.dirname(alias.getSourceFile().fileName), specifier)
+    : specifier;
+
+  const importedName = ts.isImportSpecifier(alias)
+    ? (alias.propertyName ?? alias.name).text
+    : ts.isNamespaceImport(alias) ? '*' : 'default';
+  return `${moduleName}#${importedName}`;
+}
+
+/**
+ * Resolves an identifier used by a function to the declaration it refers to
+ * @param identifier - The identifier
+ * @param root - The node of the function
+ * @param checker - The type checker of the program
+ * @returns A token naming the declaration, or undefined for property names, the function's
+ * own parameters and locals, and identifiers the checker cannot resolve
+ */
+function resolveIdentifier(identifier: ts.Identifier, root: ts.Node, checker: ts.TypeChecker): string | undefined {
+  if (isPropertyName(identifier)) {
+    return undefined;
+  }
+
+  // In { format } the identifier is both a property name and a reference
+  const shorthand = ts.isShorthandPropertyAssignment(identifier.parent) && identifier.parent.name === identifier;
+  let symbol = shorthand
+    ? checker.getShorthandAssignmentValueSymbol(identifier.parent)
+    : checker.getSymbolAtLocation(identifier);
+  if (!symbol) {
+    return undefined;
+  }
+
+  // Imports are followed to what they import, so aliases of one symbol are equal
+  const alias = symbol.flags & ts.SymbolFlags.Alias ? symbol.declarations?.[0] : undefined;
+  if (alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+
+  const declaration = symbol.declarations?.[0];
+  let key: string | undefined;
+  if (declaration) {
+    const sourceFile = declaration.getSourceFile();
+    const isLocal = sourceFile === root.getSourceFile() && declaration.pos >= root.pos && declaration.end <= root.end;
+    key = isLocal ? undefined : `@${sourceFile.fileName}:${declaration.pos}`;
+  } else if (alias) {
+    key = getImportKey(alias);
+    key = key && `@${key}`;
+  }
+
+  return key && shorthand ? `${identifier.text}${key}` : key;
+}
+
+/**
+ * Gets the type-aware hash of a function
+ * @param node - The node of the function in the program
+ * @param sourceFile - The source file of the function
+ * @param checker - The type checker of the program
+ * @param mode - The detection mode, exact or structural
+ * @returns The SHA-256 hash of the function's tokens, with the identifiers it does not
+ * declare replaced by their declarations
+ */
+function hashFunctionNode(node: ts.Node, sourceFile: ts.SourceFile, checker: ts.TypeChecker, mode: DetectionMode): string {
+  const resolve = (identifier: ts.Identifier) => resolveIdentifier(identifier, node, checker);
+  const functionNode = findFunctionNode(node);
+  let tokens: string[] = [];
+
+  if (mode === 'structural' && functionNode) {
+    tokens = getCanonicalTokens({ sourceFile, root: node, functionNode }, resolve);
+  } else {
+    forEachToken(node, sourceFile, (token, text) => tokens.push(ts.isIdentifier(token) ? resolve(token) ?? text : text));
+  }
+
+  return crypto.createHash('sha256').update(tokens.join(' ')).digest('hex');
+}
+
+/**
+ * Replaces the hashes of parsed files with type-aware hashes. Functions of files the
+ * program cannot load, such as single-file components, keep their hashes.
+ * @param parsedFiles - The parsed files, with hashes
+ * @param mode - The detection mode, exact or structural
+ * @param projectRoot - Absolute path of the project root
+ * @param project - The tsconfig.json the files were taken from, if any
+ * @returns The parsed files with their new hashes
+ */
+export function getTypeAwareHashes(
+  parsedFiles: ParsedFile[],
+  mode: DetectionMode,
+  projectRoot: string,
+  project?: string
+): ParsedFile[] {
+  const filePaths = parsedFiles
+    .flatMap(parsed => parsed.functions.length > 0 ? [parsed.functions[0].filePath] : [])
+    .filter(filePath => !isComponentFile(filePath));
+  const program = ts.createProgram(filePaths, getScanCompilerOptions(projectRoot, project));
+  const checker = program.getTypeChecker();
+
+  return parsedFiles.map(parsed => {
+    const sourceFile = parsed.functions.length > 0 ? program.getSourceFile(parsed.functions[0].filePath) : undefined;
+    if (!sourceFile || !parsed.hashes) {
+      return parsed;
+    }
+
+    return {
+      ...parsed,
+      hashes: parsed.functions.map((func, index) => {
+        const node = findFunctionContentNode(sourceFile, func);
+        return node ? hashFunctionNode(node, sourceFile, checker, mode) : parsed.hashes![index];
+      })
+    };
+  });
+}
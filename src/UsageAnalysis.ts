@@ -0,0 +1,255 @@
+/**
+ * UsageAnalysis
+ *
+ * Helps choose which copy of a duplicate group to keep. The scanned files are loaded into
+ * a TypeScript program, and every reference to a duplicated function (a call, an import
+ * under any alias, a method access on a typed object) is resolved by the type checker to
+ * the copy it refers to. Each occurrence is annotated with its number of references and
+ * the depth of its file, and each group gets the copy that is recommended as canonical:
+ * exported copies first, then the most referenced, then the least nested.
+ */
+
+import path from 'path';
+import * as ts from 'typescript';
+import { FunctionDetails, findFunctionContentNode } from './FunctionFinder';
+import { isComponentFile } from './ComponentScripts';
+import { getScanCompilerOptions } from './ProjectFiles';
+import type { DuplicateFunction, DuplicateOccurrence } from './ReportModel';
+
+/**
+ * The copy of a duplicate group recommended to keep
+ */
+export interface CanonicalRecommendation {
+  // 1-based position of the copy among the group's occurrences
+  occurrence: number;
+  // The criterion that decided, such as "most references: 5, next 2"
+  reason: string;
+}
+
+/**
+ * Gets the scanned files of a program, leaving out libraries and declaration files of
+ * dependencies
+ * @param program - The program over the scanned files
+ * @param scannedFiles - Absolute paths of the scanned files
+ * @returns The source files of the scanned files
+ */
+function getScannedSourceFiles(program: ts.Program, scannedFiles: Set<string>): readonly ts.SourceFile[] {
+  return program.getSourceFiles().filter(sourceFile => scannedFiles.has(path.resolve(sourceFile.fileName)));
+}
+
+/**
+ * Gets the names under which the functions of duplicate groups can be referenced
+ * @param groups - The duplicate groups
+ * @param program - The program over the scanned files
+ * @param scannedFiles - Absolute paths of the scanned files
+ * @returns The last part of each qualified name, the class of each constructor, and the
+ * local names that imports and exports of those names give them
+ */
+function getCandidateNames(groups: DuplicateFunction[], program: ts.Program, scannedFiles: Set<string>): Set<string> {
+  const names = new Set<string>();
+  groups.forEach(group => group.occurrences.forEach(occurrence => {
+    const parts = (occurrence.qualifiedName ?? group.name).split('.');
+    names.add(parts[parts.length - 1] === 'constructor' && parts.length > 1 ? parts[parts.length - 2] : parts[parts.length - 1]);
+  }));
+
+  // Default imports and renamed imports and exports reference a function under another name
+  getScannedSourceFiles(program, scannedFiles).forEach(sourceFile => {
+    const visit = (node: ts.Node): void => {
+      if (ts.isImportClause(node) && node.name) {
+        names.add(node.name.text);
+      } else if ((ts.isImportSpecifier(node) || ts.isExportSpecifier(node)) && node.propertyName && names.has(node.propertyName.text)) {
+        names.add(node.name.text);
+      }
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(sourceFile, node => {
+      if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+        visit(node);
+      }
+    });
+  });
+
+  return names;
+}
+
+/**
+ * Finds every reference to the candidate names in the scanned files, resolved to the
+ * symbols they refer to
+ * @param program - The program over the scanned files
+ * @param scannedFiles - Absolute paths of the scanned files
+ * @param names - The names worth resolving
+ * @returns Map of each referenced symbol to the identifiers that refer to it
+ */
+function indexReferences(program: ts.Program, scannedFiles: Set<string>, names: Set<string>): Map<ts.Symbol, ts.Identifier[]> {
+  const checker = program.getTypeChecker();
+  const index = new Map<ts.Symbol, ts.Identifier[]>();
+
+  const addReference = (identifier: ts.Identifier): void => {
+    const parent = identifier.parent;
+    // Import and export lists pass a function on without using it
+    if (ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent) || ts.isImportClause(parent)) {
+      return;
+    }
+
+    // In { format } the identifier is both a property name and a reference
+    let symbol = ts.isShorthandPropertyAssignment(parent) && parent.name === identifier
+      ? checker.getShorthandAssignmentValueSymbol(parent)
+      : checker.getSymbolAtLocation(identifier);
+    if (!symbol || symbol.declarations?.some(declaration => ts.getNameOfDeclaration(declaration) === identifier)) {
+      return;
+    }
+    if (symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+
+    if (!index.has(symbol)) {
+      index.set(symbol, []);
+    }
+    index.get(symbol)!.push(identifier);
+  };
+
+  getScannedSourceFiles(program, scannedFiles).forEach(sourceFile => {
+    const visit = (node: ts.Node): void => {
+      if (ts.isIdentifier(node) && names.has(node.text)) {
+        addReference(node);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  });
+
+  return index;
+}
+
+/**
+ * Gets the symbol other code refers to a function by
+ * @param node - The node of the function, as extracted by FunctionFinder
+ * @param checker - The type checker of the program
+ * @returns The symbol of the function's name, the class of a constructor, or the default
+ * export of the module for an anonymous default export
+ */
+function getFunctionSymbol(node: ts.Node, checker: ts.TypeChecker): ts.Symbol | undefined {
+  let declaration = node;
+  if (ts.isVariableStatement(node)) {
+    declaration = node.declarationList.declarations.find(variable =>
+      !!variable.initializer && (ts.isArrowFunction(variable.initializer) || ts.isFunctionExpression(variable.initializer))) ?? node;
+  }
+
+  if (ts.isExportAssignment(declaration) || (ts.isFunctionDeclaration(declaration) && !declaration.name)) {
+    const moduleSymbol = checker.getSymbolAtLocation(declaration.getSourceFile());
+    return moduleSymbol && checker.tryGetMemberInModuleExports('default', moduleSymbol);
+  }
+  if (ts.isConstructorDeclaration(declaration)) {
+    return ts.isClassDeclaration(declaration.parent) && declaration.parent.name
+      ? checker.getSymbolAtLocation(declaration.parent.name)
+      : undefined;
+  }
+  if (ts.isExpressionStatement(declaration) && ts.isBinaryExpression(declaration.expression)) {
+    const target = declaration.expression.left;
+    return checker.getSymbolAtLocation(ts.isPropertyAccessExpression(target) ? target.name : target);
+  }
+
+  const name = ts.getNameOfDeclaration(declaration as ts.Declaration);
+  return name && checker.getSymbolAtLocation(name);
+}
+
+/**
+ * Counts the references to an occurrence from the scanned files
+ * @param occurrence - The occurrence, with an absolute file path
+ * @param program - The program over the scanned files
+ * @param index - The references to the candidate names
+ * @returns The number of references outside the function itself, or undefined if the
+ * program does not have the function, as for functions in components
+ */
+function countReferences(
+  occurrence: DuplicateOccurrence,
+  program: ts.Program,
+  index: Map<ts.Symbol, ts.Identifier[]>
+): number | undefined {
+  const sourceFile = program.getSourceFile(occurrence.filePath);
+  if (!sourceFile || occurrence.startLine === undefined) {
+    return undefined;
+  }
+
+  const node = findFunctionContentNode(sourceFile, occurrence as FunctionDetails);
+  const symbol = node && getFunctionSymbol(node, program.getTypeChecker());
+  if (!node || !symbol) {
+    return node ? 0 : undefined;
+  }
+
+  // Recursive calls do not make a copy more used
+  return (index.get(symbol) ?? []).filter(identifier =>
+    identifier.getSourceFile() !== sourceFile || identifier.pos < node.pos || identifier.end > node.end).length;
+}
+
+/**
+ * Gets the depth of a file in the project
+ * @param filePath - Absolute path of the file
+ * @param projectRoot - Absolute path of the project root
+ * @returns The number of directories between the project root and the file
+ */
+function getDepth(filePath: string, projectRoot: string): number {
+  return path.relative(projectRoot, filePath).split(path.sep).length - 1;
+}
+
+/**
+ * Recommends the copy of a duplicate group to keep
+ * @param occurrences - The occurrences of the group, annotated with their usage
+ * @returns The exported copy with the most references in the least nested file, the first
+ * such copy when several are equal, and the criterion that decided
+ */
+export function recommendCanonical(occurrences: DuplicateOccurrence[]): CanonicalRecommendation {
+  const ranked = occurrences
+    .map((occurrence, position) => ({ occurrence, position }))
+    .sort((a, b) =>
+      Number(!!b.occurrence.exported) - Number(!!a.occurrence.exported) ||
+      (b.occurrence.referenceCount ?? 0) - (a.occurrence.referenceCount ?? 0) ||
+      (a.occurrence.depth ?? 0) - (b.occurrence.depth ?? 0) ||
+      a.position - b.position);
+
+  const [best, next] = ranked.map(entry => entry.occurrence);
+  let reason = 'first of equally used copies';
+  if (next && !!best.exported !== !!next.exported) {
+    reason = 'only exported copy';
+  } else if (next && (best.referenceCount ?? 0) !== (next.referenceCount ?? 0)) {
+    reason = `most references: ${best.referenceCount}, next ${next.referenceCount ?? 0}`;
+  } else if (next && (best.depth ?? 0) !== (next.depth ?? 0)) {
+    reason = `least nested file: depth ${best.depth}, next ${next.depth}`;
+  }
+
+  return { occurrence: ranked[0].position + 1, reason };
+}
+
+/**
+ * Annotates every occurrence of duplicate groups with its usage, and recommends the copy
+ * of each group to keep
+ * @param groups - The duplicate groups, with absolute file paths
+ * @param filePaths - Absolute paths of the scanned files, where references are counted
+ * @param projectRoot - Absolute path of the project root
+ * @param project - The tsconfig.json the files were taken from, if any
+ * @returns The groups, with the reference count and depth set on each occurrence and the
+ * recommended copy set on each group
+ */
+export function analyzeUsage(
+  groups: DuplicateFunction[],
+  filePaths: string[],
+  projectRoot: string,
+  project?: string
+): DuplicateFunction[] {
+  if (groups.length === 0) {
+    return groups;
+  }
+
+  const program = ts.createProgram(filePaths.filter(filePath => !isComponentFile(filePath)), getScanCompilerOptions(projectRoot, project));
+  const scannedFiles = new Set(filePaths);
+  const index = indexReferences(program, scannedFiles, getCandidateNames(groups, program, scannedFiles));
+
+  return groups.map(group => {
+    const occurrences = group.occurrences.map(occurrence => ({
+      ...occurrence,
+      referenceCount: countReferences(occurrence, program, index),
+      depth: getDepth(occurrence.filePath, projectRoot)
+    }));
+    return { ...group, occurrences, recommended: recommendCanonical(occurrences) };
+  });
+}
@@ -0,0 +1,301 @@
+/**
+ * Workspaces
+ *
+ * Finds the packages of a monorepo workspace, as listed by pnpm-workspace.yaml or by the
+ * `workspaces` field of the root package.json (npm, Yarn and Bun), and relates duplicates
+ * to them: every occurrence is tagged with its package, and the package pairs that share
+ * duplicate groups show which helpers are copied between packages.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DuplicateBlock } from './BlockCloneFinder';
+import { globToRegExpSource } from './IgnoreHandler';
+import { TOOL_DIRECTORY } from './FunctionCache';
+import type { DuplicateFunction } from './ReportModel';
+import type { ScanResult } from './DuplicateScanner';
+
+/**
+ * A package of a workspace
+ */
+export interface WorkspacePackage {
+  // Name from the package's package.json, or its path when it has none
+  name: string;
+  // Absolute path of the package directory
+  path: string;
+}
+
+/**
+ * Two packages that share duplicate groups
+ */
+export interface PackagePair {
+  // Names of the packages, in alphabetical order
+  packages: [string, string];
+  // 1-based ids of the duplicate groups with occurrences in both packages
+  groups: number[];
+}
+
+/**
+ * The packages of a workspace and the duplicate groups they share. Package paths are
+ * relative to the project root in reports.
+ */
+export interface Workspace {
+  packages: WorkspacePackage[];
+  // Most shared groups first
+  pairs: PackagePair[];
+}
+
+/**
+ * Duplicates copied between packages
+ */
+export interface CrossPackageFilter {
+  // Groups with occurrences in more than one package
+  duplicates: DuplicateFunction[];
+  // Blocks whose sides are in different packages
+  blocks: DuplicateBlock[];
+}
+
+/**
+ * Removes the quotes around a YAML scalar
+ * @param value - The scalar
+ * @returns The value without quotes
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return /^(['"]).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+/**
+ * Reads the package patterns of a pnpm-workspace.yaml file, in block or flow style
+ * @param content - The content of the file
+ * @returns The patterns, including negated ones
+ */
+function readPnpmPatterns(content: string): string[] {
+  const lines = content.split(/\r?\n/);
+  const start = lines.findIndex(line => /^packages\s*:/.test(line));
+  if (start === -1) {
+    return [];
+  }
+
+  const inline = lines[start].replace(/^packages\s*:/, '').replace(/\s#.*$/, '').trim();
+  if (inline.startsWith('[')) {
+    return inline.slice(1, inline.lastIndexOf(']')).split(',').map(unquote).filter(Boolean);
+  }
+
+  const patterns: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^\s*(#.*)?$/.test(line)) {
+      continue;
+    }
+    const item = line.match(/^\s+-\s*(.*?)\s*(?:\s#.*)?$/);
+    if (!item) {
+      break;
+    }
+    patterns.push(unquote(item[1]));
+  }
+  return patterns;
+}
+
+/**
+ * Reads the package patterns of the workspace in a directory
+ * @param projectRoot - Absolute path of the project root
+ * @returns The patterns, or undefined if the directory is not the root of a workspace
+ */
+function readWorkspacePatterns(projectRoot: string): string[] | undefined {
+  const pnpmPath = path.join(projectRoot, 'pnpm-workspace.yaml');
+  if (fs.existsSync(pnpmPath)) {
+    return readPnpmPatterns(fs.readFileSync(pnpmPath, 'utf-8'));
+  }
+
+  const packagePath = path.join(projectRoot, 'package.json');
+  if (!fs.existsSync(packagePath)) {
+    return undefined;
+  }
+
+  let workspaces: unknown;
+  try {
+    workspaces = JSON.parse(fs.readFileSync(packagePath, 'utf-8')).workspaces;
+  } catch (error) {
+    throw new Error(`Could not read the workspaces of ${packagePath}: ${error}`);
+  }
+
+  // Yarn also accepts { packages: [...] }
+  const patterns = Array.isArray(workspaces) ? workspaces : (workspaces as { packages?: unknown } | undefined)?.packages;
+  return Array.isArray(patterns) ? patterns.filter((pattern): pattern is string => typeof pattern === 'string') : undefined;
+}
+
+/**
+ * Finds the directories with a package.json below a directory, skipping dependencies,
+ * hidden directories and the tool's own state
+ * @param dirPath - Path to the directory
+ * @param dirList - List to store directory paths
+ * @returns Array of directory paths
+ */
+function findPackageDirectories(dirPath: string, dirList: string[] = []): string[] {
+  if (fs.existsSync(path.join(dirPath, 'package.json'))) {
+    dirList.push(dirPath);
+  }
+
+  fs.readdirSync(dirPath, { withFileTypes: true }).forEach(entry => {
+    if (entry.isDirectory() && entry.name !== 'node_modules' && entry.name !== TOOL_DIRECTORY && !entry.name.startsWith('.')) {
+      findPackageDirectories(path.join(dirPath, entry.name), dirList);
+    }
+  });
+
+  return dirList;
+}
+
+/**
+ * Reads the name of a package
+ * @param packagePath - Absolute path of the package directory
+ * @param projectRoot - Absolute path of the project root
+ * @returns The name from the package.json, or the package's relative path
+ */
+function getPackageDisplayName(packagePath: string, projectRoot: string): string {
+  try {
+    const name = JSON.parse(fs.readFileSync(path.join(packagePath, 'package.json'), 'utf-8')).name;
+    if (typeof name === 'string' && name.length > 0) {
+      return name;
+    }
+  } catch {
+    // A package.json that cannot be read still marks a package
+  }
+  return path.relative(projectRoot, packagePath) || '.';
+}
+
+/**
+ * Finds the packages of the workspace in a directory
+ * @param projectRoot - Absolute path of the project root
+ * @returns The packages, sorted by path, or undefined if the directory is not the root of a
+ * workspace
+ */
+export function findWorkspacePackages(projectRoot: string): WorkspacePackage[] | undefined {
+  const patterns = readWorkspacePatterns(projectRoot);
+  if (!patterns) {
+    return undefined;
+  }
+
+  // Patterns match forward-slash paths relative to the root, "." being the root itself
+  const toRegExp = (pattern: string) => {
+    const glob = pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+    return new RegExp(`^${glob === '.' ? '' : globToRegExpSource(glob)}$`);
+  };
+  const included = patterns.filter(pattern => !pattern.startsWith('!')).map(toRegExp);
+  const excluded = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => toRegExp(pattern.slice(1)));
+
+  return findPackageDirectories(projectRoot)
+    .filter(packagePath => {
+      const relativePath = path.relative(projectRoot, packagePath).replace(/\\/g, '/');
+      return included.some(regExp => regExp.test(relativePath)) && !excluded.some(regExp => regExp.test(relativePath));
+    })
+    .sort()
+    .map(packagePath => ({ name: getPackageDisplayName(packagePath, projectRoot), path: packagePath }));
+}
+
+/**
+ * Finds the package a file belongs to
+ * @param filePath - Absolute path of the file
+ * @param packages - The packages of the workspace
+ * @returns The name of the innermost package containing the file, or undefined if the file
+ * is outside every package
+ */
+export function getPackageName(filePath: string, packages: WorkspacePackage[]): string | undefined {
+  let match: WorkspacePackage | undefined;
+  packages.forEach(workspacePackage => {
+    if (filePath.startsWith(workspacePackage.path + path.sep) && (!match || workspacePackage.path.length > match.path.length)) {
+      match = workspacePackage;
+    }
+  });
+  return match?.name;
+}
+
+/**
+ * Tags every occurrence of duplicate groups with the package it is in
+ * @param groups - The duplicate groups
+ * @param packages - The packages of the workspace
+ * @returns The groups, with the package set on each occurrence inside a package
+ */
+export function tagPackages(groups: DuplicateFunction[], packages: WorkspacePackage[]): DuplicateFunction[] {
+  if (packages.length === 0) {
+    return groups;
+  }
+
+  return groups.map(group => ({
+    ...group,
+    occurrences: group.occurrences.map(occurrence => ({
+      ...occurrence,
+      package: getPackageName(occurrence.filePath, packages)
+    }))
+  }));
+}
+
+/**
+ * Checks if a duplicate group has occurrences in more than one package
+ * @param group - The duplicate group, with its occurrences tagged
+ * @returns true if the group spans packages; code outside every package counts as a
+ * package of its own
+ */
+export function isCrossPackage(group: DuplicateFunction): boolean {
+  return new Set(group.occurrences.map(occurrence => occurrence.package)).size > 1;
+}
+
+/**
+ * Finds the duplicates copied between the packages of a workspace
+ * @param result - The scan result
+ * @returns The groups and blocks that span packages
+ */
+export function filterToCrossPackage(result: ScanResult): CrossPackageFilter {
+  const packages = result.workspacePackages ?? [];
+
+  return {
+    duplicates: result.duplicates.filter(isCrossPackage),
+    blocks: result.blocks.filter(block => {
+      const [first, second] = block.occurrences;
+      return getPackageName(first.filePath, packages) !== getPackageName(second.filePath, packages);
+    })
+  };
+}
+
+/**
+ * Finds the package pairs that share duplicate groups
+ * @param groups - The duplicate groups, with their occurrences tagged
+ * @returns The pairs, sorted by the number of shared groups (most first), then by name
+ */
+export function findPackagePairs(groups: DuplicateFunction[]): PackagePair[] {
+  const pairs = new Map<string, PackagePair>();
+
+  groups.forEach((group, index) => {
+    const names = Array.from(new Set(group.occurrences.flatMap(occurrence => occurrence.package ?? []))).sort();
+    names.forEach((first, position) => names.slice(position + 1).forEach(second => {
+      const key = `${first}\0${second}`;
+      if (!pairs.has(key)) {
+        pairs.set(key, { packages: [first, second], groups: [] });
+      }
+      pairs.get(key)!.groups.push(index + 1);
+    }));
+  });
+
+  return Array.from(pairs.values()).sort((a, b) =>
+    b.groups.length - a.groups.length ||
+    a.packages[0].localeCompare(b.packages[0]) ||
+    a.packages[1].localeCompare(b.packages[1]));
+}
+
+/**
+ * Builds the matrix of shared duplicate groups between packages
+ * @param pairs - The package pairs
+ * @returns The packages that share groups, sorted by name, and the number of groups each
+ * pair shares, by position in the package list
+ */
+export function getPackageMatrix(pairs: PackagePair[]): { packages: string[]; counts: number[][] } {
+  const packages = Array.from(new Set(pairs.flatMap(pair => pair.packages))).sort();
+  const counts = packages.map(() => packages.map(() => 0));
+
+  pairs.forEach(pair => {
+    const [first, second] = pair.packages.map(name => packages.indexOf(name));
+    counts[first][second] = pair.groups.length;
+    counts[second][first] = pair.groups.length;
+  });
+
+  return { packages, counts };
+}
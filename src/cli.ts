@@ -0,0 +1,606 @@
+#!/usr/bin/env node
+/**
+ * Duplicate Detector command line interface
+ *
+ * Parses the command line, runs a scan through findDuplicates and prints the results
+ * to the console and to report files.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { IgnoreHandler } from './IgnoreHandler';
+import { parseCommandLineArgs, CommandLineOptions } from './CommandLineOptions';
+import { findDuplicates, ScanOptions, ScanResult } from './DuplicateScanner';
+import { ReportFormat, REPORT_FILE_EXTENSIONS, formatReport } from './ReportFormatter';
+import { createReportData, describeMatch } from './ReportModel';
+import { createBaseline, writeBaseline, readBaseline, compareWithBaseline, BaselineFile } from './Baseline';
+import { getChangedLines, filterToChangedCode, ChangedLines } from './ChangedFiles';
+import { clearCache, CACHE_DIRECTORY } from './FunctionCache';
+import { watchDuplicates, WatchUpdate } from './DuplicateWatcher';
+import { DuplicationMetrics, ScopeMetrics, TOP_SCOPE_COUNT, describeDuplication } from './DuplicationMetrics';
+import { describeFilterStats } from './FunctionFilter';
+import { planConsolidation, formatConsolidationDiff, applyConsolidation } from './DuplicateConsolidator';
+import { findPackagePairs, filterToCrossPackage } from './Workspaces';
+import { describeReference } from './ReferenceLibrary';
+
+/**
+ * Prints how much of the project is duplicated, and the packages, directories and files
+ * with the most duplicated lines
+ * @param metrics - The duplication metrics
+ * @param projectRoot - The root directory of the project
+ */
+function printMetrics(metrics: DuplicationMetrics, projectRoot: string): void {
+  console.log(`Function code is ${describeDuplication(metrics.project)}`);
+
+  const printScopes = (heading: string, scopes: ScopeMetrics[]) => {
+    const duplicated = scopes.filter(scope => scope.duplicatedLines > 0).slice(0, TOP_SCOPE_COUNT);
+    if (duplicated.length === 0) {
+      return;
+    }
+    console.log(`${heading}:`);
+    duplicated.forEach(scope => {
+      console.log(`   - ${path.relative(projectRoot, scope.path) || '.'}: ${describeDuplication(scope)}`);
+    });
+  };
+
+  // A single package is the project itself
+  if (metrics.packages.length > 1) {
+    printScopes('Most duplicated packages', metrics.packages);
+  }
+  printScopes('Most duplicated directories', metrics.directories);
+  printScopes('Most duplicated files', metrics.files);
+  console.log('');
+}
+
+/**
+ * Generates a report of duplicate functions from hash groups
+ * @param result - The scan result
+ * @param formats - The formats to write the report in
+ * @param includeSource - Whether JSON reports include the source text of functions
+ */
+function generateReport(result: ScanResult, formats: ReportFormat[], includeSource: boolean): void {
+  const { duplicates, blocks, suppressed, nameCollisions, projectRoot } = result;
+
+  // Machine-readable reports are always written, since CI systems expect the file to exist
+  const machineFormats = formats.filter(format => format !== 'markdown');
+
+  if (duplicates.length === 0) {
+    console.log('No duplicate functions found.');
+    if (blocks.length === 0 && suppressed.length === 0 && nameCollisions.length === 0 && machineFormats.length === 0) {
+      return;
+    }
+  } else {
+    console.log(`Found ${duplicates.length} duplicate function declarations:`);
+  }
+
+  duplicates.forEach((duplicate, index) => {
+    const status = duplicate.baselineStatus === 'new-occurrences' ? ' [new occurrences]' : '';
+    console.log(`${index + 1}. Function: ${duplicate.name} (${describeMatch(duplicate)} match)${status}`);
+    console.log('   Occurrences:');
+
+    duplicate.occurrences.forEach(occurrence => {
+      // Make file paths relative to project root for cleaner output
+      const relativePath = path.relative(projectRoot, occurrence.filePath);
+      const qualifiedName = occurrence.qualifiedName && occurrence.qualifiedName !== duplicate.name
+        ? ` ${occurrence.qualifiedName}`
+        : '';
+      const packageName = occurrence.package !== undefined ? ` [${occurrence.package}]` : '';
+      console.log(`   - ${relativePath}:${occurrence.lineNumber}${qualifiedName}${packageName}${occurrence.isNew ? ' (new)' : ''}`);
+    });
+
+    if (duplicate.reference) {
+      const reference = { ...duplicate.reference, filePath: path.relative(projectRoot, duplicate.reference.filePath) };
+      console.log(`   Import instead: ${describeReference(reference)}`);
+    }
+
+    if (duplicate.recommended) {
+      const canonical = duplicate.occurrences[duplicate.recommended.occurrence - 1];
+      console.log(`   Recommended to keep: ${path.relative(projectRoot, canonical.filePath)}:${canonical.lineNumber} ` +
+        `(${duplicate.recommended.reason})`);
+    }
+
+    // Point new code at the existing copies it duplicates
+    const existing = duplicate.occurrences.filter(occurrence => occurrence.isNew === false);
+    if (existing.length > 0 && existing.length < duplicate.occurrences.length) {
+      const locations = existing.map(occurrence => `${path.relative(projectRoot, occurrence.filePath)}:${occurrence.lineNumber}`);
+      console.log(`   New code copies existing code at: ${locations.join(', ')}`);
+    }
+
+    console.log('');
+  });
+
+  // Show which packages of a workspace copy code from each other
+  const packagePairs = result.workspacePackages ? findPackagePairs(duplicates) : [];
+  if (packagePairs.length > 0) {
+    console.log('Packages sharing duplicate groups:');
+    packagePairs.forEach(pair => {
+      console.log(`   - ${pair.packages[0]} and ${pair.packages[1]}: ${pair.groups.length} ` +
+        `${pair.groups.length === 1 ? 'group' : 'groups'} (${pair.groups.join(', ')})`);
+    });
+    console.log('');
+  }
+
+  if (blocks.length > 0) {
+    console.log(`Found ${blocks.length} duplicated statement blocks:`);
+  }
+
+  blocks.forEach((block, index) => {
+    console.log(`${index + 1}. Block of ${block.statementCount} statements`);
+
+    block.occurrences.forEach(location => {
+      const relativePath = path.relative(projectRoot, location.filePath);
+      console.log(`   - ${relativePath}:${location.startLine}-${location.endLine}`);
+    });
+
+    console.log('');
+  });
+
+  if (nameCollisions.length > 0) {
+    console.log(`Found ${nameCollisions.length} names shared by different implementations:`);
+  }
+
+  nameCollisions.forEach((collision, index) => {
+    console.log(`${index + 1}. Name: ${collision.name} (${collision.variants.length} variants)`);
+
+    collision.variants.forEach((variant, variantIndex) => {
+      const locations = variant.occurrences.map(occurrence => {
+        const relativePath = path.relative(projectRoot, occurrence.filePath);
+        return `${relativePath}:${occurrence.lineNumber}`;
+      });
+      console.log(`   ${variantIndex + 1}) ${locations.join(', ')}`);
+    });
+
+    console.log('');
+  });
+
+  if (suppressed.length > 0) {
+    console.log(`Suppressed ${suppressed.length} duplicate occurrences:`);
+    suppressed.forEach(occurrence => {
+      const reason = occurrence.reason ? `: ${occurrence.reason}` : '';
+      console.log(`   - ${occurrence.name} at ${path.relative(projectRoot, occurrence.filePath)}:${occurrence.lineNumber}` +
+        ` (duplicate-detector-${occurrence.directive}${reason})`);
+    });
+    console.log('');
+  }
+
+  if (duplicates.length > 0 || blocks.length > 0) {
+    printMetrics(result.metrics, projectRoot);
+  }
+
+  // Create reports directory if it doesn't exist
+  const reportsDir = path.join(process.cwd(), 'reports');
+  if (!fs.existsSync(reportsDir)) {
+    fs.mkdirSync(reportsDir);
+  }
+
+  // Convert absolute paths to relative paths in the report data
+  const reportData = createReportData(result);
+  const timestamp = reportData.metadata.generatedAt.replace(/:/g, '-');
+
+  // Write one report file per requested format
+  const foundAnything = duplicates.length > 0 || blocks.length > 0 || suppressed.length > 0 || nameCollisions.length > 0;
+  const reportFormats = foundAnything ? formats : machineFormats;
+  reportFormats.forEach(format => {
+    const reportFilename = `duplicate-functions-${timestamp}.${REPORT_FILE_EXTENSIONS[format]}`;
+    const reportPath = path.join(reportsDir, reportFilename);
+
+    fs.writeFileSync(reportPath, formatReport(format, reportData, { timestamp, reportFilename, includeSource }));
+    console.log(`Report saved to: ${reportPath}`);
+  });
+}
+
+/**
+ * Gets the location of an occurrence for console output
+ * @param occurrence - The occurrence
+ * @param projectRoot - The root directory of the project
+ * @returns Location such as "src/utils.ts:12"
+ */
+function getLocation(occurrence: { filePath: string; lineNumber: number }, projectRoot: string): string {
+  return `${path.relative(projectRoot, occurrence.filePath)}:${occurrence.lineNumber}`;
+}
+
+/**
+ * Prints the changes to the duplicate groups caused by edited files
+ * @param update - The watch update
+ * @param projectRoot - The root directory of the project
+ */
+function printWatchUpdate(update: WatchUpdate, projectRoot: string): void {
+  const toLocation = (occurrence: { filePath: string; lineNumber: number }) => getLocation(occurrence, projectRoot);
+
+  const time = new Date().toLocaleTimeString();
+  console.log(`[${time}] ${update.changedFiles.map(filePath => path.relative(projectRoot, filePath)).join(', ')} changed`);
+
+  update.parseErrors.forEach(parseError => {
+    console.error(`  Error parsing file ${parseError.filePath}: ${parseError.message}`);
+  });
+  update.newGroups.forEach(group => {
+    console.log(`  New duplicate of ${group.name} introduced: ${group.occurrences.map(toLocation).join(', ')}`);
+  });
+  update.changedGroups.forEach(({ group, previousCount }) => {
+    console.log(`  Group ${group.name} now has ${group.occurrences.length} occurrences (was ${previousCount}): ` +
+      group.occurrences.map(toLocation).join(', '));
+  });
+  update.resolvedGroups.forEach(group => {
+    console.log(`  Group ${group.name} resolved`);
+  });
+
+  if (update.newGroups.length === 0 && update.changedGroups.length === 0 && update.resolvedGroups.length === 0) {
+    console.log('  No change in duplicate groups');
+  }
+  console.log(`  ${update.duplicates.length} duplicate groups in total`);
+}
+
+/**
+ * Gets the scan options given on the command line
+ * @param options - The parsed command line options
+ * @returns The options for findDuplicates
+ */
+function getScanOptions(options: CommandLineOptions): ScanOptions {
+  return {
+    projectRoot: options.projectRoot,
+    project: options.project,
+    extensions: options.extensions,
+    references: options.references.length > 0 ? options.references : undefined,
+    mode: options.mode,
+    typeAware: options.typeAware,
+    similarity: options.similarity,
+    blocks: options.blocks,
+    minBlockStatements: options.minBlockStatements,
+    minBlockLines: options.minBlockLines,
+    nameCollisions: options.nameCollisions,
+    collisionKey: options.collisionKey,
+    filter: options.filter,
+    usage: options.usage,
+    gitignore: options.gitignore,
+    cache: options.cache,
+    jobs: options.jobs
+  };
+}
+
+/**
+ * Narrows a scan result to the groups the report lists: the new ones since a baseline,
+ * those touching changed code and those spanning packages, as the options ask
+ * @param result - The scan result
+ * @param options - The parsed command line options
+ * @param baseline - The baseline to compare with, if any
+ * @param changedLines - The lines changed since the git ref, if any
+ * @param log - Called with a summary of each step
+ * @returns The narrowed result, and whether it has duplicates introduced since the
+ * baseline or the git ref
+ */
+function narrowScanResult(
+  result: ScanResult,
+  options: CommandLineOptions,
+  baseline: BaselineFile | undefined,
+  changedLines: ChangedLines | undefined,
+  log: (message: string) => void
+): { result: ScanResult; foundNew: boolean } {
+  let foundNew = false;
+  if (baseline) {
+    const comparison = compareWithBaseline(result, baseline);
+    log(`Compared with baseline ${options.baseline}: ` +
+      `${comparison.newGroups} new duplicate groups, ${comparison.newOccurrences} new occurrences in known groups`);
+
+    result = { ...result, duplicates: comparison.duplicates, blocks: comparison.blocks };
+    foundNew = comparison.newGroups > 0 || comparison.newOccurrences > 0;
+  }
+
+  // The whole project is indexed, so changed code is also matched against unchanged files
+  if (changedLines) {
+    const filter = filterToChangedCode(result, changedLines, options.changedScope);
+    log(`Compared with ${options.changedSince}: ${filter.changedFileCount} changed files, ` +
+      `${filter.duplicates.length} duplicate groups and ${filter.blocks.length} blocks touch changed ${options.changedScope}`);
+
+    result = { ...result, duplicates: filter.duplicates, blocks: filter.blocks };
+    foundNew = filter.duplicates.length > 0 || filter.blocks.length > 0;
+  }
+
+  // Candidates for moving into a shared package
+  if (options.crossPackage) {
+    if (!result.workspacePackages) {
+      throw new Error('Option --cross-package needs a workspace: a pnpm-workspace.yaml or a package.json with workspaces in the project root');
+    }
+    const filter = filterToCrossPackage(result);
+    const blocks = options.blocks ? ` and ${filter.blocks.length} of ${result.blocks.length} blocks` : '';
+    log(`${filter.duplicates.length} of ${result.duplicates.length} duplicate groups${blocks} span packages ` +
+      `(${result.workspacePackages.length} packages in the workspace)`);
+
+    result = { ...result, duplicates: filter.duplicates, blocks: filter.blocks };
+  }
+
+  return { result, foundNew };
+}
+
+/**
+ * Main function to detect duplicate functions in a project directory
+ * @param options - The parsed command line options
+ * @returns The unfiltered scan result
+ */
+async function detectDuplicateFunctions(options: CommandLineOptions): Promise<ScanResult> {
+  const { projectRoot, mode, similarity } = options;
+
+  console.log('Duplicate Detector initialized');
+  console.log('Node.js version:', process.version);
+  console.log(`Scanning project directory: ${projectRoot}`);
+  console.log(mode === 'near'
+    ? `Detection mode: near (similarity threshold ${Math.round(similarity * 100)}%)`
+    : `Detection mode: ${mode}${options.typeAware ? ', type-aware' : ''}`);
+
+  // Read the baseline and the git diff before scanning so a bad file or ref fails fast
+  const baseline = options.baseline ? readBaseline(options.baseline) : undefined;
+  const changedLines = options.changedSince ? await getChangedLines(projectRoot, options.changedSince) : undefined;
+
+  const scanResult = await findDuplicates(getScanOptions(options));
+
+  let result = scanResult;
+
+  // Provide helpful information about ignore patterns
+  const { ignored } = result;
+  if (ignored.loadError) {
+    console.warn(`Warning: Could not read .ignore file, using default patterns: ${ignored.loadError}`);
+  }
+  if (ignored.usingDefaults) {
+    if (!ignored.loadError) {
+      console.log('No .ignore file found, using default ignore patterns');
+    }
+    console.log(`Loaded default ignore patterns: ${ignored.patternCount} patterns`);
+    console.log('💡 Tip: Create a .ignore file in your project root to customize ignore patterns');
+  } else {
+    console.log(`Loaded .ignore file with ${ignored.patternCount} patterns`);
+  }
+  if (ignored.gitignore) {
+    console.log('Honoring .gitignore files');
+  }
+
+  result.parseErrors.forEach(parseError => {
+    console.error(`Error parsing file ${parseError.filePath}: ${parseError.message}`);
+  });
+
+  if (result.project) {
+    const [config, ...references] = result.project.configPaths;
+    console.log(`Using TypeScript project ${config}` +
+      (references.length > 0 ? ` and ${references.length} referenced projects` : ''));
+  }
+  console.log(`Found ${result.fileCount} files (after applying ignore patterns)`);
+  console.log(`Found ${result.sourceFileCount} TypeScript/JavaScript files`);
+  console.log(`Found ${result.functionCount} function declarations`);
+  const filtered = describeFilterStats(result.filter, result.filtered);
+  if (filtered) {
+    console.log(filtered);
+  }
+
+  if (result.cache) {
+    console.log(`Cache: ${result.cache.hits} files unchanged, ${result.cache.misses} files parsed`);
+    if (result.cache.saveError) {
+      console.warn(`Warning: Could not save the cache: ${result.cache.saveError}`);
+    }
+  }
+
+  // Against reference libraries, only the reimplemented reference functions are reported
+  if (result.references && result.referenceMatches) {
+    const reimplementations = result.referenceMatches.reduce((total, match) => total + match.occurrences.length, 0);
+    console.log(`Compared with ${result.references.length} reference directories: ` +
+      `${reimplementations} functions reimplement ${result.referenceMatches.length} reference functions`);
+
+    result = { ...result, duplicates: result.referenceMatches, blocks: [], suppressed: [] };
+  }
+
+  if (options.writeBaseline) {
+    const newBaseline = createBaseline(result);
+    writeBaseline(options.writeBaseline, newBaseline);
+    console.log(`Baseline with ${newBaseline.groups.length} groups and ${newBaseline.blocks.length} blocks saved to: ${options.writeBaseline}`);
+  }
+
+  const narrowed = narrowScanResult(result, options, baseline, changedLines, message => console.log(message));
+  generateReport(narrowed.result, options.formats, options.includeSource);
+
+  // Fail the run when duplicates were introduced since the baseline or the git ref
+  if (narrowed.foundNew) {
+    process.exitCode = 1;
+  }
+
+  return scanResult;
+}
+
+/**
+ * Runs an initial scan, then keeps watching the project and prints changes to the
+ * duplicate groups as files are edited
+ * @param options - The parsed command line options
+ */
+async function watchDuplicateFunctions(options: CommandLineOptions): Promise<void> {
+  const result = await detectDuplicateFunctions(options);
+
+  watchDuplicates(result, update => printWatchUpdate(update, result.projectRoot), options.similarity);
+  console.log(`Watching ${result.projectRoot} for changes (press Ctrl+C to stop)...`);
+}
+
+/**
+ * Consolidates one duplicate group, keeping one copy and replacing the others with
+ * imports of it, or prints the changes as a diff in a dry run
+ * @param options - The parsed command line options
+ */
+async function consolidateDuplicateGroup(options: CommandLineOptions): Promise<void> {
+  const { projectRoot } = options;
+  const groupId = options.fix!;
+
+  // Group numbers are those of the report a scan with the same options prints
+  const baseline = options.baseline ? readBaseline(options.baseline) : undefined;
+  const changedLines = options.changedSince ? await getChangedLines(projectRoot, options.changedSince) : undefined;
+  const scanResult = await findDuplicates(getScanOptions(options));
+  const { result } = narrowScanResult(scanResult, options, baseline, changedLines, () => undefined);
+
+  const group = result.duplicates[groupId - 1];
+  if (!group) {
+    throw new Error(`Group ${groupId} does not exist; the scan found ${result.duplicates.length} duplicate groups`);
+  }
+
+  const plan = planConsolidation(group, path.resolve(projectRoot), options.keep === undefined ? undefined : options.keep - 1);
+
+  if (options.dryRun) {
+    process.stdout.write(formatConsolidationDiff(plan, path.resolve(projectRoot)));
+    return;
+  }
+
+  applyConsolidation(plan);
+  console.log(`Kept ${group.name} at ${getLocation(plan.canonical, projectRoot)}`);
+  console.log(`Removed ${plan.removed.length} copies: ` +
+    plan.removed.map(occurrence => getLocation(occurrence, projectRoot)).join(', '));
+  console.log(`Updated ${plan.changes.length} files: ` +
+    plan.changes.map(change => path.relative(projectRoot, change.filePath)).join(', '));
+}
+
+function main(): void {
+  // Get directory path and options from command line arguments
+  const args = process.argv.slice(2);
+
+  let options: CommandLineOptions;
+  try {
+    options = parseCommandLineArgs(args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    console.error('Run with --help to see the available options.');
+    process.exit(1);
+  }
+
+  // Check for special commands
+  if (options.createIgnore) {
+    const ignoreHandler = new IgnoreHandler(options.projectRoot);
+    ignoreHandler.createSampleIgnoreFile();
+    return;
+  }
+
+  if (options.clearCache) {
+    const cleared = clearCache(options.projectRoot);
+    console.log(cleared
+      ? `Cleared cache in ${path.join(options.projectRoot, CACHE_DIRECTORY)}`
+      : `No cache found in ${path.join(options.projectRoot, CACHE_DIRECTORY)}`);
+    return;
+  }
+
+  if (options.help) {
+    console.log(`
+Duplicate Detector - Find duplicate functions in your codebase
+
+Usage:
+  pnpm dev [directory]                  # Scan directory for duplicates
+  pnpm dev --create-ignore [directory]  # Create sample .ignore file
+  pnpm dev --clear-cache [directory]    # Delete the cache of a project
+  pnpm dev consolidate <group-id> [directory] # Replace the copies of a group
+  pnpm dev --help                       # Show this help
+
+Options:
+  --mode, -m <mode>       Detection mode: exact (default), structural or near
+                          structural also matches functions whose parameters
+                          and locals have been renamed; near groups functions
+                          whose token streams are similar
+  --type-aware            In exact or structural mode, resolve the identifiers
+                          of functions to their declarations with the type
+                          checker, so functions calling different helpers of
+                          the same name no longer match, and import aliases
+                          of the same helper do
+  --similarity, -s <n>    Minimum similarity for near mode, between 0 and 1
+                          (default 0.85); implies --mode near
+  --blocks, -b            Also report duplicated statement blocks inside
+                          otherwise different functions
+  --min-block-statements <n>  Minimum statements in a block (default 5)
+  --min-block-lines <n>   Minimum lines in a block (default 5)
+  --name-collisions       Also report functions that share a name but have
+                          different implementations, with a diff between them
+  --collision-key <key>   Group name collisions by name (default) or by
+                          qualified name, such as UserService.save
+  --min-lines <n>         Leave out functions with fewer lines
+  --min-tokens <n>        Leave out functions with fewer tokens
+  --min-statements <n>    Leave out functions with fewer statements
+  --exclude-kind <kinds>  Leave out functions of these kinds, separated by
+                          commas: function, arrow, method, getter, setter or
+                          constructor
+  --min-occurrences <n>   Report only groups with at least n occurrences
+                          (default 2)
+  --format, -f <format>   Report format: markdown (default), html, json, sarif,
+                          csv or junit; repeat the option (or separate formats
+                          with commas) to write several reports at once
+  --include-source        Include the source text of functions, and the diffs
+                          between name collision variants, in JSON reports
+  --write-baseline <file> Record the current duplicates in a baseline file
+  --baseline <file>       Report only duplicates that are not in the baseline,
+                          exiting with code 1 if any are found
+  --changed-since <ref>   Report only duplicates with an occurrence in code
+                          changed since the git ref (committed, uncommitted
+                          or untracked), exiting with code 1 if any are found
+  --changed-scope <scope> What counts as changed code: lines (default) or
+                          files
+  --reference, -r <dir>   Report only the functions that reimplement a function
+                          of a reference library, such as an internal utils
+                          package, with the reference to import instead;
+                          repeat the option for several libraries
+  --cross-package         Report only duplicates with copies in more than one
+                          package of the workspace (pnpm-workspace.yaml or
+                          package.json workspaces)
+  --gitignore             Also skip the files excluded by .gitignore files
+  --project, -p <path>    Scan the files of a TypeScript project (a tsconfig.json
+                          or a directory containing one) as listed by its
+                          files, include and exclude settings, following
+                          project references, instead of every file in the
+                          directory
+  --extensions <list>     Extensions of the files scanned when walking the
+                          directory, separated by commas (default: .ts, .tsx,
+                          .mts, .cts, .js, .jsx, .mjs, .cjs, .vue, .svelte,
+                          .astro)
+  --no-cache              Parse every file instead of reusing the functions of
+                          unchanged files from ${CACHE_DIRECTORY}
+  --usage                 Count the references to duplicates and recommend
+                          the copy of each group to keep
+  --clear-cache           Delete the cache of the project
+  --jobs, -j <n>          Worker threads used to parse files (default: the
+                          number of CPUs)
+  --watch, -w             Keep watching the project after the scan and print
+                          duplicate groups that appear, grow, shrink or are
+                          resolved as files change (blocks and name
+                          collisions are not updated)
+  --fix <group-id>        Consolidate a duplicate group (numbered as in the
+                          scan output): keep one copy, export it if needed,
+                          delete the others and import the kept copy instead
+  --keep <n>              Occurrence of the group to keep (default: with
+                          --usage the recommended one, otherwise the first
+                          exported one, or the first)
+  --dry-run               With --fix, print the changes as a diff instead of
+                          writing them
+  --create-ignore, -ci    Create a sample .ignore file with default patterns
+  --help, -h              Show help information
+
+Examples:
+  pnpm dev                              # Scan current directory
+  pnpm dev ./my-project                 # Scan specific directory
+  pnpm dev ./my-project --mode structural # Match renamed-identifier clones
+  pnpm dev ./my-project --similarity 0.8  # Match copies with small edits
+  pnpm dev ./my-project --type-aware      # Match only copies using the same helpers
+  pnpm dev ./my-project --blocks          # Also find pasted blocks of code
+  pnpm dev ./my-project --name-collisions # Find diverged copies of helpers
+  pnpm dev ./my-project -p ./my-project/tsconfig.json # Scan only compiled files
+  pnpm dev ./my-project --min-lines 3 --exclude-kind getter,setter # Skip trivial code
+  pnpm dev ./my-project -f sarif -f json  # Write SARIF and JSON reports
+  pnpm dev . --write-baseline .duplicates-baseline.json # Record known duplicates
+  pnpm dev . --baseline .duplicates-baseline.json       # Fail on new duplicates
+  pnpm dev . --changed-since origin/main # Check the duplicates a branch adds
+  pnpm dev ./my-monorepo --cross-package # Find helpers to move to a shared package
+  pnpm dev ./my-app -r ./packages/utils  # Find helpers that utils already has
+  pnpm dev ./my-project --watch          # Keep the report live while refactoring
+  pnpm dev consolidate 2 ./my-project --dry-run # Preview merging group 2
+  pnpm dev --create-ignore ./my-project # Create .ignore file in project
+`);
+    return;
+  }
+
+  let run: Promise<unknown>;
+  if (options.fix !== undefined) {
+    run = consolidateDuplicateGroup(options);
+  } else {
+    run = options.watch ? watchDuplicateFunctions(options) : detectDuplicateFunctions(options);
+  }
+  run.catch(error => {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  });
+}
+
+main();
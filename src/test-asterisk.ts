@@ -1,11 +1,12 @@
 import fs from 'fs';
 import path from 'path';
-import { convertToMarkdown } from './index';
+import { ReportData, convertToMarkdown } from './index';
 
 // Mock duplicate functions data
 const mockDuplicates = [
   {
     name: 'getRequestHeaders',
+    mode: 'exact' as const,
     occurrences: [
       { filePath: 'file1.ts', lineNumber: 10 },
       { filePath: 'file2.ts', lineNumber: 20 },
@@ -14,6 +15,7 @@ const mockDuplicates = [
   },
   {
     name: 'getRequestHeaders',
+    mode: 'exact' as const,
     occurrences: [
       { filePath: 'file4.ts', lineNumber: 40 },
       { filePath: 'file5.ts', lineNumber: 50 }
@@ -21,6 +23,7 @@ const mockDuplicates = [
   },
   {
     name: 'uniqueFunction',
+    mode: 'exact' as const,
     occurrences: [
       { filePath: 'file6.ts', lineNumber: 60 },
       { filePath: 'file7.ts', lineNumber: 70 }
@@ -28,8 +31,29 @@ const mockDuplicates = [
   }
 ];
 
+// Mock report data around the duplicates
+const noDuplication = { lines: 0, duplicatedLines: 0, tokens: 0, duplicatedTokens: 0, percentage: 0, groups: 0 };
+const reportData: ReportData = {
+  metadata: {
+    toolVersion: '0.0.0',
+    generatedAt: new Date().toISOString(),
+    projectRoot: process.cwd(),
+    mode: 'exact',
+    typeAware: false,
+    fileCount: 7,
+    functionCount: 7,
+    filter: {},
+    filtered: { functions: 0, groups: 0 }
+  },
+  duplicates: mockDuplicates,
+  blocks: [],
+  suppressed: [],
+  nameCollisions: [],
+  metrics: { project: noDuplication, packages: [], directories: [], files: [] }
+};
+
 // Generate markdown report
-const markdown = convertToMarkdown(mockDuplicates);
+const markdown = convertToMarkdown(reportData);
 
 // Create reports directory if it doesn't exist
 const reportsDir = path.join(process.cwd(), 'reports');
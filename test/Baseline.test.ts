@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { compareWithBaseline, createBaseline, readBaseline, writeBaseline } from '../src/Baseline';
+import { createProject, removeProject, scan, writeFiles } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+const PARSE = 'export function parse(text: string) {\n  return Number(text.trim());\n}\n';
+
+describe('baseline', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = createProject({ 'a.ts': FORMAT, 'b.ts': FORMAT });
+  });
+  afterEach(() => removeProject(projectRoot));
+
+  test('covers every group of the scan it was created from', async () => {
+    const result = await scan(projectRoot);
+    const comparison = compareWithBaseline(result, createBaseline(result));
+
+    assert.deepEqual(comparison.duplicates, []);
+    assert.equal(comparison.newGroups, 0);
+    assert.equal(comparison.newOccurrences, 0);
+  });
+
+  test('keeps known occurrences that moved to another line', async () => {
+    const baseline = createBaseline(await scan(projectRoot));
+    writeFiles(projectRoot, { 'a.ts': `// Formatting\n\n${FORMAT}` });
+
+    const comparison = compareWithBaseline(await scan(projectRoot), baseline);
+    assert.deepEqual(comparison.duplicates, []);
+  });
+
+  test('reports new occurrences of a known group, marking the new ones', async () => {
+    const baseline = createBaseline(await scan(projectRoot));
+    writeFiles(projectRoot, { 'c.ts': FORMAT });
+
+    const comparison = compareWithBaseline(await scan(projectRoot), baseline);
+    assert.equal(comparison.newGroups, 0);
+    assert.equal(comparison.newOccurrences, 1);
+    assert.equal(comparison.duplicates[0].baselineStatus, 'new-occurrences');
+    assert.deepEqual(comparison.duplicates[0].occurrences.map(occurrence => occurrence.isNew), [false, false, true]);
+  });
+
+  test('reports new groups', async () => {
+    const baseline = createBaseline(await scan(projectRoot));
+    writeFiles(projectRoot, { 'c.ts': PARSE, 'd.ts': PARSE });
+
+    const comparison = compareWithBaseline(await scan(projectRoot), baseline);
+    assert.equal(comparison.newGroups, 1);
+    assert.equal(comparison.duplicates.length, 1);
+    assert.equal(comparison.duplicates[0].name, 'parse');
+    assert.equal(comparison.duplicates[0].baselineStatus, 'new-group');
+  });
+
+  test('refuses a scan in another mode', async () => {
+    const baseline = createBaseline(await scan(projectRoot));
+    const result = await scan(projectRoot, { mode: 'structural' });
+
+    assert.throws(() => compareWithBaseline(result, baseline), /recorded in exact mode, but this scan uses structural mode/);
+  });
+
+  test('refuses a scan that differs in type-aware matching', async () => {
+    const baseline = createBaseline(await scan(projectRoot));
+    const result = await scan(projectRoot, { typeAware: true });
+
+    assert.throws(() => compareWithBaseline(result, baseline), /without type-aware matching/);
+  });
+
+  test('is read back as it was written', async () => {
+    const baseline = createBaseline(await scan(projectRoot));
+    const filePath = path.join(projectRoot, 'baseline.json');
+    writeBaseline(filePath, baseline);
+
+    assert.deepEqual(readBaseline(filePath), baseline);
+    assert.deepEqual(baseline.groups[0].occurrences.map(occurrence => occurrence.filePath), ['a.ts', 'b.ts']);
+  });
+
+  test('rejects missing files and files of another version', () => {
+    const filePath = path.join(projectRoot, 'baseline.json');
+    assert.throws(() => readBaseline(filePath), /does not exist/);
+
+    fs.writeFileSync(filePath, JSON.stringify({ version: 99, groups: [] }));
+    assert.throws(() => readBaseline(filePath), /is not a version 1 baseline/);
+  });
+});
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { afterEach, describe, test } from 'node:test';
+import { ScanResult } from '../src/DuplicateScanner';
+import { createProject, removeProject, scan } from './helpers';
+
+const STEPS = ['const a = load();', 'const b = parse(a);', 'check(b);', 'save(b);', 'log(b);', 'notify(b);'];
+
+/**
+ * Writes a function whose body runs some of the steps between statements of its own
+ * @param name - The name of the function
+ * @param before - Statements before the steps
+ * @param steps - The steps
+ * @param after - Statements after the steps
+ * @returns The source text of the function, one statement per line
+ */
+function createFunction(name: string, before: string[], steps: string[], after: string[] = []): string {
+  return `export function ${name}() {\n${[...before, ...steps, ...after].map(line => `  ${line}\n`).join('')}}\n`;
+}
+
+describe('block clones', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  /**
+   * Gets the locations of the sides of each block
+   * @param result - The scan result
+   * @returns For each block, its statement count and its sides as "relative/path.ts:start-end"
+   */
+  const getBlocks = (result: ScanResult) => result.blocks.map(block => [
+    block.statementCount,
+    ...block.occurrences.map(location => `${path.relative(projectRoot, location.filePath)}:${location.startLine}-${location.endLine}`)
+  ]);
+
+  test('find the longest run of statements shared by otherwise different functions', async () => {
+    projectRoot = createProject({
+      'a.ts': createFunction('importUsers', ['start();'], STEPS),
+      'b.ts': createFunction('importItems', ['reset();', 'start(true);'], STEPS, ['finish();'])
+    });
+
+    const result = await scan(projectRoot, { blocks: true });
+    assert.deepEqual(result.duplicates, []);
+    assert.deepEqual(getBlocks(result), [[6, 'a.ts:3-8', 'b.ts:4-9']]);
+    assert.equal(result.blocks[0].occurrences[1].content, STEPS.map(line => `  ${line}`).join('\n'));
+  });
+
+  test('are not looked for unless asked for', async () => {
+    projectRoot = createProject({
+      'a.ts': createFunction('importUsers', ['start();'], STEPS),
+      'b.ts': createFunction('importItems', ['reset();'], STEPS)
+    });
+
+    assert.deepEqual((await scan(projectRoot)).blocks, []);
+  });
+
+  test('need the minimum number of statements and lines', async () => {
+    projectRoot = createProject({
+      'a.ts': createFunction('importUsers', ['start();'], STEPS.slice(0, 4)),
+      'b.ts': createFunction('importItems', ['reset();'], STEPS.slice(0, 4))
+    });
+
+    assert.deepEqual(getBlocks(await scan(projectRoot, { blocks: true })), []);
+    assert.deepEqual(getBlocks(await scan(projectRoot, { blocks: true, minBlockStatements: 4, minBlockLines: 4 })),
+      [[4, 'a.ts:3-6', 'b.ts:3-6']]);
+    assert.deepEqual(getBlocks(await scan(projectRoot, { blocks: true, minBlockStatements: 4, minBlockLines: 5 })), []);
+  });
+
+  test('leave out blocks inside larger blocks', async () => {
+    const body = ['if (ready) {', ...STEPS.map(line => `  ${line}`), '}'];
+    projectRoot = createProject({
+      'a.ts': createFunction('importUsers', ['start();'], body, ['stop();']),
+      'b.ts': createFunction('importItems', ['reset();', 'ready = true;'], body, ['stop();'])
+    });
+
+    assert.deepEqual(getBlocks(await scan(projectRoot, { blocks: true, minBlockStatements: 2 })),
+      [[2, 'a.ts:3-11', 'b.ts:4-12']]);
+  });
+
+  test('pair every later copy with the first one', async () => {
+    projectRoot = createProject({
+      'a.ts': createFunction('importUsers', ['start();'], STEPS),
+      'b.ts': createFunction('importItems', ['reset();'], STEPS),
+      'c.ts': createFunction('importOrders', ['open();'], STEPS)
+    });
+
+    assert.deepEqual(getBlocks(await scan(projectRoot, { blocks: true })),
+      [[6, 'a.ts:3-8', 'b.ts:3-8'], [6, 'a.ts:3-8', 'c.ts:3-8']]);
+  });
+});
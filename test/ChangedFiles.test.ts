@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { ChangedLines, filterToChangedCode, getChangedLines, isInChangedCode, LineRange } from '../src/ChangedFiles';
+import { createProject, removeProject, scan, writeFiles } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+
+/**
+ * Runs git in a repository, as a fixed author
+ * @param cwd - The repository
+ * @param args - The git arguments
+ */
+function git(cwd: string, ...args: string[]): void {
+  execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd, stdio: 'ignore' });
+}
+
+describe('getChangedLines', () => {
+  let repositoryRoot: string;
+  let changedLines: ChangedLines;
+
+  before(async () => {
+    repositoryRoot = createProject({
+      'edited.ts': 'const a = 1;\nconst b = 2;\nconst c = 3;\n',
+      'shortened.ts': 'const a = 1;\nconst b = 2;\n',
+      'deleted.ts': 'const a = 1;\n',
+      'tab\there.ts': 'const a = 1;\n'
+    });
+    git(repositoryRoot, 'init', '--quiet');
+    git(repositoryRoot, 'add', '--all');
+    git(repositoryRoot, 'commit', '--quiet', '--message', 'Initial commit');
+
+    writeFiles(repositoryRoot, {
+      'edited.ts': 'const a = 1;\nconst b = 20;\nconst c = 3;\nconst d = 4;\nconst e = 5;\n',
+      'shortened.ts': 'const a = 1;\n',
+      'tab\there.ts': 'const a = 10;\n',
+      'überall.ts': 'const a = 1;\n'
+    });
+    fs.rmSync(path.join(repositoryRoot, 'deleted.ts'));
+
+    changedLines = await getChangedLines(repositoryRoot, 'HEAD');
+  });
+  after(() => removeProject(repositoryRoot));
+
+  test('reads the lines added or changed in tracked files', () => {
+    assert.deepEqual(changedLines.get(path.join(repositoryRoot, 'edited.ts')), [{ start: 2, end: 2 }, { start: 4, end: 5 }]);
+  });
+
+  test('keeps files with only deletions, without lines', () => {
+    assert.deepEqual(changedLines.get(path.join(repositoryRoot, 'shortened.ts')), []);
+  });
+
+  test('leaves out deleted files', () => {
+    assert.equal(changedLines.has(path.join(repositoryRoot, 'deleted.ts')), false);
+  });
+
+  test('marks untracked files as changed throughout', () => {
+    assert.equal(changedLines.get(path.join(repositoryRoot, 'überall.ts')), 'all');
+  });
+
+  test('reads paths git quotes', () => {
+    assert.deepEqual(changedLines.get(path.join(repositoryRoot, 'tab\there.ts')), [{ start: 1, end: 1 }]);
+  });
+
+  test('gives paths under the project root as given, when it is a link', async () => {
+    const link = `${repositoryRoot}-link`;
+    fs.symlinkSync(repositoryRoot, link);
+    try {
+      const linked = await getChangedLines(link, 'HEAD');
+      assert.deepEqual(linked.get(path.join(link, 'edited.ts')), [{ start: 2, end: 2 }, { start: 4, end: 5 }]);
+    } finally {
+      fs.rmSync(link);
+    }
+  });
+
+  test('rejects refs that do not exist', async () => {
+    await assert.rejects(getChangedLines(repositoryRoot, 'no-such-branch'), /Git ref "no-such-branch" does not exist/);
+  });
+});
+
+describe('isInChangedCode', () => {
+  const changedLines: ChangedLines = new Map<string, LineRange[] | 'all'>([
+    [path.resolve('changed.ts'), [{ start: 10, end: 12 }]],
+    [path.resolve('new.ts'), 'all']
+  ]);
+
+  test('matches ranges that overlap changed lines', () => {
+    assert.equal(isInChangedCode(changedLines, 'lines', 'changed.ts', 12, 20), true);
+    assert.equal(isInChangedCode(changedLines, 'lines', 'changed.ts', 1, 9), false);
+  });
+
+  test('matches any range of a changed file in files scope', () => {
+    assert.equal(isInChangedCode(changedLines, 'files', 'changed.ts', 1, 9), true);
+  });
+
+  test('matches any range of an untracked file, and none of an unchanged file', () => {
+    assert.equal(isInChangedCode(changedLines, 'lines', 'new.ts', 1, 1), true);
+    assert.equal(isInChangedCode(changedLines, 'files', 'other.ts', 1, 1), false);
+  });
+});
+
+describe('filterToChangedCode', () => {
+  let projectRoot: string;
+
+  before(() => {
+    projectRoot = createProject({ 'a.ts': FORMAT, 'b.ts': FORMAT });
+  });
+  after(() => removeProject(projectRoot));
+
+  test('keeps groups with an occurrence in changed code, marking it as new', async () => {
+    const result = await scan(projectRoot);
+    const changedLines: ChangedLines = new Map([[path.join(projectRoot, 'b.ts'), [{ start: 2, end: 2 }]]]);
+
+    const filter = filterToChangedCode(result, changedLines, 'lines');
+    assert.equal(filter.changedFileCount, 1);
+    assert.equal(filter.duplicates.length, 1);
+    assert.deepEqual(filter.duplicates[0].occurrences.map(occurrence => occurrence.isNew), [false, true]);
+  });
+
+  test('drops groups outside of changed code', async () => {
+    const result = await scan(projectRoot);
+    const changedLines: ChangedLines = new Map([[path.join(projectRoot, 'b.ts'), [{ start: 5, end: 6 }]]]);
+
+    assert.deepEqual(filterToChangedCode(result, changedLines, 'lines').duplicates, []);
+  });
+
+  test('ends occurrences where their spans end', async () => {
+    // The text of c starts with the keywords on the line above it
+    const declarations = 'export const\n  b = () => 1,\n  c = () => {\n    return 2;\n  };\n';
+    writeFiles(projectRoot, { 'c.ts': declarations, 'd.ts': `${declarations}export const e = 5;\n` });
+    const result = await scan(projectRoot);
+    const changedLines: ChangedLines = new Map([[path.join(projectRoot, 'd.ts'), [{ start: 6, end: 6 }]]]);
+
+    assert.deepEqual(filterToChangedCode(result, changedLines, 'lines').duplicates, []);
+  });
+});
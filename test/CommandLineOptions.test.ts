@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { parseCommandLineArgs } from '../src/CommandLineOptions';
+
+describe('command line options', () => {
+  test('collect the report formats from repeated and comma-separated options', () => {
+    assert.deepEqual(parseCommandLineArgs([]).formats, ['markdown']);
+    assert.deepEqual(parseCommandLineArgs(['--format', 'sarif', '-f', 'json,sarif,csv']).formats, ['sarif', 'json', 'csv']);
+    assert.throws(() => parseCommandLineArgs(['--format', 'xml']), /Unknown format "xml"/);
+  });
+
+  test('include the source text only in JSON reports', () => {
+    assert.equal(parseCommandLineArgs(['--format', 'sarif,json', '--include-source']).includeSource, true);
+    assert.throws(() => parseCommandLineArgs(['--include-source']), /--include-source can only be used with --format json/);
+  });
+
+  test('build the filter from the thresholds and excluded kinds', () => {
+    assert.deepEqual(parseCommandLineArgs([
+      '--min-lines', '3', '--min-tokens', '10', '--min-occurrences', '3', '--exclude-kind', 'getter,setter', '--exclude-kind', 'arrow'
+    ]).filter, { minLines: 3, minTokens: 10, minOccurrences: 3, excludeKinds: ['getter', 'setter', 'arrow'] });
+    assert.throws(() => parseCommandLineArgs(['--exclude-kind', 'lambda']), /Unknown function kind "lambda"/);
+  });
+
+  test('refuse baselines together with reference libraries', () => {
+    assert.throws(() => parseCommandLineArgs(['--reference', '../utils', '--write-baseline', 'baseline.json']),
+      /--baseline and --write-baseline cannot be used with --reference/);
+    assert.throws(() => parseCommandLineArgs(['--reference', '../utils', '--baseline', 'baseline.json']),
+      /--baseline and --write-baseline cannot be used with --reference/);
+    assert.deepEqual(parseCommandLineArgs(['--reference', '../utils']).references, ['../utils']);
+  });
+});
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import * as ts from 'typescript';
+import { afterEach, describe, test } from 'node:test';
+import { getComponentScripts } from '../src/ComponentScripts';
+import { createProject, getGroupLocations, removeProject, scan } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+
+describe('component scripts', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  test('are scanned with the line numbers of the component', async () => {
+    projectRoot = createProject({
+      'Price.vue': `<template>\n  <span>{{ format(price) }}</span>\n</template>\n\n<script setup lang="ts">\n${FORMAT}</script>\n`,
+      'Total.svelte': `<script context="module">\n  const id = 1;\n</script>\n<script lang="ts">\n${FORMAT}</script>\n<p>{format(total)}</p>\n`,
+      'Card.astro': `---\nconst title = 'Card';\n${FORMAT}---\n<h1>{title}</h1>\n<script>\n${FORMAT}</script>\n`,
+      'format.ts': FORMAT
+    });
+
+    const result = await scan(projectRoot);
+    assert.deepEqual(getGroupLocations(result), [['Card.astro:3', 'Card.astro:9', 'Price.vue:6', 'Total.svelte:5', 'format.ts:1']]);
+    assert(result.duplicates[0].occurrences.every(occurrence => occurrence.content === FORMAT.trimEnd()));
+    assert.deepEqual(result.duplicates[0].occurrences.map(occurrence => occurrence.endLine), [5, 11, 8, 7, 3]);
+  });
+
+  test('blank out everything but the code, keeping every line break and column', () => {
+    const content = '<template>\n  <div/>\n</template>\n<script src="./a.js"></script>\n' +
+      '<script type="text/template">\n  <b/>\n</script>\n<script>\n  const a = 1;\n</script>\n';
+
+    const { text, scriptKind } = getComponentScripts('Widget.vue', content);
+    assert.equal(text.length, content.length);
+    assert.deepEqual(text.split('\n').map(line => line.trim()), ['', '', '', '', '', '', '', '', 'const a = 1;', '', '']);
+    assert.equal(text.indexOf('const'), content.indexOf('const'));
+    assert.equal(scriptKind, ts.ScriptKind.JS);
+  });
+
+  test('are parsed as JSX when a script says so', () => {
+    assert.equal(getComponentScripts('App.vue', '<script lang="tsx">\nconst a = <b/>;\n</script>').scriptKind, ts.ScriptKind.TSX);
+    assert.equal(getComponentScripts('App.vue', '<script lang="jsx">\nconst a = <b/>;\n</script>').scriptKind, ts.ScriptKind.JSX);
+    assert.equal(getComponentScripts('Card.astro', '---\nconst a = 1;\n---\n').scriptKind, ts.ScriptKind.TS);
+  });
+});
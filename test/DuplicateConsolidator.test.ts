@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { afterEach, describe, test } from 'node:test';
+import { applyConsolidation, formatConsolidationDiff, planConsolidation } from '../src/DuplicateConsolidator';
+import { DuplicateFunction } from '../src/ReportModel';
+import { createProject, removeProject, scan } from './helpers';
+
+const FORMAT = 'function format(value: number) {\n  return value.toFixed(2);\n}\n';
+
+describe('consolidation', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  /**
+   * Reads a file of the project
+   * @param relativePath - Path relative to the project root
+   * @returns The content of the file
+   */
+  const read = (relativePath: string) => fs.readFileSync(path.join(projectRoot, relativePath), 'utf-8');
+
+  test('exports the kept copy and imports it in place of the others', async () => {
+    projectRoot = createProject({
+      'utils/format.ts': FORMAT,
+      'price.ts': `${FORMAT}export function price(value: number) {\n  return '$' + format(value);\n}\n`
+    });
+    const [group] = (await scan(projectRoot)).duplicates;
+
+    const plan = planConsolidation(group, projectRoot, 1);
+    assert.equal(path.relative(projectRoot, plan.canonical.filePath), path.join('utils', 'format.ts'));
+    applyConsolidation(plan);
+
+    assert.equal(read('utils/format.ts'), `export ${FORMAT}`);
+    assert.equal(read('price.ts'),
+      "import { format } from './utils/format';\n\nexport function price(value: number) {\n  return '$' + format(value);\n}\n");
+  });
+
+  test('keeps the first exported copy and re-exports the removed ones', async () => {
+    projectRoot = createProject({ 'a.ts': `export ${FORMAT}`, 'b.ts': `export ${FORMAT}` });
+    const [group] = (await scan(projectRoot)).duplicates;
+
+    const plan = planConsolidation(group, projectRoot);
+    assert.equal(path.relative(projectRoot, plan.canonical.filePath), 'a.ts');
+    applyConsolidation(plan);
+
+    assert.equal(read('a.ts'), `export ${FORMAT}`);
+    assert.equal(read('b.ts'), "import { format } from './a';\n\nexport { format };\n");
+  });
+
+  test('prints a dry run as a diff without changing files', async () => {
+    projectRoot = createProject({ 'a.ts': `export ${FORMAT}`, 'b.ts': `export ${FORMAT}` });
+    const [group] = (await scan(projectRoot)).duplicates;
+
+    const diff = formatConsolidationDiff(planConsolidation(group, projectRoot), projectRoot);
+    assert.match(diff, /^--- a\/b\.ts\n\+\+\+ b\/b\.ts\n/);
+    assert.match(diff, /^-export function format/m);
+    assert.equal(read('b.ts'), `export ${FORMAT}`);
+  });
+
+  test('refuses copies that depend on local closures', async () => {
+    projectRoot = createProject({
+      'a.ts': 'function format(value: number) {\n  return value.toFixed(digits);\n}\nexport const digits = 2;\n',
+      'b.ts': 'export function setup(digits: number) {\n  function format(value: number) {\n    return value.toFixed(digits);\n  }\n  return format;\n}\n'
+    });
+    const [group] = (await scan(projectRoot)).duplicates;
+
+    assert.throws(() => planConsolidation(group, projectRoot, 0), /depends on the local closure variable 'digits'/);
+  });
+
+  test('refuses copies that depend on symbols their module does not export', async () => {
+    projectRoot = createProject({
+      'a.ts': 'const digits = 2;\nexport function format(value: number) {\n  return value.toFixed(digits);\n}\n',
+      'b.ts': 'const digits = 3;\nexport function format(value: number) {\n  return value.toFixed(digits);\n}\n'
+    });
+    const [group] = (await scan(projectRoot)).duplicates;
+
+    assert.throws(() => planConsolidation(group, projectRoot, 0), /depends on the non-exported symbol 'digits'/);
+    assert.equal(read('b.ts'), 'const digits = 3;\nexport function format(value: number) {\n  return value.toFixed(digits);\n}\n');
+  });
+
+  test('refuses copies whose property names differ from the kept copy', () => {
+    projectRoot = createProject({
+      'a.ts': 'export function makeA(x: number) {\n  const count = x * 2;\n  return { count };\n}\n',
+      'b.ts': 'export function makeB(y: number) {\n  const total = y * 2;\n  return { total };\n}\n'
+    });
+    // Structural matching tells these copies apart, so the group is built by hand
+    const group: DuplicateFunction = {
+      name: 'makeA',
+      mode: 'structural',
+      occurrences: ['a.ts', 'b.ts'].map(relativePath => ({ filePath: path.join(projectRoot, relativePath), lineNumber: 1 }))
+    };
+
+    assert.throws(() => planConsolidation(group, projectRoot, 0), /makeB at b\.ts:1 uses the property 'total' where the copy being kept uses 'count'/);
+  });
+
+  test('refuses near-duplicate groups', async () => {
+    projectRoot = createProject({ 'a.ts': `export ${FORMAT}`, 'b.ts': `export ${FORMAT}` });
+    const [group] = (await scan(projectRoot, { mode: 'near', similarity: 0.5 })).duplicates;
+
+    assert.throws(() => planConsolidation(group, projectRoot), /Near-duplicate groups cannot be consolidated/);
+  });
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { afterEach, describe, mock, test } from 'node:test';
+import { findDuplicates } from '../src/index';
+import { createProject, getGroupLocations, removeProject } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+const PARSE = 'export function parse(text: string) {\n  return Number(text);\n}\n';
+
+describe('findDuplicates', () => {
+  const projectRoots: string[] = [];
+
+  afterEach(() => {
+    projectRoots.splice(0).forEach(removeProject);
+    mock.restoreAll();
+  });
+
+  /**
+   * Writes a project that is removed after the test
+   * @param files - Content of each file, keyed by path relative to the project root
+   * @returns Absolute path of the project root
+   */
+  const create = (files: Record<string, string>) => {
+    const projectRoot = createProject(files);
+    projectRoots.push(projectRoot);
+    return projectRoot;
+  };
+
+  test('returns the duplicate groups with absolute paths, and what was scanned', async () => {
+    const projectRoot = create({
+      'src/a.ts': FORMAT + PARSE,
+      'src/b.ts': FORMAT,
+      'data.json': '{}',
+      'node_modules/lib/index.ts': FORMAT
+    });
+
+    const result = await findDuplicates({ projectRoot, cache: false, jobs: 1 });
+    assert.equal(result.projectRoot, projectRoot);
+    assert.deepEqual(getGroupLocations(result), [[path.join('src', 'a.ts') + ':1', path.join('src', 'b.ts') + ':1']]);
+    assert(path.isAbsolute(result.duplicates[0].occurrences[0].filePath));
+    assert.deepEqual([result.fileCount, result.sourceFileCount, result.functionCount], [3, 2, 3]);
+    assert.deepEqual(result.functions.map(func => func.name), ['format', 'parse', 'format']);
+    assert.equal(result.ignored.usingDefaults, true);
+    assert.equal(result.ignored.byPattern['node_modules/'], 1);
+    assert.deepEqual(result.parseErrors, []);
+    assert(result.timings.total >= result.timings.parsing);
+  });
+
+  test('prints nothing', async () => {
+    const projectRoot = create({ 'a.ts': FORMAT, 'b.ts': FORMAT });
+    const log = mock.method(console, 'log');
+    const error = mock.method(console, 'error');
+
+    await findDuplicates({ projectRoot, cache: false, jobs: 1 });
+    assert.equal(log.mock.callCount(), 0);
+    assert.equal(error.mock.callCount(), 0);
+  });
+
+  test('keeps concurrent scans apart', async () => {
+    const first = create({ 'a.ts': FORMAT, 'b.ts': FORMAT });
+    const second = create({ 'c.ts': PARSE, 'd.ts': PARSE });
+
+    const [firstResult, secondResult] = await Promise.all([first, second].map(projectRoot =>
+      findDuplicates({ projectRoot, cache: false, jobs: 1 })));
+    assert.deepEqual(getGroupLocations(firstResult), [['a.ts:1', 'b.ts:1']]);
+    assert.deepEqual(getGroupLocations(secondResult), [['c.ts:1', 'd.ts:1']]);
+  });
+
+  test('refuses a project root that is not a directory', async () => {
+    const projectRoot = create({ 'a.ts': FORMAT });
+
+    await assert.rejects(findDuplicates({ projectRoot: path.join(projectRoot, 'missing') }), /does not exist/);
+    await assert.rejects(findDuplicates({ projectRoot: path.join(projectRoot, 'a.ts') }), /is not a directory/);
+  });
+});
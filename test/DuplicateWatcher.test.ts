@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { DuplicateWatcher, watchDuplicates, WatchUpdate } from '../src/DuplicateWatcher';
+import { createProject, removeProject, scan, writeFiles } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+
+// Longest wait for the watcher to report a change
+const UPDATE_TIMEOUT = 5000;
+
+describe('watchDuplicates', () => {
+  let projectRoot: string;
+  let watcher: DuplicateWatcher;
+  const updates: WatchUpdate[] = [];
+  let onUpdate: (() => void) | undefined;
+
+  /**
+   * Waits for the watcher to report the next batch of changes
+   * @returns The update
+   */
+  const nextUpdate = (): Promise<WatchUpdate> => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('No update from the watcher')), UPDATE_TIMEOUT);
+    onUpdate = () => {
+      clearTimeout(timer);
+      onUpdate = undefined;
+      resolve(updates.shift()!);
+    };
+  });
+
+  before(async () => {
+    projectRoot = createProject({ '.ignore': 'generated/\n', 'src/a.ts': FORMAT, 'generated/.keep': '' });
+    watcher = watchDuplicates(await scan(projectRoot), update => {
+      updates.push(update);
+      onUpdate?.();
+    });
+  });
+  after(() => {
+    watcher.close();
+    removeProject(projectRoot);
+  });
+
+  test('reports new groups, leaving out ignored files', async () => {
+    const update = nextUpdate();
+    writeFiles(projectRoot, { 'generated/b.ts': FORMAT, 'src/c.ts': FORMAT });
+
+    const { changedFiles, newGroups, duplicates } = await update;
+    assert.deepEqual(changedFiles, [path.join(projectRoot, 'src/c.ts')]);
+    assert.equal(newGroups.length, 1);
+    assert.deepEqual(duplicates[0].occurrences.map(occurrence => path.relative(projectRoot, occurrence.filePath)), ['src/a.ts', 'src/c.ts']);
+  });
+
+  test('reports groups resolved by deleting a copy', async () => {
+    const update = nextUpdate();
+    fs.rmSync(path.join(projectRoot, 'src/c.ts'));
+
+    const { resolvedGroups, duplicates } = await update;
+    assert.equal(resolvedGroups.length, 1);
+    assert.deepEqual(duplicates, []);
+  });
+});
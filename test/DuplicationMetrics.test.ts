@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { afterEach, describe, test } from 'node:test';
+import { computeDuplicationMetrics, describeDuplication } from '../src/DuplicationMetrics';
+import { DuplicateBlock } from '../src/BlockCloneFinder';
+import { FunctionInfo } from '../src/FunctionFinder';
+import { DuplicateFunction } from '../src/ReportModel';
+import { createProject, removeProject } from './helpers';
+
+const PROJECT_ROOT = path.resolve('/project');
+
+/**
+ * Describes a function spanning whole lines
+ * @param filePath - Absolute path of its file
+ * @param startLine - Its first line
+ * @param endLine - Its last line
+ * @param tokenCount - Its number of tokens
+ * @returns The function
+ */
+function createFunction(filePath: string, startLine: number, endLine: number, tokenCount: number): FunctionInfo {
+  return {
+    name: 'f',
+    qualifiedName: 'f',
+    content: '',
+    filePath,
+    lineNumber: startLine,
+    startLine,
+    startColumn: 1,
+    endLine,
+    endColumn: 2,
+    lineCount: endLine - startLine + 1,
+    tokenCount,
+    statementCount: 1,
+    kind: 'function',
+    exported: false,
+    async: false,
+    generator: false
+  };
+}
+
+/**
+ * Groups functions as duplicates of each other
+ * @param functions - The functions
+ * @returns The duplicate group
+ */
+function createGroup(...functions: FunctionInfo[]): DuplicateFunction {
+  return { name: 'f', mode: 'exact', occurrences: functions };
+}
+
+/**
+ * Describes a block duplicated in two places
+ * @param first - File path, first line, last line and tokens of one copy
+ * @param second - The same for the other copy
+ * @returns The duplicated block
+ */
+function createBlock(first: [string, number, number, number], second: [string, number, number, number]): DuplicateBlock {
+  const toLocation = ([filePath, startLine, endLine, tokenCount]: [string, number, number, number]) =>
+    ({ filePath, startLine, endLine, tokenCount });
+  return { statementCount: 3, occurrences: [toLocation(first), toLocation(second)] };
+}
+
+describe('duplication metrics', () => {
+  const a = path.join(PROJECT_ROOT, 'a.ts');
+  const b = path.join(PROJECT_ROOT, 'b.ts');
+
+  test('measures the duplicated functions, counting nested functions once', () => {
+    const outer = createFunction(a, 1, 10, 100);
+    const inner = createFunction(a, 3, 5, 20);
+    const first = createFunction(b, 1, 4, 40);
+    const second = createFunction(b, 6, 9, 40);
+
+    const metrics = computeDuplicationMetrics(PROJECT_ROOT, [outer, inner, first, second], [createGroup(inner, first)], []);
+
+    assert.deepEqual(metrics.project, {
+      lines: 18,
+      duplicatedLines: 7,
+      tokens: 180,
+      duplicatedTokens: 60,
+      percentage: 38.9,
+      groups: 1
+    });
+  });
+
+  test('counts duplicated blocks inside functions only once', () => {
+    const original = createFunction(a, 1, 10, 100);
+    const copy = createFunction(a, 12, 21, 100);
+    const other = createFunction(b, 1, 20, 200);
+
+    const metrics = computeDuplicationMetrics(PROJECT_ROOT, [original, copy, other], [createGroup(original, copy)], [
+      // Within a duplicated function, already counted with it
+      createBlock([a, 2, 6, 50], [b, 2, 6, 50]),
+      // Within the same function as another block
+      createBlock([b, 4, 8, 50], [b, 12, 16, 50])
+    ]);
+
+    // Both copies of the function, then lines 2 to 8 and 12 to 16 of the other
+    assert.equal(metrics.project.duplicatedLines, 20 + 7 + 5);
+    assert.equal(metrics.project.groups, 3);
+  });
+
+  test('leaves out blocks in top-level code', () => {
+    const func = createFunction(a, 1, 5, 50);
+
+    const metrics = computeDuplicationMetrics(PROJECT_ROOT, [func], [], [
+      createBlock([a, 10, 30, 300], [a, 40, 60, 300])
+    ]);
+
+    assert.deepEqual(metrics.project, {
+      lines: 5,
+      duplicatedLines: 0,
+      tokens: 50,
+      duplicatedTokens: 0,
+      percentage: 0,
+      groups: 0
+    });
+    assert.deepEqual(metrics.files, []);
+  });
+
+  test('never counts more duplicated tokens than there are', () => {
+    const func = createFunction(a, 1, 8, 60);
+
+    const metrics = computeDuplicationMetrics(PROJECT_ROOT, [func], [], [
+      createBlock([a, 2, 6, 50], [a, 4, 8, 50])
+    ]);
+
+    assert.equal(metrics.project.duplicatedLines, 7);
+    assert.equal(metrics.project.duplicatedTokens, 60);
+    assert.ok(metrics.project.percentage <= 100);
+  });
+
+  describe('scopes', () => {
+    let projectRoot: string;
+
+    afterEach(() => removeProject(projectRoot));
+
+    test('measures packages, directories and files with duplicated code', () => {
+      projectRoot = createProject({ 'packages/app/package.json': '{}' });
+      const app = path.join(projectRoot, 'packages', 'app', 'src', 'app.ts');
+      const util = path.join(projectRoot, 'lib', 'util.ts');
+      const clean = path.join(projectRoot, 'lib', 'clean.ts');
+      const copy = createFunction(app, 1, 4, 40);
+      const original = createFunction(util, 1, 4, 40);
+
+      const metrics = computeDuplicationMetrics(projectRoot, [
+        copy,
+        createFunction(app, 6, 9, 40),
+        original,
+        createFunction(clean, 1, 10, 100)
+      ], [createGroup(copy, original)], []);
+
+      const relative = (scopes: Array<{ path: string; duplicatedLines: number; lines: number }>) =>
+        scopes.map(scope => [path.relative(projectRoot, scope.path), scope.duplicatedLines, scope.lines]);
+      assert.deepEqual(relative(metrics.packages), [[path.join('packages', 'app'), 4, 8]]);
+      assert.deepEqual(relative(metrics.directories), [
+        ['lib', 4, 14],
+        ['packages', 4, 8],
+        [path.join('packages', 'app'), 4, 8],
+        [path.join('packages', 'app', 'src'), 4, 8]
+      ]);
+      assert.deepEqual(relative(metrics.files), [
+        [path.join('lib', 'util.ts'), 4, 4],
+        [path.join('packages', 'app', 'src', 'app.ts'), 4, 8]
+      ]);
+    });
+  });
+
+  test('describes the statistics', () => {
+    assert.equal(
+      describeDuplication({ lines: 2310, duplicatedLines: 120, tokens: 17400, duplicatedTokens: 950, percentage: 5.2, groups: 1 }),
+      '5.2% duplicated: 120 of 2310 lines, 950 of 17400 tokens, 1 group'
+    );
+    assert.equal(
+      describeDuplication({ lines: 0, duplicatedLines: 0, tokens: 0, duplicatedTokens: 0, percentage: 0, groups: 0 }),
+      '0.0% duplicated: 0 of 0 lines, 0 of 0 tokens, 0 groups'
+    );
+  });
+});
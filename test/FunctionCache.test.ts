@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { afterEach, describe, test } from 'node:test';
+import { CACHE_DIRECTORY, clearCache } from '../src/FunctionCache';
+import { ScanOptions } from '../src/DuplicateScanner';
+import { createProject, getGroupLocations, removeProject, scan, writeFiles } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+const PARSE = 'export function parse(text: string) {\n  return Number(text);\n}\n';
+const STEPS = ['const a = load();', 'const b = parse(a);', 'check(b);', 'save(b);', 'log(b);', 'notify(b);'];
+
+/**
+ * Writes a function that runs the steps after statements of its own
+ * @param name - The name of the function
+ * @param before - Statements before the steps
+ * @returns The source text of the function, one statement per line
+ */
+function createFunction(name: string, before: string[]): string {
+  return `export function ${name}() {\n${[...before, ...STEPS].map(line => `  ${line}\n`).join('')}}\n`;
+}
+
+describe('cache', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  /**
+   * Scans the project with the cache enabled
+   * @param options - Other scan options
+   * @returns The scan result
+   */
+  const scanCached = (options: Partial<ScanOptions> = {}) => scan(projectRoot, { cache: true, ...options });
+
+  test('serves unchanged files on the next scan, with the same results', async () => {
+    projectRoot = createProject({ 'a.ts': FORMAT, 'b.ts': FORMAT, 'c.ts': PARSE });
+
+    const first = await scanCached();
+    assert.deepEqual(first.cache, { hits: 0, misses: 3 });
+    assert(fs.existsSync(path.join(projectRoot, CACHE_DIRECTORY, 'functions.json')));
+
+    const second = await scanCached();
+    assert.deepEqual(second.cache, { hits: 3, misses: 0 });
+    assert.deepEqual(getGroupLocations(second), getGroupLocations(first));
+    assert.deepEqual(second.functions, first.functions);
+  });
+
+  test('parses changed files again and forgets deleted ones', async () => {
+    projectRoot = createProject({ 'a.ts': FORMAT, 'b.ts': FORMAT, 'c.ts': PARSE });
+    await scanCached();
+
+    writeFiles(projectRoot, { 'c.ts': FORMAT });
+    fs.rmSync(path.join(projectRoot, 'b.ts'));
+    const result = await scanCached();
+    assert.deepEqual(result.cache, { hits: 1, misses: 1 });
+    assert.deepEqual(getGroupLocations(result), [['a.ts:1', 'c.ts:1']]);
+
+    const cacheFile = JSON.parse(fs.readFileSync(path.join(projectRoot, CACHE_DIRECTORY, 'functions.json'), 'utf-8'));
+    assert.deepEqual(Object.keys(cacheFile.files), ['a.ts', 'c.ts']);
+  });
+
+  test('discards a cache written by another version', async () => {
+    projectRoot = createProject({ 'a.ts': FORMAT, 'b.ts': FORMAT });
+    await scanCached();
+
+    const cacheFilePath = path.join(projectRoot, CACHE_DIRECTORY, 'functions.json');
+    fs.writeFileSync(cacheFilePath, JSON.stringify({ ...JSON.parse(fs.readFileSync(cacheFilePath, 'utf-8')), toolVersion: '0.0.0' }));
+    assert.deepEqual((await scanCached()).cache, { hits: 0, misses: 2 });
+  });
+
+  test('computes the hashes of another mode for cached files', async () => {
+    projectRoot = createProject({
+      'a.ts': 'export function total(items: number[]) {\n  return items.reduce((sum, item) => sum + item, 0);\n}\n',
+      'b.ts': 'export function total(values: number[]) {\n  return values.reduce((sum, value) => sum + value, 0);\n}\n'
+    });
+
+    assert.deepEqual(getGroupLocations(await scanCached()), []);
+    const result = await scanCached({ mode: 'structural' });
+    assert.deepEqual(result.cache, { hits: 2, misses: 0 });
+    assert.deepEqual(getGroupLocations(result), [['a.ts:1', 'b.ts:1']]);
+  });
+
+  test('finds the same blocks in cached files, whatever the earlier scans looked for', async () => {
+    projectRoot = createProject({
+      'a.ts': createFunction('importUsers', ['start();']),
+      'b.ts': createFunction('importItems', ['reset();', 'start(true);'])
+    });
+    const expected = (await scan(projectRoot, { blocks: true, minBlockStatements: 4 })).blocks;
+    assert.equal(expected.length, 1);
+
+    await scanCached();
+    assert.deepEqual((await scanCached({ blocks: true, minBlockStatements: 7 })).blocks, []);
+    const result = await scanCached({ blocks: true, minBlockStatements: 4 });
+    assert.deepEqual(result.cache, { hits: 2, misses: 0 });
+    assert.deepEqual(result.blocks, expected);
+    assert.deepEqual((await scanCached({ blocks: true, minBlockStatements: 4 })).blocks, expected);
+  });
+
+  test('can be cleared', async () => {
+    projectRoot = createProject({ 'a.ts': FORMAT });
+
+    assert.equal(clearCache(projectRoot), false);
+    await scanCached();
+    assert.equal(clearCache(projectRoot), true);
+    assert.deepEqual((await scanCached()).cache, { hits: 0, misses: 1 });
+  });
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { describeFilterStats } from '../src/FunctionFilter';
+import { createProject, getGroupLocations, removeProject, scan } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  const text = value.toFixed(2);\n  return text;\n}\n';
+const NOOP = 'export const noop = () => {};\n';
+const ACCOUNT = 'export class Account {\n  private id = 0;\n  get key() {\n    return this.id;\n  }\n}\n';
+
+describe('filter', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  test('leaves functions below the size thresholds out of the groups, but not out of the functions', async () => {
+    projectRoot = createProject({ 'a.ts': FORMAT + NOOP, 'b.ts': FORMAT + NOOP });
+
+    assert.deepEqual(getGroupLocations(await scan(projectRoot)), [['a.ts:1', 'b.ts:1'], ['a.ts:5', 'b.ts:5']]);
+    for (const filter of [{ minLines: 2 }, { minTokens: 15 }, { minStatements: 1 }]) {
+      const result = await scan(projectRoot, { filter });
+      assert.deepEqual(getGroupLocations(result), [['a.ts:1', 'b.ts:1']], JSON.stringify(filter));
+      assert.deepEqual(result.filtered, { functions: 2, groups: 0 });
+      assert.equal(result.functions.length, 4);
+    }
+    assert.deepEqual(getGroupLocations(await scan(projectRoot, { filter: { minStatements: 3 } })), []);
+  });
+
+  test('leaves functions of excluded kinds out', async () => {
+    projectRoot = createProject({ 'a.ts': ACCOUNT + NOOP, 'b.ts': ACCOUNT + NOOP });
+
+    const result = await scan(projectRoot, { filter: { excludeKinds: ['getter'] } });
+    assert.deepEqual(result.duplicates.map(group => group.name), ['noop']);
+    assert.deepEqual(result.filtered, { functions: 2, groups: 0 });
+  });
+
+  test('leaves groups with too few occurrences out', async () => {
+    projectRoot = createProject({ 'a.ts': FORMAT + NOOP, 'b.ts': FORMAT + NOOP, 'c.ts': NOOP });
+
+    const result = await scan(projectRoot, { filter: { minOccurrences: 3 } });
+    assert.deepEqual(getGroupLocations(result), [['a.ts:5', 'b.ts:5', 'c.ts:1']]);
+    assert.deepEqual(result.filtered, { functions: 0, groups: 1 });
+  });
+
+  test('describes what it left out', () => {
+    assert.equal(describeFilterStats({ minLines: 3, excludeKinds: ['arrow', 'getter'], minOccurrences: 3 }, { functions: 40, groups: 2 }),
+      'Left out 40 functions (fewer than 3 lines, arrow functions, getters) and 2 groups with fewer than 3 occurrences');
+    assert.equal(describeFilterStats({ minLines: 3 }, { functions: 0, groups: 0 }), '');
+  });
+});
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { extractFunctionsFromContent, parseFile } from '../src/FunctionFinder';
+
+const SOURCE = [
+  'export function a() { return 1; }',
+  'const b = () => 2, c = function () { return 3; };',
+  'exports.d = () => 4;',
+  'module.exports.e = function () { return 5; };',
+  'export default () => 6;',
+  'export class Shape {',
+  '  constructor(private size: number) {}',
+  '  area() { return this.size; }',
+  '  get width() { return 1; }',
+  '  set width(value: number) {}',
+  '  private hidden() { return 0; }',
+  '  onClick = () => 7;',
+  '}',
+  'const api = {',
+  '  load() { return 8; },',
+  '  save: function () { return 9; },',
+  '  run: () => { const inner = () => 10; return inner(); }',
+  '};',
+  'export { api };'
+].join('\n');
+
+describe('function extraction', () => {
+  const functions = extractFunctionsFromContent('a.ts', SOURCE);
+
+  test('finds declarations, variables, exports, class members and object members', () => {
+    assert.deepEqual(functions.map(func => `${func.name}:${func.lineNumber}`), [
+      'a:1',
+      'b:2',
+      'c:2',
+      'd:3',
+      'e:4',
+      'default:5',
+      'constructor:7',
+      'area:8',
+      'get width:9',
+      'set width:10',
+      'hidden:11',
+      'onClick:12',
+      'load:15',
+      'save:16',
+      'run:17',
+      'inner:17'
+    ]);
+  });
+
+  test('gives each declarator of a statement the keywords of the statement', () => {
+    assert.deepEqual(functions.slice(1, 3).map(func => func.content), ['const b = () => 2', 'const c = function () { return 3; }']);
+  });
+
+  test('keeps the text of members as written', () => {
+    assert.equal(functions.find(func => func.name === 'save')!.content, 'save: function () { return 9; }');
+    assert.equal(functions.find(func => func.name === 'onClick')!.content, 'onClick = () => 7;');
+  });
+
+  test('leaves files of other types alone and lets read errors through', () => {
+    assert.equal(parseFile('README.md'), null);
+    assert.throws(() => parseFile('missing.ts'), /ENOENT/);
+  });
+});
+
+describe('function details', () => {
+  const functions = extractFunctionsFromContent('a.ts', SOURCE);
+  const find = (qualifiedName: string) => functions.find(func => func.qualifiedName === qualifiedName)!;
+
+  test('qualify names with the enclosing classes, objects and functions', () => {
+    assert.deepEqual(functions.map(func => func.qualifiedName), [
+      'a',
+      'b',
+      'c',
+      'd',
+      'e',
+      'default',
+      'Shape.constructor',
+      'Shape.area',
+      'Shape.width',
+      'Shape.width',
+      'Shape.hidden',
+      'Shape.onClick',
+      'api.load',
+      'api.save',
+      'api.run',
+      'api.run.inner'
+    ]);
+  });
+
+  test('record the span of each function, with its size', () => {
+    const { startLine, startColumn, endLine, endColumn, lineCount, tokenCount, statementCount } = find('api.run');
+    assert.deepEqual(
+      { startLine, startColumn, endLine, endColumn, lineCount, tokenCount, statementCount },
+      { startLine: 17, startColumn: 3, endLine: 17, endColumn: 56, lineCount: 1, tokenCount: 20, statementCount: 2 }
+    );
+    assert.deepEqual([find('c').startColumn, find('c').endColumn], [20, 48]);
+    assert.deepEqual([find('api.run.inner').startColumn, find('api.run.inner').endColumn], [16, 38]);
+  });
+
+  test('record the kind of each function', () => {
+    assert.deepEqual(functions.map(func => func.kind), [
+      'function', 'arrow', 'function', 'arrow', 'function', 'arrow',
+      'constructor', 'method', 'getter', 'setter', 'method', 'arrow',
+      'method', 'function', 'arrow', 'arrow'
+    ]);
+  });
+
+  test('record whether a function can be used from other modules', () => {
+    const exported = functions.filter(func => func.exported).map(func => func.qualifiedName);
+    assert.deepEqual(exported, [
+      'a', 'd', 'e', 'default',
+      'Shape.constructor', 'Shape.area', 'Shape.width', 'Shape.width', 'Shape.onClick',
+      'api.load', 'api.save', 'api.run'
+    ]);
+  });
+
+  test('record async functions and generators', () => {
+    const [first, second] = extractFunctionsFromContent('b.ts', 'async function load() {}\nfunction* ids() {}\n');
+    assert.deepEqual([first.async, first.generator, second.async, second.generator], [true, false, false, true]);
+  });
+});
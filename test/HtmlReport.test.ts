@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { createReportData } from '../src/ReportModel';
+import { convertToHtml } from '../src/HtmlReport';
+import { createProject, removeProject, scan } from './helpers';
+
+const RENDER = 'export function render(name: string) {\n  return \'</script><b class="x">\' + name + \' & co\';\n}\n';
+
+describe('HTML report', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  test('escapes the source it shows', async () => {
+    projectRoot = createProject({ 'src/a.ts': RENDER, 'src/views/b.ts': RENDER });
+
+    const html = convertToHtml(createReportData(await scan(projectRoot)));
+    assert.equal(html.match(/<script>/g)?.length, 1);
+    assert.doesNotMatch(html, /<\/script><b/);
+    assert.match(html, /<span class="str">&#39;&lt;\/script&gt;&lt;b class=&quot;x&quot;&gt;&#39;<\/span>/);
+    assert.match(html, /<span class="str">&#39; &amp; co&#39;<\/span>/);
+  });
+
+  test('lists the directories of every group for filtering', async () => {
+    projectRoot = createProject({ 'src/a.ts': RENDER, 'src/views/b.ts': RENDER });
+
+    const html = convertToHtml(createReportData(await scan(projectRoot)));
+    assert.match(html, /<details class="group" data-name="render" data-directories="src\|src\/views">/);
+    assert.match(html, /<option value="src">src<\/option><option value="src\/views">src\/views<\/option>/);
+  });
+
+  test('shows the differences between copies side by side', async () => {
+    projectRoot = createProject({
+      'a.ts': 'export function total(items: number[]) {\n  return items.reduce((sum, item) => sum + item, 0);\n}\n',
+      'b.ts': 'export function total(values: number[]) {\n  return values.reduce((sum, value) => sum + value, 0);\n}\n'
+    });
+
+    const html = convertToHtml(createReportData(await scan(projectRoot, { mode: 'structural' })));
+    assert.match(html, /<h4>Differences<\/h4><table class="diff"><tr><th colspan="2">a\.ts:1-3 /);
+    assert.equal(html.match(/<td class="removed">/g)?.length, 2);
+    assert.equal(html.match(/<td class="added">/g)?.length, 2);
+  });
+
+  test('says so when nothing was found', async () => {
+    projectRoot = createProject({ 'a.ts': RENDER });
+
+    assert.match(convertToHtml(createReportData(await scan(projectRoot))), /<p class="empty">No duplicate functions found\.<\/p>/);
+  });
+});
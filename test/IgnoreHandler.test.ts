@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { IgnoreHandler } from '../src/IgnoreHandler';
+import { createProject, removeProject } from './helpers';
+
+describe('IgnoreHandler', () => {
+  let projectRoot: string | undefined;
+
+  /**
+   * Writes a project and reads its ignore files
+   * @param files - Content of each file, keyed by path relative to the project root
+   * @param gitignore - Whether to honor .gitignore files
+   * @returns The handler
+   */
+  const createHandler = (files: Record<string, string>, gitignore = false): IgnoreHandler => {
+    projectRoot = createProject(files);
+    return new IgnoreHandler(projectRoot, { gitignore });
+  };
+
+  afterEach(() => {
+    if (projectRoot) {
+      removeProject(projectRoot);
+      projectRoot = undefined;
+    }
+  });
+
+  test('uses the default patterns without an .ignore file', () => {
+    const handler = createHandler({ 'node_modules/lib/index.js': '', 'src/index.ts': '' });
+
+    assert.equal(handler.isUsingDefaults(), true);
+    assert.equal(handler.shouldIgnore('node_modules/lib/index.js'), true);
+    assert.equal(handler.shouldIgnore('src/index.ts'), false);
+  });
+
+  test('includes paths again with negated patterns', () => {
+    const handler = createHandler({ '.ignore': '*.generated.ts\n!keep.generated.ts\n', 'a.generated.ts': '', 'keep.generated.ts': '' });
+
+    assert.equal(handler.isUsingDefaults(), false);
+    assert.equal(handler.shouldIgnore('a.generated.ts'), true);
+    assert.equal(handler.shouldIgnore('keep.generated.ts'), false);
+  });
+
+  test('cannot include a file again once its directory is ignored', () => {
+    const handler = createHandler({ '.ignore': 'vendor/\n!vendor/keep.ts\n', 'vendor/keep.ts': '' });
+
+    assert.equal(handler.getMatchingPattern('vendor/keep.ts'), 'vendor/');
+  });
+
+  test('anchors patterns with a leading slash or a slash in the middle to the root', () => {
+    const handler = createHandler({
+      '.ignore': '/build\nsrc/tmp\nlogs\n',
+      'build/a.ts': '',
+      'src/build/a.ts': '',
+      'src/tmp/a.ts': '',
+      'lib/src/tmp/a.ts': '',
+      'src/logs/a.ts': ''
+    });
+
+    assert.equal(handler.shouldIgnore('build/a.ts'), true);
+    assert.equal(handler.shouldIgnore('src/build/a.ts'), false);
+    assert.equal(handler.shouldIgnore('src/tmp/a.ts'), true);
+    assert.equal(handler.shouldIgnore('lib/src/tmp/a.ts'), false);
+    assert.equal(handler.shouldIgnore('src/logs/a.ts'), true);
+  });
+
+  test('matches any number of directories with **', () => {
+    const handler = createHandler({
+      '.ignore': 'src/**/fixtures\n**/*.snap.ts\n',
+      'src/fixtures/a.ts': '',
+      'src/deep/er/fixtures/a.ts': '',
+      'test/fixtures/a.ts': '',
+      'a/b/c.snap.ts': ''
+    });
+
+    assert.equal(handler.shouldIgnore('src/fixtures/a.ts'), true);
+    assert.equal(handler.shouldIgnore('src/deep/er/fixtures/a.ts'), true);
+    assert.equal(handler.shouldIgnore('test/fixtures/a.ts'), false);
+    assert.equal(handler.shouldIgnore('a/b/c.snap.ts'), true);
+  });
+
+  test('matches patterns with a trailing slash only against directories', () => {
+    const handler = createHandler({ '.ignore': 'out/\n', 'out/a.ts': '', 'src/out': '' });
+
+    assert.equal(handler.shouldIgnore('out'), true);
+    assert.equal(handler.shouldIgnore('out/a.ts'), true);
+    assert.equal(handler.shouldIgnore('src/out'), false);
+  });
+
+  test('applies nested .ignore files relative to their directory, over the root file', () => {
+    const handler = createHandler({
+      '.ignore': '*.js\n',
+      'packages/app/.ignore': '!legacy.js\n/dist\n',
+      'packages/app/legacy.js': '',
+      'packages/app/other.js': '',
+      'packages/app/dist/a.ts': '',
+      'dist/a.ts': ''
+    });
+
+    assert.equal(handler.shouldIgnore('packages/app/legacy.js'), false);
+    assert.equal(handler.shouldIgnore('packages/app/other.js'), true);
+    assert.equal(handler.getMatchingPattern('packages/app/dist/a.ts'), 'packages/app/.ignore: /dist');
+    assert.equal(handler.shouldIgnore('dist/a.ts'), false);
+  });
+
+  test('honors .gitignore files only when asked, letting .ignore files override them', () => {
+    const files = { '.gitignore': 'generated/\n*.local.ts\n', '.ignore': '!settings.local.ts\n', 'generated/a.ts': '', 'settings.local.ts': '', 'a.local.ts': '' };
+
+    const withoutGitignore = createHandler(files);
+    assert.equal(withoutGitignore.shouldIgnore('generated/a.ts'), false);
+    removeProject(projectRoot!);
+
+    const withGitignore = createHandler(files, true);
+    assert.equal(withGitignore.getMatchingPattern('generated/a.ts'), '.gitignore: generated/');
+    assert.equal(withGitignore.shouldIgnore('a.local.ts'), true);
+    assert.equal(withGitignore.shouldIgnore('settings.local.ts'), false);
+  });
+
+  test('never ignores paths outside of the project', () => {
+    const handler = createHandler({ '.ignore': '*\n' });
+
+    assert.equal(handler.shouldIgnore('../elsewhere.ts'), false);
+  });
+});
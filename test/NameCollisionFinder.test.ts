@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { afterEach, describe, test } from 'node:test';
+import { NameCollision } from '../src/NameCollisionFinder';
+import { createProject, removeProject, scan } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+const FORMAT_ROUNDED = 'export function format(value: number) {\n  return value.toFixed(0);\n}\n';
+
+describe('name collisions', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  /**
+   * Gets the variants of each name collision
+   * @param collisions - The name collisions
+   * @returns For each collision, its name and the occurrences of each variant as
+   * "relative/path.ts:line"
+   */
+  const getVariants = (collisions: NameCollision[]) => collisions.map(collision => [
+    collision.name,
+    collision.variants.map(variant => variant.occurrences.map(occurrence =>
+      `${path.relative(projectRoot, occurrence.filePath)}:${occurrence.lineNumber}`))
+  ]);
+
+  test('splits same-named functions into variants of identical copies', async () => {
+    projectRoot = createProject({ 'a.ts': FORMAT, 'b.ts': FORMAT, 'c.ts': FORMAT_ROUNDED });
+
+    const result = await scan(projectRoot, { nameCollisions: true });
+    assert.deepEqual(getVariants(result.nameCollisions), [['format', [['a.ts:1', 'b.ts:1'], ['c.ts:1']]]]);
+    assert.equal(result.nameCollisions[0].key, 'name');
+  });
+
+  test('are not looked for unless asked for', async () => {
+    projectRoot = createProject({ 'a.ts': FORMAT, 'c.ts': FORMAT_ROUNDED });
+
+    assert.deepEqual((await scan(projectRoot)).nameCollisions, []);
+  });
+
+  test('match the copies of a variant in the detection mode', async () => {
+    projectRoot = createProject({
+      'a.ts': FORMAT,
+      'b.ts': 'export function format(amount: number) {\n  return amount.toFixed(2);\n}\n',
+      'c.ts': FORMAT_ROUNDED
+    });
+
+    const exact = await scan(projectRoot, { nameCollisions: true });
+    assert.deepEqual(getVariants(exact.nameCollisions), [['format', [['a.ts:1'], ['b.ts:1'], ['c.ts:1']]]]);
+
+    const structural = await scan(projectRoot, { nameCollisions: true, mode: 'structural' });
+    assert.deepEqual(getVariants(structural.nameCollisions), [['format', [['a.ts:1', 'b.ts:1'], ['c.ts:1']]]]);
+  });
+
+  test('group methods by qualified name when asked to', async () => {
+    projectRoot = createProject({
+      'views.ts': 'export class UserView {\n  render() {\n    return 1;\n  }\n}\n\n' +
+        'export class ItemView {\n  render() {\n    return 2;\n  }\n}\n',
+      'other.ts': 'export class UserView {\n  render() {\n    return 3;\n  }\n}\n'
+    });
+
+    const byName = await scan(projectRoot, { nameCollisions: true });
+    assert.deepEqual(getVariants(byName.nameCollisions), [['render', [['other.ts:2'], ['views.ts:2'], ['views.ts:8']]]]);
+
+    const byQualifiedName = await scan(projectRoot, { nameCollisions: true, collisionKey: 'qualified' });
+    assert.deepEqual(getVariants(byQualifiedName.nameCollisions), [['UserView.render', [['other.ts:2'], ['views.ts:2']]]]);
+  });
+
+  test('ignore constructors', async () => {
+    projectRoot = createProject({
+      'a.ts': 'export class A {\n  constructor() {\n    console.log(1);\n  }\n}\n',
+      'b.ts': 'export class B {\n  constructor() {\n    console.log(2);\n  }\n}\n'
+    });
+
+    assert.deepEqual((await scan(projectRoot, { nameCollisions: true })).nameCollisions, []);
+  });
+
+  test('leave out functions marked as intentional duplicates', async () => {
+    projectRoot = createProject({
+      'a.ts': FORMAT,
+      'b.ts': FORMAT,
+      'c.ts': `// duplicate-detector-ignore -- rounds on purpose\n${FORMAT_ROUNDED}`
+    });
+
+    assert.deepEqual((await scan(projectRoot, { nameCollisions: true })).nameCollisions, []);
+  });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { extractFunctionsFromContent, FunctionInfo } from '../src/FunctionFinder';
+import { findNearDuplicates } from '../src/NearDuplicateFinder';
+
+/**
+ * Builds a function that adds up weighted values, one statement per value
+ * @param filePath - The file of the function
+ * @param from - Index of the first value
+ * @param to - Index of the last value
+ * @returns The function
+ */
+function createSum(filePath: string, from: number, to: number): FunctionInfo {
+  const statements = Array.from({ length: to - from + 1 }, (_, i) => `  total += values[${from + i}] * ${from + i};`);
+  const content = `function sum(values: number[]) {\n  let total = 0;\n${statements.join('\n')}\n  return total;\n}\n`;
+  return extractFunctionsFromContent(filePath, content)[0];
+}
+
+describe('findNearDuplicates', () => {
+  test('groups a copy with an extra line and reports its similarity', () => {
+    const groups = findNearDuplicates([createSum('a.ts', 1, 12), createSum('b.ts', 1, 11)], 0.7);
+
+    assert.equal(groups.length, 1);
+    assert.deepEqual(groups[0].occurrences.map(occurrence => occurrence.filePath), ['a.ts', 'b.ts']);
+    assert.equal(groups[0].mode, 'near');
+    assert.ok(groups[0].similarity >= 0.7 && groups[0].similarity < 1);
+  });
+
+  test('leaves out pairs below the threshold', () => {
+    assert.deepEqual(findNearDuplicates([createSum('a.ts', 1, 12), createSum('b.ts', 1, 11)], 0.99), []);
+  });
+
+  test('does not group unrelated functions', () => {
+    const other = extractFunctionsFromContent('c.ts', 'function greet(name: string) {\n  return `Hello, ${name}!`;\n}\n')[0];
+    assert.deepEqual(findNearDuplicates([createSum('a.ts', 1, 12), other], 0.5), []);
+  });
+
+  test('does not chain functions that are only similar through a third', () => {
+    const first = createSum('a.ts', 1, 12);
+    const middle = createSum('b.ts', 3, 14);
+    const last = createSum('c.ts', 5, 16);
+    const [firstToMiddle] = findNearDuplicates([first, middle], 0.01);
+    const [firstToLast] = findNearDuplicates([first, last], 0.01);
+    const threshold = (firstToMiddle.similarity + firstToLast.similarity) / 2;
+
+    const groups = findNearDuplicates([first, middle, last], threshold);
+
+    assert.equal(groups.length, 1);
+    assert.deepEqual(groups[0].occurrences.map(occurrence => occurrence.filePath), ['a.ts', 'b.ts']);
+    assert.ok(groups[0].similarity >= threshold);
+  });
+
+  test('reports the lowest similarity between any two members', () => {
+    const functions = [createSum('a.ts', 1, 12), createSum('b.ts', 1, 11), createSum('c.ts', 2, 12)];
+    const [group] = findNearDuplicates(functions, 0.5);
+    const pairs = [[0, 1], [0, 2], [1, 2]].map(([a, b]) => findNearDuplicates([functions[a], functions[b]], 0.01)[0].similarity);
+
+    assert.equal(group.occurrences.length, 3);
+    assert.equal(group.similarity, Math.min(...pairs));
+  });
+});
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { parseFileContent, parseFiles } from '../src/ParallelParser';
+import { createProject, removeProject, scan } from './helpers';
+
+// Enough files for two workers
+const FILE_COUNT = 120;
+
+/**
+ * Writes a file whose functions repeat in every tenth file, with a block shared by every file
+ * @param index - Index of the file
+ * @returns The source text of the file
+ */
+function createFile(index: number): string {
+  const variant = index % 10;
+  return [
+    `export function format${variant}(value: number) {`,
+    `  return value.toFixed(${variant});`,
+    '}',
+    `export function run${index}() {`,
+    `  start(${index});`,
+    '  const a = load();',
+    '  const b = parse(a);',
+    '  check(b);',
+    '  save(b);',
+    '  log(b);',
+    '}',
+    ''
+  ].join('\n');
+}
+
+describe('worker pool', () => {
+  let projectRoot: string;
+
+  before(() => {
+    projectRoot = createProject(Object.fromEntries(Array.from({ length: FILE_COUNT }, (_, index) =>
+      [`file${String(index).padStart(3, '0')}.ts`, createFile(index)])));
+  });
+  after(() => removeProject(projectRoot));
+
+  test('returns the files in the order they were given', async () => {
+    const tasks = Array.from({ length: FILE_COUNT }, (_, index) => ({ filePath: `/project/file${index}.ts`, content: createFile(index) }));
+
+    assert.deepEqual(await parseFiles(tasks, 'exact', 2, 5), tasks.map(task => parseFileContent(task, 'exact', 5)));
+  });
+
+  test('finds what a single-threaded scan finds', async () => {
+    const expected = await scan(projectRoot, { blocks: true });
+    assert.equal(expected.duplicates.length, 10);
+    assert.equal(expected.blocks.length, FILE_COUNT - 1);
+
+    const result = await scan(projectRoot, { blocks: true, jobs: 2 });
+    assert.deepEqual(result.duplicates, expected.duplicates);
+    assert.deepEqual(result.blocks, expected.blocks);
+    assert.deepEqual(result.functions, expected.functions);
+  });
+});
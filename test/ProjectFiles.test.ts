@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { afterEach, describe, test } from 'node:test';
+import { extractFunctionsFromContent } from '../src/FunctionFinder';
+import { getProjectFiles } from '../src/ProjectFiles';
+import { createProject, getGroupLocations, removeProject, scan } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+
+describe('TypeScript projects', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  test('list the files the compiler would, following project references', () => {
+    projectRoot = createProject({
+      'tsconfig.json': JSON.stringify({ include: ['src'], exclude: ['src/**/*.test.ts'], references: [{ path: './tools' }] }),
+      'tools/tsconfig.json': JSON.stringify({ compilerOptions: { composite: true, allowJs: true }, include: ['*.js'] }),
+      'src/a.ts': FORMAT,
+      'src/a.test.ts': FORMAT,
+      'src/b.js': FORMAT,
+      'tools/build.js': FORMAT,
+      'scratch.ts': FORMAT
+    });
+
+    const files = getProjectFiles(projectRoot);
+    assert.deepEqual(files.configPaths.map(configPath => path.relative(projectRoot, configPath)),
+      ['tsconfig.json', path.join('tools', 'tsconfig.json')]);
+    assert.deepEqual(files.files.map(filePath => path.relative(projectRoot, filePath)).sort(),
+      [path.join('src', 'a.ts'), path.join('tools', 'build.js')]);
+  });
+
+  test('are scanned instead of every file in the directory', async () => {
+    projectRoot = createProject({
+      'tsconfig.json': JSON.stringify({ include: ['src'] }),
+      'src/a.ts': FORMAT,
+      'src/b.ts': FORMAT,
+      'scratch.ts': FORMAT
+    });
+
+    const result = await scan(projectRoot, { project: projectRoot });
+    assert.deepEqual(getGroupLocations(result), [[path.join('src', 'a.ts') + ':1', path.join('src', 'b.ts') + ':1']]);
+    assert.deepEqual(result.project?.configPaths, [path.join(projectRoot, 'tsconfig.json')]);
+  });
+
+  test('add no functions from declaration files', async () => {
+    projectRoot = createProject({
+      'tsconfig.json': JSON.stringify({ include: ['src'] }),
+      // The default ignore patterns leave out declaration files already
+      '.ignore': 'node_modules/\n',
+      'src/a.d.ts': 'export declare function format(value: number): string;\n',
+      'src/b.d.ts': 'export declare function format(value: number): string;\n'
+    });
+
+    const result = await scan(projectRoot, { project: projectRoot });
+    assert.equal(result.sourceFileCount, 2);
+    assert.equal(result.functionCount, 0);
+  });
+
+  test('cannot be combined with extensions', async () => {
+    projectRoot = createProject({ 'tsconfig.json': '{}', 'a.ts': FORMAT });
+
+    await assert.rejects(scan(projectRoot, { project: projectRoot, extensions: ['.ts'] }), /Extensions cannot be given/);
+  });
+
+  test('report an invalid config', async () => {
+    projectRoot = createProject({ 'tsconfig.json': JSON.stringify({ compilerOptions: { target: 'es1' } }) });
+
+    await assert.rejects(scan(projectRoot, { project: projectRoot }), /Invalid TypeScript project/);
+  });
+});
+
+describe('extensions', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  test('decide which files are scanned when walking the directory', async () => {
+    projectRoot = createProject({ 'a.ts': FORMAT, 'b.ts': FORMAT, 'c.js': FORMAT });
+
+    assert.deepEqual(getGroupLocations(await scan(projectRoot)), [['a.ts:1', 'b.ts:1', 'c.js:1']]);
+
+    const result = await scan(projectRoot, { extensions: ['.ts'] });
+    assert.deepEqual(getGroupLocations(result), [['a.ts:1', 'b.ts:1']]);
+    assert.deepEqual(result.extensions, ['.ts']);
+  });
+});
+
+describe('signatures', () => {
+  test('without a body are not functions', () => {
+    const functions = extractFunctionsFromContent('a.ts', [
+      'export function parse(text: string): number;',
+      'export function parse(text: string[]): number[];',
+      'export function parse(text: string | string[]) {\n  return text;\n}',
+      'declare function log(message: string): void;',
+      'export abstract class Shape {\n  abstract area(): number;\n  constructor();\n  constructor(size?: number) {}\n}'
+    ].join('\n'));
+
+    assert.deepEqual(functions.map(func => `${func.qualifiedName}:${func.lineNumber}`), ['parse:3', 'Shape.constructor:10']);
+  });
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { afterEach, describe, test } from 'node:test';
+import { ScanResult } from '../src/DuplicateScanner';
+import { describeReference } from '../src/ReferenceLibrary';
+import { createProject, removeProject, scan } from './helpers';
+
+const SUM = 'export function sumAll(items: number[]) {\n  return items.reduce((sum, item) => sum + item, 0);\n}\n';
+const TOTAL = 'export function total(values: number[]) {\n  return values.reduce((sum, value) => sum + value, 0);\n}\n';
+const LOCAL_SUM = 'function sumAll(items: number[]) {\n  return items.reduce((sum, item) => sum + item, 0);\n}\n';
+
+describe('reference libraries', () => {
+  let root: string;
+
+  afterEach(() => removeProject(root));
+
+  /**
+   * Gets the project functions matched to each reference function
+   * @param matches - The reference matches of a scan
+   * @returns For each match, the reference as "name utils/path.ts:line" and its
+   * reimplementations as "app/path.ts:line"
+   */
+  const getMatches = (matches: ScanResult['referenceMatches']) => matches!.map(match => [
+    `${match.reference!.name} ${path.relative(root, match.reference!.filePath)}:${match.reference!.lineNumber}`,
+    ...match.occurrences.map(occurrence => `${path.relative(root, occurrence.filePath)}:${occurrence.lineNumber}`)
+  ]);
+
+  test('report the project functions that reimplement an exported reference function', async () => {
+    root = createProject({
+      'utils/package.json': JSON.stringify({ name: '@acme/utils' }),
+      'utils/src/internal.ts': LOCAL_SUM,
+      'utils/src/math.ts': SUM,
+      'app/src/cart.ts': SUM,
+      'app/src/order.ts': `// Totals\n${SUM}`,
+      'app/src/other.ts': TOTAL
+    });
+
+    const result = await scan(path.join(root, 'app'), { references: [path.join(root, 'utils')] });
+    assert.equal(result.duplicates.length, 1);
+    assert.deepEqual(getMatches(result.referenceMatches), [[`sumAll ${path.join('utils', 'src', 'math.ts')}:1`,
+      `${path.join('app', 'src', 'cart.ts')}:1`, `${path.join('app', 'src', 'order.ts')}:2`]]);
+
+    const [match] = result.referenceMatches!;
+    assert.match(match.hash!, /^[0-9a-f]{64}$/);
+    assert.equal(match.reference!.package, '@acme/utils');
+    assert.equal(describeReference({ ...match.reference!, filePath: '../utils/src/math.ts' }),
+      'sumAll from @acme/utils (../utils/src/math.ts:1)');
+  });
+
+  test('match structurally and by similarity in those modes', async () => {
+    root = createProject({ 'utils/math.ts': SUM, 'app/total.ts': TOTAL });
+    const scanApp = (mode: 'exact' | 'structural' | 'near') =>
+      scan(path.join(root, 'app'), { references: [path.join(root, 'utils')], mode });
+
+    assert.deepEqual((await scanApp('exact')).referenceMatches, []);
+    assert.deepEqual(getMatches((await scanApp('structural')).referenceMatches),
+      [[`sumAll ${path.join('utils', 'math.ts')}:1`, `${path.join('app', 'total.ts')}:1`]]);
+    assert.deepEqual(getMatches((await scanApp('near')).referenceMatches),
+      [[`sumAll ${path.join('utils', 'math.ts')}:1`, `${path.join('app', 'total.ts')}:1`]]);
+  });
+
+  test('say when the reference function cannot be imported', async () => {
+    root = createProject({ 'utils/math.ts': LOCAL_SUM, 'app/cart.ts': LOCAL_SUM });
+
+    const [match] = (await scan(path.join(root, 'app'), { references: [path.join(root, 'utils')] })).referenceMatches!;
+    assert.equal(describeReference({ ...match.reference!, filePath: '../utils/math.ts' }), 'sumAll at ../utils/math.ts:1, not exported');
+  });
+
+  test('leave out the reference itself and suppressed functions', async () => {
+    root = createProject({
+      'src/utils/math.ts': SUM,
+      'src/cart.ts': `// duplicate-detector-ignore -- kept for the v1 API\n${SUM}`,
+      'src/order.ts': SUM
+    });
+
+    const result = await scan(root, { references: [path.join(root, 'src', 'utils')] });
+    assert.deepEqual(getMatches(result.referenceMatches),
+      [[`sumAll ${path.join('src', 'utils', 'math.ts')}:1`, `${path.join('src', 'order.ts')}:1`]]);
+  });
+
+  test('must be directories, and cannot be used with type-aware matching', async () => {
+    root = createProject({ 'app/cart.ts': SUM });
+
+    await assert.rejects(scan(root, { references: ['missing-utils'] }), /Reference directory "missing-utils" does not exist/);
+    await assert.rejects(scan(root, { references: [path.join(root, 'app')], typeAware: true }),
+      /Type-aware matching is not available with reference libraries/);
+  });
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { ReportData, createReportData } from '../src/ReportModel';
+import { convertToCsv, convertToJUnit, convertToJson, convertToMarkdown, convertToSarif } from '../src/ReportFormatter';
+import { createProject, removeProject, scan } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+
+describe('report formats', () => {
+  let projectRoot: string;
+  let data: ReportData;
+
+  before(async () => {
+    projectRoot = createProject({
+      'a.ts': FORMAT,
+      'b.ts': `// Helpers\n${FORMAT}`,
+      'c.ts': 'export function format(value: number) {\n  return value.toFixed(0);\n}\n'
+    });
+    data = createReportData(await scan(projectRoot, { nameCollisions: true }), '2025-01-01T00:00:00.000Z');
+  });
+  after(() => removeProject(projectRoot));
+
+  test('JSON locates occurrences by their spans and groups by their hash', () => {
+    const report = JSON.parse(convertToJson(data));
+    const [group] = report.duplicates;
+
+    assert.equal(report.summary.duplicateGroups, 1);
+    assert.match(group.hash, /^[0-9a-f]{64}$/);
+    assert.deepEqual(group.occurrences.map((occurrence: Record<string, unknown>) =>
+      [occurrence.filePath, occurrence.startLine, occurrence.endLine, occurrence.content]),
+    [['a.ts', 1, 3, undefined], ['b.ts', 2, 4, undefined]]);
+    assert.equal(report.nameCollisions[0].variants[1].diff, undefined);
+  });
+
+  test('JSON includes the source text when asked for', () => {
+    const report = JSON.parse(convertToJson(data, true));
+
+    assert.equal(report.duplicates[0].occurrences[0].content, FORMAT.trimEnd());
+    assert.match(report.nameCollisions[0].variants[1].diff, /^-\s+return value\.toFixed\(2\);$/m);
+  });
+
+  test('SARIF has a result per occurrence, related to the other copies', () => {
+    const sarif = JSON.parse(convertToSarif(data));
+    const [run] = sarif.runs;
+    const duplicates = run.results.filter((result: { ruleId: string }) => result.ruleId === 'duplicate-function');
+
+    assert.equal(sarif.version, '2.1.0');
+    assert.equal(duplicates.length, 2);
+    assert.deepEqual(duplicates[1].locations[0].physicalLocation.artifactLocation, { uri: 'b.ts', uriBaseId: 'PROJECTROOT' });
+    assert.deepEqual(duplicates[1].locations[0].physicalLocation.region,
+      { startLine: 2, startColumn: 1, endLine: 4, endColumn: 2 });
+    assert.equal(duplicates[1].relatedLocations[0].physicalLocation.region.startLine, 1);
+    assert.equal(run.results.filter((result: { ruleId: string }) => result.ruleId === 'name-collision').length, 2);
+  });
+
+  test('CSV has a row per occurrence, then the metrics rows', () => {
+    const rows = convertToCsv(data).trimEnd().split('\n').map(row => row.split(','));
+    const header = rows[0];
+    const cell = (row: string[], column: string) => row[header.indexOf(column)];
+
+    assert.deepEqual(rows.slice(1, 3).map(row => [cell(row, 'group'), cell(row, 'type'), cell(row, 'filePath'), cell(row, 'startLine')]),
+      [['1', 'function', 'a.ts', '1'], ['1', 'function', 'b.ts', '2']]);
+    assert.deepEqual(rows.slice(1).map(row => cell(row, 'type')).filter(type => type !== 'function' && type !== 'name-collision'),
+      ['project', 'file', 'file']);
+    assert(rows.every(row => row.length === header.length));
+  });
+
+  test('JUnit fails a test case per group', () => {
+    const xml = convertToJUnit(data);
+
+    assert.match(xml, /<testsuites name="duplicate-detector" tests="1" failures="1" skipped="0">/);
+    assert.match(xml, /<testcase classname="duplicate-detector\.functions" name="format \(a\.ts:1\)">/);
+    assert.match(xml, /<failure message="Function &apos;format&apos; has 2 copies \(exact match\)" type="duplicate-function">a\.ts:1-3 format\nb\.ts:2-4 format<\/failure>/);
+  });
+
+  test('markdown escapes the pipes of names in tables', () => {
+    const markdown = convertToMarkdown({
+      ...data,
+      duplicates: [{ ...data.duplicates[0], name: 'a|b' }]
+    });
+
+    assert.match(markdown, /\| \*\*a\\\|b\*\* \| exact \|/);
+  });
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { after, describe, test } from 'node:test';
+import { normalizeFunctionStructure } from '../src/StructuralNormalizer';
+import { createProject, getGroupLocations, removeProject, scan } from './helpers';
+
+describe('normalizeFunctionStructure', () => {
+  test('ignores the names of parameters and locals', () => {
+    assert.equal(
+      normalizeFunctionStructure('function calculateSum(a: number, b: number) { const total = a + b; return total; }'),
+      normalizeFunctionStructure('function calculateSum(x: number, y: number) {\n  const sum = x + y;\n  return sum;\n}')
+    );
+  });
+
+  test('ignores comments and formatting', () => {
+    assert.equal(
+      normalizeFunctionStructure('function twice(n: number) { return n * 2; }'),
+      normalizeFunctionStructure('function twice(n: number) {\n  // Double it\n  return n *\n    2;\n}')
+    );
+  });
+
+  test('renames consistently, so swapped parameters still differ', () => {
+    assert.notEqual(
+      normalizeFunctionStructure('function minus(a: number, b: number) { return a - b; }'),
+      normalizeFunctionStructure('function minus(a: number, b: number) { return b - a; }')
+    );
+  });
+
+  test('keeps property names and identifiers declared outside the function', () => {
+    assert.notEqual(
+      normalizeFunctionStructure('function count(items: string[]) { return items.length; }'),
+      normalizeFunctionStructure('function count(items: Set<string>) { return items.size; }')
+    );
+    assert.notEqual(
+      normalizeFunctionStructure('function log(text: string) { console.log(text); }'),
+      normalizeFunctionStructure('function log(text: string) { logger.log(text); }')
+    );
+  });
+
+  test('keeps the keys of shorthand properties and destructuring', () => {
+    assert.notEqual(
+      normalizeFunctionStructure('function makeA(x: number) { const count = x * 2; return { count }; }'),
+      normalizeFunctionStructure('function makeB(y: number) { const total = y * 2; return { total }; }')
+    );
+    assert.notEqual(
+      normalizeFunctionStructure('function readA(o: Totals) { const { count } = o; return count; }'),
+      normalizeFunctionStructure('function readB(o: Totals) { const { total } = o; return total; }')
+    );
+    assert.equal(
+      normalizeFunctionStructure('function makeA(x: number) { const count = x * 2; return { count }; }'),
+      normalizeFunctionStructure('function makeB(y: number) { const total = y * 2; return { count: total }; }')
+    );
+  });
+
+  test('keeps operators and literals', () => {
+    assert.notEqual(
+      normalizeFunctionStructure('function add(a: number) { return a + 1; }'),
+      normalizeFunctionStructure('function add(a: number) { return a + 2; }')
+    );
+  });
+});
+
+describe('structural mode', () => {
+  const projectRoot = createProject({
+    'file1.ts': 'export function calculateSum(a: number, b: number) {\n  return a + b;\n}\n',
+    'file2.ts': 'export function calculateSum(x: number, y: number) {\n  return x + y;\n}\n'
+  });
+  after(() => removeProject(projectRoot));
+
+  test('groups functions that only rename their parameters', async () => {
+    const result = await scan(projectRoot, { mode: 'structural' });
+    assert.deepEqual(getGroupLocations(result), [['file1.ts:1', 'file2.ts:1']]);
+    assert.equal(result.duplicates[0].mode, 'structural');
+  });
+
+  test('does not group them in exact mode', async () => {
+    const result = await scan(projectRoot, { mode: 'exact' });
+    assert.deepEqual(result.duplicates, []);
+  });
+});
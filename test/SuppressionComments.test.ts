@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { DuplicateBlock } from '../src/BlockCloneFinder';
+import { extractFunctionsFromContent, FunctionInfo, getFunctionDetails } from '../src/FunctionFinder';
+import { DuplicateFunction } from '../src/ReportModel';
+import { removeSuppressedOccurrences } from '../src/SuppressionComments';
+import { ScanResult } from '../src/DuplicateScanner';
+import { createProject, getGroupLocations, removeProject, scan } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+
+/**
+ * Builds a duplicate group of functions
+ * @param functions - The functions, in the order of the group
+ * @returns The group, named after its first function
+ */
+function createGroup(functions: FunctionInfo[]): DuplicateFunction {
+  return {
+    name: functions[0].name,
+    mode: 'structural',
+    occurrences: functions.map(func => ({
+      filePath: func.filePath,
+      lineNumber: func.lineNumber,
+      content: func.content,
+      ...getFunctionDetails(func)
+    }))
+  };
+}
+
+describe('suppression directives', () => {
+  let projectRoot: string;
+  let result: ScanResult;
+
+  before(async () => {
+    projectRoot = createProject({
+      'a.ts': FORMAT,
+      'b.ts': FORMAT,
+      'ignored.ts': `// duplicate-detector-ignore -- published separately\n${FORMAT}`,
+      'disabled.ts': `/* duplicate-detector-disable: vendored */\n${FORMAT}/* duplicate-detector-enable */\n` +
+        'export function parse(text: string) {\n  return Number(text);\n}\n',
+      'file.ts': `// duplicate-detector-disable-file\n${FORMAT}`,
+      'parse.ts': 'export function parse(text: string) {\n  return Number(text);\n}\n'
+    });
+    result = await scan(projectRoot);
+  });
+  after(() => removeProject(projectRoot));
+
+  test('take suppressed functions out of their groups', () => {
+    assert.deepEqual(getGroupLocations(result), [['a.ts:1', 'b.ts:1'], ['disabled.ts:6', 'parse.ts:1']]);
+  });
+
+  test('list suppressed functions with their directive and reason', () => {
+    assert.deepEqual(result.suppressed.map(occurrence => [
+      path.relative(projectRoot, occurrence.filePath),
+      occurrence.directive,
+      occurrence.reason
+    ]), [
+      ['disabled.ts', 'disable', 'vendored'],
+      ['file.ts', 'disable-file', undefined],
+      ['ignored.ts', 'ignore', 'published separately']
+    ]);
+    assert.equal(result.suppressed[0].matches.length, 4);
+  });
+});
+
+describe('removeSuppressedOccurrences', () => {
+  test('drops groups left with a single occurrence', () => {
+    const functions = [
+      ...extractFunctionsFromContent('a.ts', FORMAT),
+      ...extractFunctionsFromContent('b.ts', `// duplicate-detector-ignore\n${FORMAT}`)
+    ];
+
+    const { duplicates, suppressed } = removeSuppressedOccurrences([createGroup(functions)], [], functions);
+    assert.deepEqual(duplicates, []);
+    assert.equal(suppressed.length, 1);
+  });
+
+  test('names a group after its first remaining occurrence', () => {
+    const functions = [
+      ...extractFunctionsFromContent('a.ts', '// duplicate-detector-ignore\nfunction first(value: number) {\n  return value * 2;\n}\n'),
+      ...extractFunctionsFromContent('b.ts', 'function second(value: number) {\n  return value * 2;\n}\n'),
+      ...extractFunctionsFromContent('c.ts', 'function third(value: number) {\n  return value * 2;\n}\n')
+    ];
+
+    const { duplicates } = removeSuppressedOccurrences([createGroup(functions)], [], functions);
+    assert.equal(duplicates[0].name, 'second');
+    assert.deepEqual(duplicates[0].occurrences.map(occurrence => occurrence.filePath), ['b.ts', 'c.ts']);
+  });
+
+  test('tells apart functions that start on the same line', () => {
+    // The directive applies to the outer function only
+    const functions = [
+      ...extractFunctionsFromContent('a.ts', '// duplicate-detector-ignore\n' +
+        'export function outer() { function trim(text: string) { return text.trim(); } return trim; }\n'),
+      ...extractFunctionsFromContent('b.ts', 'function trim(text: string) {\n  return text.trim();\n}\n')
+    ];
+    const [outer, inner, copy] = functions;
+
+    const { duplicates, suppressed } = removeSuppressedOccurrences([createGroup([inner, copy])], [], functions);
+    assert.equal(outer.suppression?.directive, 'ignore');
+    assert.equal(outer.lineNumber, inner.lineNumber);
+    assert.deepEqual(suppressed, []);
+    assert.deepEqual(duplicates[0].occurrences.map(occurrence => occurrence.qualifiedName), ['outer.trim', 'trim']);
+  });
+
+  test('drops blocks inside suppressed functions', () => {
+    const content = '// duplicate-detector-ignore\nfunction total(values: number[]) {\n  let sum = 0;\n  sum += values[0];\n  return sum;\n}\n';
+    const functions = [...extractFunctionsFromContent('a.ts', content), ...extractFunctionsFromContent('b.ts', FORMAT)];
+    const block: DuplicateBlock = {
+      statementCount: 3,
+      occurrences: [
+        { filePath: 'a.ts', startLine: 3, endLine: 5, tokenCount: 15 },
+        { filePath: 'c.ts', startLine: 3, endLine: 5, tokenCount: 15 }
+      ]
+    };
+
+    assert.deepEqual(removeSuppressedOccurrences([], [block], functions).blocks, []);
+  });
+});
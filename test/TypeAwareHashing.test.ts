@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { createProject, getGroupLocations, removeProject, scan } from './helpers';
+
+const HELPERS = {
+  'dates.ts': 'export function formatDate(value: number) {\n  return new Date(value).toISOString();\n}\n',
+  'money.ts': 'export function formatMoney(value: number) {\n  return \'$\' + value.toFixed(2);\n}\n'
+};
+
+/**
+ * Writes a module whose show function calls a helper imported under another name
+ * @param importedName - The name the helper is exported as
+ * @param modulePath - The module the helper is imported from
+ * @param alias - The name the helper is imported as
+ * @returns The source text of the module
+ */
+function createShow(importedName: string, modulePath: string, alias: string): string {
+  return `import { ${importedName} as ${alias} } from '${modulePath}';\n\n` +
+    `export function show(value: number) {\n  return ${alias}(value);\n}\n`;
+}
+
+describe('type-aware matching', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  test('tells apart copies that call different helpers under the same name', async () => {
+    projectRoot = createProject({
+      ...HELPERS,
+      'a.ts': createShow('formatDate', './dates', 'format'),
+      'b.ts': createShow('formatMoney', './money', 'format')
+    });
+
+    assert.deepEqual(getGroupLocations(await scan(projectRoot)), [['a.ts:3', 'b.ts:3']]);
+    assert.deepEqual(getGroupLocations(await scan(projectRoot, { typeAware: true })), []);
+  });
+
+  test('matches copies that call the same helper under different names', async () => {
+    projectRoot = createProject({
+      ...HELPERS,
+      'a.ts': createShow('formatDate', './dates', 'format'),
+      'b.ts': createShow('formatDate', './dates', 'toText')
+    });
+
+    assert.deepEqual(getGroupLocations(await scan(projectRoot, { mode: 'structural' })), []);
+
+    const result = await scan(projectRoot, { mode: 'structural', typeAware: true });
+    assert.deepEqual(getGroupLocations(result), [['a.ts:3', 'b.ts:3']]);
+    assert.equal(result.typeAware, true);
+  });
+
+  test('tells apart module-level constants of different modules', async () => {
+    const clamp = 'const LIMIT = 10;\n\nexport function clamp(n: number) {\n  return Math.min(n, LIMIT);\n}\n';
+    projectRoot = createProject({ 'a.ts': clamp, 'b.ts': clamp });
+
+    assert.deepEqual(getGroupLocations(await scan(projectRoot)), [['a.ts:3', 'b.ts:3']]);
+    assert.deepEqual(getGroupLocations(await scan(projectRoot, { typeAware: true })), []);
+  });
+
+  test('splits name collisions by what the copies call', async () => {
+    projectRoot = createProject({
+      ...HELPERS,
+      'a.ts': createShow('formatDate', './dates', 'format'),
+      'b.ts': createShow('formatMoney', './money', 'format')
+    });
+
+    assert.deepEqual((await scan(projectRoot, { nameCollisions: true })).nameCollisions, []);
+
+    const [collision] = (await scan(projectRoot, { nameCollisions: true, typeAware: true })).nameCollisions;
+    assert.equal(collision.name, 'show');
+    assert.equal(collision.variants.length, 2);
+  });
+
+  test('is refused in near mode and with reference libraries', async () => {
+    projectRoot = createProject(HELPERS);
+
+    await assert.rejects(scan(projectRoot, { mode: 'near', typeAware: true }), /not available in near mode/);
+    await assert.rejects(scan(projectRoot, { typeAware: true, references: [projectRoot] }), /not available with reference libraries/);
+  });
+});
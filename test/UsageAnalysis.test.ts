@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { afterEach, describe, test } from 'node:test';
+import { recommendCanonical } from '../src/UsageAnalysis';
+import { DuplicateOccurrence } from '../src/ReportModel';
+import { createProject, removeProject, scan } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+
+/**
+ * Describes an occurrence annotated with its usage
+ * @param usage - Whether it is exported, its references and the depth of its file
+ * @returns The occurrence
+ */
+function createOccurrence(usage: Pick<DuplicateOccurrence, 'exported' | 'referenceCount' | 'depth'>): DuplicateOccurrence {
+  return { filePath: 'a.ts', lineNumber: 1, ...usage };
+}
+
+describe('canonical recommendation', () => {
+  test('prefers the only exported copy over more used ones', () => {
+    assert.deepEqual(recommendCanonical([
+      createOccurrence({ exported: false, referenceCount: 5, depth: 0 }),
+      createOccurrence({ exported: true, referenceCount: 1, depth: 2 })
+    ]), { occurrence: 2, reason: 'only exported copy' });
+  });
+
+  test('prefers the most referenced copy', () => {
+    assert.deepEqual(recommendCanonical([
+      createOccurrence({ exported: true, referenceCount: 2, depth: 0 }),
+      createOccurrence({ exported: true, referenceCount: 5, depth: 1 }),
+      createOccurrence({ exported: true, referenceCount: 0, depth: 0 })
+    ]), { occurrence: 2, reason: 'most references: 5, next 2' });
+  });
+
+  test('prefers the least nested copy of equally used ones', () => {
+    assert.deepEqual(recommendCanonical([
+      createOccurrence({ exported: true, referenceCount: 1, depth: 3 }),
+      createOccurrence({ exported: true, referenceCount: 1, depth: 1 })
+    ]), { occurrence: 2, reason: 'least nested file: depth 1, next 3' });
+  });
+
+  test('falls back to the first copy', () => {
+    assert.deepEqual(recommendCanonical([
+      createOccurrence({ exported: true, referenceCount: 1, depth: 1 }),
+      createOccurrence({ exported: true, referenceCount: 1, depth: 1 })
+    ]), { occurrence: 1, reason: 'first of equally used copies' });
+  });
+});
+
+describe('usage analysis', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  test('counts references resolved through imports and aliases', async () => {
+    projectRoot = createProject({
+      'src/utils/format.ts': FORMAT,
+      'src/format.ts': FORMAT,
+      'src/price.ts': "import { format as formatPrice } from './utils/format';\n\nexport const price = formatPrice(1) + formatPrice(2);\n",
+      'src/total.ts': "import { format } from './format';\n\nexport const total = format(3);\n"
+    });
+
+    const [group] = (await scan(projectRoot, { usage: true })).duplicates;
+    const usage = group.occurrences.map(occurrence =>
+      [path.relative(projectRoot, occurrence.filePath), occurrence.referenceCount, occurrence.depth]);
+
+    assert.deepEqual(usage, [
+      [path.join('src', 'format.ts'), 1, 1],
+      [path.join('src', 'utils', 'format.ts'), 2, 2]
+    ]);
+    assert.deepEqual(group.recommended, { occurrence: 2, reason: 'most references: 2, next 1' });
+  });
+
+  test('does not count recursive calls', async () => {
+    const countdown = 'export function countdown(n: number): number {\n  return n > 0 ? countdown(n - 1) : 0;\n}\n';
+    projectRoot = createProject({ 'a.ts': countdown, 'b.ts': countdown });
+
+    const [group] = (await scan(projectRoot, { usage: true })).duplicates;
+    assert.deepEqual(group.occurrences.map(occurrence => occurrence.referenceCount), [0, 0]);
+  });
+
+  test('is only done when asked for', async () => {
+    projectRoot = createProject({ 'a.ts': FORMAT, 'b.ts': FORMAT });
+
+    const [group] = (await scan(projectRoot)).duplicates;
+    assert.equal(group.recommended, undefined);
+    assert.equal(group.occurrences[0].referenceCount, undefined);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { afterEach, describe, test } from 'node:test';
+import { createReportData } from '../src/ReportModel';
+import { convertToMarkdown } from '../src/ReportFormatter';
+import { filterToCrossPackage, findPackagePairs, findWorkspacePackages } from '../src/Workspaces';
+import { createProject, removeProject, scan } from './helpers';
+
+const FORMAT = 'export function format(value: number) {\n  return value.toFixed(2);\n}\n';
+const PARSE = 'export function parse(text: string) {\n  return Number(text.trim());\n}\n';
+
+describe('workspaces', () => {
+  let projectRoot: string;
+
+  afterEach(() => removeProject(projectRoot));
+
+  test('list the packages of pnpm-workspace.yaml, leaving out negated patterns', () => {
+    projectRoot = createProject({
+      'pnpm-workspace.yaml': 'packages:\n  - \'packages/*\'\n  - \'!packages/legacy\'\n',
+      'packages/api/package.json': JSON.stringify({ name: '@acme/api' }),
+      'packages/web/package.json': '{}',
+      'packages/legacy/package.json': JSON.stringify({ name: 'legacy' }),
+      'tools/package.json': JSON.stringify({ name: 'tools' })
+    });
+
+    assert.deepEqual(findWorkspacePackages(projectRoot)?.map(workspacePackage => workspacePackage.name),
+      ['@acme/api', path.join('packages', 'web')]);
+  });
+
+  test('list the packages of the workspaces field of package.json', () => {
+    projectRoot = createProject({
+      'package.json': JSON.stringify({ workspaces: { packages: ['apps/*'] } }),
+      'apps/site/package.json': JSON.stringify({ name: 'site' })
+    });
+
+    assert.deepEqual(findWorkspacePackages(projectRoot)?.map(workspacePackage => workspacePackage.name), ['site']);
+  });
+
+  test('are not found outside the root of a workspace', () => {
+    projectRoot = createProject({ 'package.json': JSON.stringify({ name: 'app' }) });
+
+    assert.equal(findWorkspacePackages(projectRoot), undefined);
+  });
+
+  test('tag every occurrence with its package and find the packages that share groups', async () => {
+    projectRoot = createProject({
+      'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+      'packages/api/package.json': JSON.stringify({ name: 'api' }),
+      'packages/api/format.ts': FORMAT,
+      'packages/api/parse.ts': PARSE,
+      'packages/api/parse-again.ts': PARSE,
+      'packages/web/package.json': JSON.stringify({ name: 'web' }),
+      'packages/web/format.ts': FORMAT,
+      'scripts/format.ts': FORMAT
+    });
+
+    const result = await scan(projectRoot);
+    assert.deepEqual(result.duplicates.map(group => group.occurrences.map(occurrence => occurrence.package)),
+      [['api', 'web', undefined], ['api', 'api']]);
+    assert.deepEqual(findPackagePairs(result.duplicates), [{ packages: ['api', 'web'], groups: [1] }]);
+    assert.deepEqual(filterToCrossPackage(result).duplicates.map(group => group.name), ['format']);
+
+    const markdown = convertToMarkdown(createReportData(result));
+    assert.match(markdown, /## Cross-Package Duplicates/);
+    assert.match(markdown, /\| api and web \| 1 \| 1 \|/);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Test helpers
+ *
+ * Writes throwaway projects to a temporary directory and scans them, for the tests that
+ * work on files rather than on function text.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { findDuplicates, ScanOptions, ScanResult } from '../src/DuplicateScanner';
+
+/**
+ * Writes a project to a new temporary directory
+ * @param files - Content of each file, keyed by path relative to the project root
+ * @returns Absolute path of the project root
+ */
+export function createProject(files: Record<string, string>): string {
+  // The real path, so paths match those the scan reports where the temporary directory is a link
+  const projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'duplicate-detector-')));
+  writeFiles(projectRoot, files);
+  return projectRoot;
+}
+
+/**
+ * Writes files to a project, creating the directories they are in
+ * @param projectRoot - Absolute path of the project root
+ * @param files - Content of each file, keyed by path relative to the project root
+ */
+export function writeFiles(projectRoot: string, files: Record<string, string>): void {
+  Object.entries(files).forEach(([relativePath, content]) => {
+    const filePath = path.join(projectRoot, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  });
+}
+
+/**
+ * Deletes a project written by createProject
+ * @param projectRoot - Absolute path of the project root
+ */
+export function removeProject(projectRoot: string): void {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+}
+
+/**
+ * Scans a project without the cache and without worker threads
+ * @param projectRoot - Absolute path of the project root
+ * @param options - Other scan options
+ * @returns The scan result
+ */
+export function scan(projectRoot: string, options: Partial<ScanOptions> = {}): Promise<ScanResult> {
+  return findDuplicates({ projectRoot, cache: false, jobs: 1, ...options });
+}
+
+/**
+ * Gets the locations of the occurrences of each duplicate group
+ * @param result - The scan result
+ * @returns For each group, its occurrences as "relative/path.ts:line"
+ */
+export function getGroupLocations(result: ScanResult): string[][] {
+  return result.duplicates.map(group => group.occurrences.map(occurrence =>
+    `${path.relative(result.projectRoot, occurrence.filePath)}:${occurrence.lineNumber}`));
+}